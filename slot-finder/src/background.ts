@@ -1,4 +1,6 @@
 // Background service worker for Chrome extension
+import { handleChromeSignOut, startAuthBroker } from './lib/authBroker';
+
 chrome.runtime.onInstalled.addListener(() => {
   console.log('World Clock Meet Helper installed');
 });
@@ -8,13 +10,15 @@ chrome.sidePanel
   .setPanelBehavior({ openPanelOnActionClick: true })
   .catch((error) => console.error(error));
 
-// Handle OAuth token refresh
+// Own the OAuth tokens and refresh them for every page
+startAuthBroker();
+
 chrome.identity.onSignInChanged.addListener((account, signedIn) => {
   if (signedIn) {
     console.log('User signed in:', account);
   } else {
-    console.log('User signed out');
-    // Clear stored tokens
-    chrome.storage.local.remove(['google_access_token', 'google_refresh_token']);
+    console.log('User signed out:', account);
+    // Only accounts signed in through this profile lose their tokens
+    handleChromeSignOut(account.id);
   }
 });
\ No newline at end of file
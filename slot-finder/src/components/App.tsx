@@ -1,11 +1,17 @@
 import React from "react";
 import { AuthProvider } from "../context/AuthContext";
+import { CalendarsProvider } from "../context/CalendarsContext";
+import { CalendarFeedsProvider } from "../context/CalendarFeedsContext";
 import AppContent from "./AppContent";
 
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <AppContent />
+      <CalendarsProvider>
+        <CalendarFeedsProvider>
+          <AppContent />
+        </CalendarFeedsProvider>
+      </CalendarsProvider>
     </AuthProvider>
   );
 };
@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import { useAuthContext } from '../context/AuthContext';
+import { getConfiguredProviders } from '../lib/calendarProviders';
 import { Button } from './ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '../components/ui/avatar';
 import {
@@ -10,10 +11,19 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../components/ui/dropdown-menu';
-import { Loader2, LogOut, User } from 'lucide-react';
+import { Check, Loader2, LogOut, Plus, User } from 'lucide-react';
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .substring(0, 2);
 
 const AuthButton: React.FC = () => {
-  const { user, isSignedIn, isLoading, signOut } = useAuthContext();
+  const { user, isSignedIn, isLoading, signIn, signOut, accounts, activeAccountId, switchAccount, removeAccount } =
+    useAuthContext();
   const [isSigningOut, setIsSigningOut] = useState(false);
 
   const handleSignOut = useCallback(async () => {
@@ -29,6 +39,17 @@ const AuthButton: React.FC = () => {
     }
   }, [signOut]);
 
+  const handleRemoveAccount = useCallback(async (accountId: string) => {
+    try {
+      setIsSigningOut(true);
+      await removeAccount(accountId);
+    } catch (error) {
+      console.error('Error signing out of account:', error);
+    } finally {
+      setIsSigningOut(false);
+    }
+  }, [removeAccount]);
+
   if (isLoading) {
     return (
       <Button disabled variant="ghost" size="icon" type="button">
@@ -41,12 +62,8 @@ const AuthButton: React.FC = () => {
     return null; // Don't show anything if not signed in
   }
 
-  const initials = user.name
-    .split(' ')
-    .map((n) => n[0])
-    .join('')
-    .toUpperCase()
-    .substring(0, 2);
+  const initials = getInitials(user.name);
+  const providers = getConfiguredProviders();
 
   return (
     <div className="relative">
@@ -83,6 +100,51 @@ const AuthButton: React.FC = () => {
             </div>
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
+
+          {/* Every signed-in account; picking one makes it the active account */}
+          {accounts.length > 1 && (
+            <>
+              {accounts.map((account) => (
+                <DropdownMenuItem
+                  key={account.id}
+                  onClick={() => switchAccount(account.id)}
+                  className="cursor-pointer"
+                  title={`Use ${account.user.email}`}
+                >
+                  <Avatar className="mr-2 h-5 w-5">
+                    <AvatarImage src={account.user.picture} alt={account.user.name} />
+                    <AvatarFallback className="text-[10px]">{getInitials(account.user.name)}</AvatarFallback>
+                  </Avatar>
+                  <span className="truncate">{account.user.email}</span>
+                  {account.id === activeAccountId && <Check className="ml-auto h-4 w-4" />}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+
+          {providers.map((provider) => (
+            <DropdownMenuItem
+              key={provider.id}
+              onClick={() => signIn(provider.id)}
+              className="cursor-pointer"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              <span>{providers.length > 1 ? `Add ${provider.name} account` : 'Add another account'}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+
+          {accounts.length > 1 && activeAccountId && (
+            <DropdownMenuItem
+              onClick={() => handleRemoveAccount(activeAccountId)}
+              className="cursor-pointer"
+              disabled={isSigningOut}
+            >
+              <User className="mr-2 h-4 w-4" />
+              <span className="truncate">Sign out of {user.email}</span>
+            </DropdownMenuItem>
+          )}
           <DropdownMenuItem 
             onClick={handleSignOut} 
             className="text-red-600 hover:text-red-700 focus:text-red-700 focus:bg-red-50 dark:focus:bg-red-900/20 cursor-pointer"
@@ -93,7 +155,7 @@ const AuthButton: React.FC = () => {
             ) : (
               <LogOut className="mr-2 h-4 w-4" />
             )}
-            <span>{isSigningOut ? 'Signing out...' : 'Sign out'}</span>
+            <span>{isSigningOut ? 'Signing out...' : accounts.length > 1 ? 'Sign out of all accounts' : 'Sign out'}</span>
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
@@ -0,0 +1,308 @@
+import React, { useState } from "react";
+import { CalendarDays, RefreshCw, Check, Plus, Trash2, AlertCircle, ShieldCheck } from "lucide-react";
+import { cn } from "../utils";
+import { useAuthContext } from "../context/AuthContext";
+import { useCalendars } from "../context/CalendarsContext";
+import { useCalendarFeeds, NewCalendarFeed } from "../context/CalendarFeedsContext";
+import { normalizeFeedUrl } from "../lib/calendarFeeds";
+
+const emptyFeed: NewCalendarFeed = { name: "", kind: "ics", url: "", username: "", password: "" };
+
+const CalendarPicker: React.FC = () => {
+  const { isSignedIn, accounts, activeAccountId, hasAccess, requestAccess } = useAuthContext();
+  const {
+    calendars,
+    selectedCalendarIds,
+    toggleCalendar,
+    loadCalendars,
+    mergeOtherAccounts,
+    setMergeOtherAccounts,
+    isLoading,
+    error,
+  } = useCalendars();
+  const { feeds, feedErrors, lockedFeedIds, unlockFeed, addFeed, removeFeed, toggleFeed } = useCalendarFeeds();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newFeed, setNewFeed] = useState<NewCalendarFeed | null>(null);
+  const [addError, setAddError] = useState<string | null>(null);
+  // App passwords typed for feeds whose saved one was cleared with the session
+  const [unlockPasswords, setUnlockPasswords] = useState<Record<string, string>>({});
+
+  const shownCount = (isSignedIn && hasAccess("readEvents") ? selectedCalendarIds.length : 0) + feeds.filter((feed) => feed.enabled).length;
+
+  const handleUnlockFeed = async (id: string) => {
+    await unlockFeed(id, unlockPasswords[id] || "");
+    setUnlockPasswords((prev) => ({ ...prev, [id]: "" }));
+  };
+
+  const handleAddFeed = async () => {
+    if (!newFeed) return;
+    let url: URL;
+    try {
+      url = new URL(normalizeFeedUrl(newFeed.url));
+    } catch {
+      setAddError("Enter the full feed address, starting with https://");
+      return;
+    }
+
+    const added = await addFeed({
+      ...newFeed,
+      name: newFeed.name.trim() || url.hostname,
+      ...(newFeed.kind === "ics" && { username: undefined, password: undefined }),
+    });
+    if (!added) {
+      setAddError("Access to this address was not granted");
+      return;
+    }
+    setNewFeed(null);
+    setAddError(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={cn(
+          "flex items-center gap-1 px-2 py-1 border rounded text-sm",
+          isOpen && "bg-gray-100 dark:bg-gray-800"
+        )}
+        title="Choose calendars to show on the grid"
+      >
+        <CalendarDays className="w-4 h-4" />
+        Calendars ({shownCount})
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2">
+          {/* Busy overlays need read access, asked for only when wanted */}
+          {isSignedIn && !hasAccess("readEvents") && (
+            <div className="px-1 pb-2 space-y-1.5">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Shade the times you're busy by letting the extension read your calendars.
+              </p>
+              <button
+                onClick={() => requestAccess("readEvents")}
+                className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+              >
+                <ShieldCheck className="w-3 h-3" />
+                Show my calendars
+              </button>
+            </div>
+          )}
+
+          {isSignedIn && hasAccess("readEvents") && (
+            <>
+              <div className="flex items-center justify-between px-1 pb-2 text-xs text-gray-500 dark:text-gray-400">
+                <span>Show on grid</span>
+                <button
+                  onClick={() => loadCalendars()}
+                  disabled={isLoading}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                  title="Reload calendar list"
+                >
+                  <RefreshCw className={cn("w-3 h-3", isLoading && "animate-spin")} />
+                </button>
+              </div>
+
+              {error && <p className="px-1 pb-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+              {calendars.length === 0 && !isLoading && !error && (
+                <p className="px-1 py-2 text-xs text-gray-500 dark:text-gray-400">No calendars found</p>
+              )}
+
+              <div className="max-h-64 overflow-y-auto space-y-0.5">
+                {calendars.map((calendar) => {
+                  const isSelected = selectedCalendarIds.includes(calendar.id);
+
+                  return (
+                    <button
+                      key={calendar.id}
+                      onClick={() => toggleCalendar(calendar.id)}
+                      className="w-full flex items-center gap-2 px-1 py-1 rounded text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <span
+                        className="flex items-center justify-center w-4 h-4 rounded-sm border flex-shrink-0"
+                        style={{
+                          backgroundColor: isSelected ? calendar.backgroundColor : "transparent",
+                          borderColor: calendar.backgroundColor,
+                        }}
+                      >
+                        {isSelected && <Check className="w-3 h-3 text-white" />}
+                      </span>
+                      <span className="truncate text-gray-800 dark:text-gray-200">{calendar.summary}</span>
+                      {calendar.accessRole === "freeBusyReader" && (
+                        <span className="ml-auto text-[10px] text-gray-400 flex-shrink-0">busy only</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Busy times of the other signed-in accounts, without event details */}
+              {accounts.length > 1 && (
+                <button
+                  onClick={() => setMergeOtherAccounts(!mergeOtherAccounts)}
+                  className="w-full flex items-center gap-2 mt-1 px-1 py-1 rounded text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                  title={accounts
+                    .filter((account) => account.id !== activeAccountId)
+                    .map((account) => account.user.email)
+                    .join(", ")}
+                >
+                  <span
+                    className="flex items-center justify-center w-4 h-4 rounded-sm border flex-shrink-0"
+                    style={{ backgroundColor: mergeOtherAccounts ? "#9e9e9e" : "transparent", borderColor: "#9e9e9e" }}
+                  >
+                    {mergeOtherAccounts && <Check className="w-3 h-3 text-white" />}
+                  </span>
+                  <span className="truncate text-gray-800 dark:text-gray-200">Busy times from other accounts</span>
+                </button>
+              )}
+            </>
+          )}
+
+          {/* ICS subscriptions and CalDAV calendars, read-only */}
+          <div className={cn("px-1 pb-1 text-xs text-gray-500 dark:text-gray-400", isSignedIn && "mt-2 pt-2 border-t border-gray-200 dark:border-gray-700")}>
+            Subscribed calendars
+          </div>
+
+          <div className="space-y-0.5">
+            {feeds.map((feed) => (
+              <div key={feed.id}>
+                <div className="flex items-center gap-2 px-1 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700">
+                  <button onClick={() => toggleFeed(feed.id)} className="flex items-center gap-2 min-w-0 flex-1 text-left">
+                    <span
+                      className="flex items-center justify-center w-4 h-4 rounded-sm border flex-shrink-0"
+                      style={{ backgroundColor: feed.enabled ? feed.color : "transparent", borderColor: feed.color }}
+                    >
+                      {feed.enabled && <Check className="w-3 h-3 text-white" />}
+                    </span>
+                    <span className="truncate text-gray-800 dark:text-gray-200" title={feed.url}>
+                      {feed.name}
+                    </span>
+                    <span className="text-[10px] text-gray-400 flex-shrink-0 uppercase">{feed.kind}</span>
+                  </button>
+                  <button
+                    onClick={() => removeFeed(feed.id)}
+                    className="p-1 text-gray-400 hover:text-red-500 flex-shrink-0"
+                    title="Remove calendar"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                {feedErrors[feed.id] && (
+                  <p className="flex items-center gap-1 px-1 text-[11px] text-red-600 dark:text-red-400">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {feedErrors[feed.id]}
+                  </p>
+                )}
+                {lockedFeedIds.includes(feed.id) && (
+                  <div className="flex gap-1 px-1 pt-1">
+                    <input
+                      type="password"
+                      value={unlockPasswords[feed.id] || ""}
+                      onChange={(e) => setUnlockPasswords((prev) => ({ ...prev, [feed.id]: e.target.value }))}
+                      onKeyDown={(e) => e.key === "Enter" && unlockPasswords[feed.id] && handleUnlockFeed(feed.id)}
+                      placeholder={`App password for ${feed.username}`}
+                      autoComplete="current-password"
+                      className="min-w-0 flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <button
+                      onClick={() => handleUnlockFeed(feed.id)}
+                      disabled={!unlockPasswords[feed.id]}
+                      className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded"
+                    >
+                      Unlock
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {newFeed ? (
+            <div className="mt-2 space-y-1.5 px-1">
+              <div className="flex gap-1">
+                {(["ics", "caldav"] as const).map((kind) => (
+                  <button
+                    key={kind}
+                    onClick={() => setNewFeed({ ...newFeed, kind })}
+                    className={cn(
+                      "flex-1 px-2 py-1 text-xs rounded border",
+                      newFeed.kind === kind
+                        ? "bg-blue-600 border-blue-600 text-white"
+                        : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                    )}
+                  >
+                    {kind === "ics" ? "ICS feed" : "CalDAV"}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={newFeed.name}
+                onChange={(e) => setNewFeed({ ...newFeed, name: e.target.value })}
+                placeholder="Name, e.g. Fastmail"
+                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <input
+                type="url"
+                value={newFeed.url}
+                onChange={(e) => setNewFeed({ ...newFeed, url: e.target.value })}
+                placeholder={newFeed.kind === "ics" ? "https:// or webcal:// feed address" : "Calendar collection URL"}
+                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              {newFeed.kind === "caldav" && (
+                <>
+                  <input
+                    type="text"
+                    value={newFeed.username}
+                    onChange={(e) => setNewFeed({ ...newFeed, username: e.target.value })}
+                    placeholder="Username"
+                    autoComplete="username"
+                    className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="password"
+                    value={newFeed.password}
+                    onChange={(e) => setNewFeed({ ...newFeed, password: e.target.value })}
+                    placeholder="App password"
+                    autoComplete="current-password"
+                    className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </>
+              )}
+              {addError && <p className="text-[11px] text-red-600 dark:text-red-400">{addError}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => {
+                    setNewFeed(null);
+                    setAddError(null);
+                  }}
+                  className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleAddFeed}
+                  disabled={!newFeed.url.trim()}
+                  className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setNewFeed(emptyFeed)}
+              className="mt-1 w-full flex items-center gap-1 px-1 py-1 rounded text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Plus className="w-3 h-3" />
+              Add ICS or CalDAV calendar
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarPicker;
@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { X, ShieldCheck, Check, Loader2 as Loader, AlertCircle } from "lucide-react";
+import { cn } from "../utils";
+import { CalendarAccess, ScopeTier } from "../lib/calendarProvider";
+import { getCalendarProvider } from "../lib/calendarProviders";
+import { AuthAccount } from "../hooks/useAuth";
+
+// What each tier is asked for and what allowing it turns on
+const TIER_INFO: Record<Exclude<ScopeTier, "profile">, { title: string; description: string; access: CalendarAccess[] }> = {
+  busy: {
+    title: "See your calendars",
+    description:
+      "Read-only access, so the grid can shade the times you're busy and the slot finder can skip them. Nothing on your calendars is changed.",
+    access: ["freeBusy", "readEvents"],
+  },
+  events: {
+    title: "Add meetings to your calendar",
+    description:
+      "Lets the extension create, move and cancel the meetings you schedule here. It doesn't read or change your other events.",
+    access: ["writeEvents"],
+  },
+};
+
+const ACCESS_LABELS: Record<CalendarAccess, string> = {
+  freeBusy: "When you and attendees are busy",
+  readEvents: "Your calendars and their events on the grid",
+  writeEvents: "Meetings you create, move or cancel",
+};
+
+interface ConsentDialogProps {
+  tier: Exclude<ScopeTier, "profile">;
+  account: AuthAccount;
+  onAllow: () => Promise<AuthAccount | null>;
+  onClose: () => void;
+}
+
+/**
+ * Explains a scope tier before the provider's consent screen opens, and what
+ * still doesn't work when only part of it was granted
+ */
+const ConsentDialog: React.FC<ConsentDialogProps> = ({ tier, account, onAllow, onClose }) => {
+  const [current, setCurrent] = useState(account);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [hasAsked, setHasAsked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { title, description, access } = TIER_INFO[tier];
+  const providerName = getCalendarProvider(account.provider).name;
+  const missing = access.filter((item) => !current.access[item]);
+
+  const handleAllow = async () => {
+    setIsRequesting(true);
+    setError(null);
+    try {
+      const updated = await onAllow();
+      if (updated) setCurrent(updated);
+      setHasAsked(true);
+      if (updated && access.every((item) => updated.access[item])) onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Access was not granted");
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[70] p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          <p className="text-gray-700 dark:text-gray-300">{description}</p>
+
+          <ul className="space-y-1">
+            {access.map((item) => (
+              <li key={item} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <span
+                  className={cn(
+                    "flex items-center justify-center w-4 h-4 rounded-full border flex-shrink-0",
+                    current.access[item] ? "bg-green-600 border-green-600" : "border-gray-300 dark:border-gray-600"
+                  )}
+                >
+                  {current.access[item] && <Check className="w-3 h-3 text-white" />}
+                </span>
+                {ACCESS_LABELS[item]}
+              </li>
+            ))}
+          </ul>
+
+          {hasAsked && missing.length > 0 && (
+            <p className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-900/20 p-3 text-amber-800 dark:text-amber-200">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {missing.length < access.length
+                ? "Only part of the access was allowed. The unchecked items stay off until you allow them."
+                : "No access was allowed. You can keep using the extension without it."}
+            </p>
+          )}
+
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {providerName} will ask {account.user.email} to confirm. You can remove access at any time from your account
+            settings.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+          >
+            {hasAsked ? "Done" : "Not now"}
+          </button>
+          <button
+            onClick={handleAllow}
+            disabled={isRequesting}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {isRequesting && <Loader className="h-4 w-4 animate-spin" />}
+            {hasAsked ? "Try again" : "Continue"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentDialog;
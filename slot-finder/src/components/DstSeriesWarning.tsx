@@ -0,0 +1,50 @@
+import React from "react";
+import moment from "moment-timezone";
+import { AlertTriangle } from "lucide-react";
+import { TimeZone } from "../types";
+import { SeriesDstCrossing, describeDstTransition, describeLocalShift } from "../utils/dst";
+
+interface DstSeriesWarningProps {
+  zones: TimeZone[];
+  crossings: SeriesDstCrossing[];
+  referenceTimezone: string;
+}
+
+const DstSeriesWarning: React.FC<DstSeriesWarningProps> = ({ zones, crossings, referenceTimezone }) => {
+  // Zones whose clocks change together with the reference zone see no difference
+  const relevant = crossings.filter(
+    (crossing) =>
+      crossing.localShiftMinutes !== 0 ||
+      zones.find((zone) => zone.id === crossing.zoneId)?.iana === referenceTimezone
+  );
+  if (relevant.length === 0) return null;
+
+  return (
+    <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-300">
+      <div className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="h-4 w-4 text-amber-500" />
+        This series crosses a clock change
+      </div>
+      <ul className="mt-2 space-y-1 text-xs">
+        {relevant.map((crossing) => {
+          const zone = zones.find((z) => z.id === crossing.zoneId);
+          if (!zone) return null;
+
+          const when = moment(crossing.transition.at).tz(zone.iana).format("ddd MMM D");
+          const isReference = zone.iana === referenceTimezone;
+
+          return (
+            <li key={`${crossing.zoneId}-${crossing.transition.at.getTime()}`}>
+              {zone.name}: {describeDstTransition(crossing.transition)} on {when}.{" "}
+              {isReference
+                ? `The series keeps its time in ${zone.name}, so it moves for the other zones from occurrence ${crossing.occurrenceIndex + 1}.`
+                : `From occurrence ${crossing.occurrenceIndex + 1} the meeting is ${describeLocalShift(crossing.localShiftMinutes)} on ${zone.name} clocks.`}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DstSeriesWarning;
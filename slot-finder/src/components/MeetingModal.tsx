@@ -1,18 +1,23 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { DateTime } from "luxon";
-import { TimeZone, MeetingDetails } from "../types";
+import { TimeZone, Meeting, MeetingDetails, CandidateSlot, SendUpdates } from "../types";
 import { useCalendar } from "../hooks/useCalendar";
-import { X, Clock, Loader2 as Loader, Video, ExternalLink, AlertCircle } from "lucide-react";
+import { useSlotFinder } from "../hooks/useSlotFinder";
+import { X, Clock, Loader2 as Loader, Video, ExternalLink, AlertCircle, Search, Repeat, Download, Copy, Check } from "lucide-react";
 import { useAuthContext } from "../context/AuthContext";
-import { createCalendarEvent } from "../lib/googleCalendar";
-
-interface MeetingDetailsWithId extends Omit<MeetingDetails, 'id' | 'status'> {
-  id?: string;
-  status?: string;
-}
+import { useZones } from "../context/ZonesContext";
+import { useMeetings } from "../context/MeetingsContext";
+import { useCalendars } from "../context/CalendarsContext";
+import { useCalendarFeeds } from "../context/CalendarFeedsContext";
+import { getCalendarErrorMessage } from "../lib/calendarProvider";
+import { getCalendarProvider } from "../lib/calendarProviders";
+import RecurringPlanner from "./RecurringPlanner";
+import { buildICalendar } from "../utils/ical";
 
 interface MeetingModalProps {
   selectedTime: Date;
+  selectedEndTime?: Date; // End of a range dragged on the grid
+  meeting?: Meeting; // Existing meeting to edit instead of creating a new one
   timezones: TimeZone[];
   onCreateMeeting: (meeting: MeetingDetails) => void;
   onClose: () => void;
@@ -21,93 +26,99 @@ interface MeetingModalProps {
 
 const MeetingModal: React.FC<MeetingModalProps> = ({
   selectedTime,
+  selectedEndTime,
+  meeting,
   timezones,
   onCreateMeeting,
   onClose,
   defaultMeetingDuration,
 }) => {
-  const selectedDateTime = DateTime.fromJSDate(selectedTime);
+  const { zones, getHomeTimezone } = useZones();
+
+  // Zone the event is scheduled in and its start/end pickers are read in,
+  // the organizer's home zone unless the meeting already has one
+  const [eventTimezone, setEventTimezone] = useState(
+    () => meeting?.timezone || getHomeTimezone()?.iana || zones[0]?.iana || DateTime.local().zoneName || "UTC"
+  );
+  const [selectedDateTime, setSelectedDateTime] = useState(() =>
+    DateTime.fromJSDate(selectedTime, { zone: eventTimezone })
+  );
 
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
+  const isEditing = meeting !== undefined;
+  const [title, setTitle] = useState(meeting?.title || "");
+  const [description, setDescription] = useState(meeting?.description || "");
   const [startTime, setStartTime] = useState(selectedDateTime.toFormat("HH:mm"));
-  const [endTime, setEndTime] = useState(selectedDateTime.plus({ minutes: defaultMeetingDuration || 60 }).toFormat("HH:mm"));
-  const [attendees, setAttendees] = useState<string[]>([""]);
+  const [endTime, setEndTime] = useState(() =>
+    (selectedEndTime
+      ? DateTime.fromJSDate(selectedEndTime, { zone: eventTimezone })
+      : selectedDateTime.plus({ minutes: defaultMeetingDuration || 60 })
+    ).toFormat("HH:mm")
+  );
+  const [attendees, setAttendees] = useState<string[]>(() =>
+    meeting && meeting.attendees.length > 0 ? meeting.attendees : [""]
+  );
+  const [sendUpdates, setSendUpdates] = useState<SendUpdates>("all");
   const [isCreating, setIsCreating] = useState(false);
 
-  const { createEvent } = useCalendar();
-  const { 
-    isSignedIn, 
-    token, 
-    refreshToken 
-  } = useAuthContext();
-  const [isCreatingEvent, setIsCreatingEvent] = useState(false);
+  const { createEvent, updateEvent } = useCalendar();
+  const { addMeeting, updateMeeting } = useMeetings();
+  const { isSignedIn, provider, user, accounts } = useAuthContext();
+  const calendarProvider = getCalendarProvider(provider);
+  // An existing event is changed through the account that created it
+  const eventCalendarProvider = getCalendarProvider(
+    accounts.find((account) => account.id === meeting?.accountId)?.provider || provider
+  );
+  // Kept while the time and calendar stay the same, so trying again can't
+  // create a second event; a changed meeting gets a new one, so a retry
+  // can't return an event the failed attempt made at the old time
+  const [createRequestId, setCreateRequestId] = useState(() => window.crypto.randomUUID());
+  // The .ics uid stays the same for the life of the modal
+  const [icsUid] = useState(() => window.crypto.randomUUID());
   const [meetingLink, setMeetingLink] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isTextCopied, setIsTextCopied] = useState(false);
+
+  const { writableCalendars, targetCalendarId, setTargetCalendar } = useCalendars();
+
+  useEffect(() => {
+    setCreateRequestId(window.crypto.randomUUID());
+  }, [selectedDateTime, startTime, endTime, eventTimezone, targetCalendarId]);
+  const { feeds } = useCalendarFeeds();
+  // Subscribed feeds are enough to search the user's own availability
+  const canSearchSlots = isSignedIn || feeds.some((feed) => feed.enabled);
+  const {
+    slots,
+    isSearching,
+    error: slotSearchError,
+    unavailableCalendars,
+    findSlots,
+  } = useSlotFinder();
+  const [searchDays, setSearchDays] = useState(5);
+  const [showRecurringPlanner, setShowRecurringPlanner] = useState(false);
+
+  const meetingStart = useMemo(() => {
+    const [startHour, startMinute] = startTime.split(":").map(Number);
+    return selectedDateTime.set({ hour: startHour, minute: startMinute, second: 0 }).toJSDate();
+  }, [selectedDateTime, startTime]);
 
   // Utility to get ISO string or fallback to empty string
   const safeToISO = (dt: DateTime) => dt.toISO() || dt.toFormat('yyyy-MM-dd\'T\'HH:mm:ss');
 
-  const createGoogleCalendarEvent = async (meetingDetails: MeetingDetailsWithId) => {
-    if (!isSignedIn || !token) {
-      console.log('User not signed in or missing token');
-      return null;
-    }
-    
-    try {
-      setIsCreatingEvent(true);
-      setError(null);
-      
-      // Try to create the event with the current token
-      try {
-        const event = await createCalendarEvent(token, meetingDetails);
-        setMeetingLink(event.meetingUrl);
-        return event;
-      } catch (err) {
-        console.warn('Initial calendar event creation failed, checking if token needs refresh:', err);
-        
-        // If we get a 401, the token might be expired, so try to refresh it
-        if (err instanceof Error && (err.message.includes('401') || err.message.includes('token'))) {
-          console.log('Token might be expired, attempting to refresh...');
-          try {
-            // Try to refresh the token
-            const newToken = await refreshToken();
-            if (newToken) {
-              console.log('Token refreshed, retrying event creation...');
-              const event = await createCalendarEvent(newToken, meetingDetails);
-              setMeetingLink(event.meetingUrl);
-              return event;
-            }
-          } catch (refreshError) {
-            console.error('Failed to refresh token:', refreshError);
-            throw new Error('Failed to refresh authentication. Please sign in again.');
-          }
-        }
-        
-        // If we get here, either refresh failed or it wasn't a 401 error
-        throw err;
-      }
-    } catch (err) {
-      console.error('Failed to create Google Calendar event:', err);
-      setError('Failed to create Google Calendar event. Please check your internet connection and try again.');
-      return null;
-    } finally {
-      setIsCreatingEvent(false);
-    }
-  };
-
-  // Generate timezone comparison text
-  const timezoneComparison = timezones
+  // Generate timezone comparison text, for every saved zone unless the
+  // caller picked some
+  const timezoneComparison = (timezones.length > 0 ? timezones : zones)
     .map((tz) => {
-      const timeInZone = selectedDateTime.setZone(tz.iana);
+      const timeInZone = DateTime.fromJSDate(meetingStart).setZone(tz.iana);
       return `${tz.name} (${tz.label}): ${timeInZone.toFormat("EEE, MMM d, yyyy - HH:mm")}`;
     })
     .join("\n");
 
   useEffect(() => {
+    // Keep what an existing meeting already says
+    if (isEditing) return;
     if (timezones.length > 1) {
       const primaryCity =
-        timezones.find((tz) => tz.iana !== "Asia/Colombo")?.name || "Client";
+        timezones.find((tz) => !tz.isHome)?.name || "Client";
       setTitle(`Meeting with ${primaryCity}`);
     }
     // Calculate duration in minutes
@@ -122,8 +133,8 @@ Meeting details:
 - Start: ${startTime}
 - End: ${endTime}
 - Duration: ${duration} minutes
-- Google Meet link will be generated automatically`);
-  }, [timezones, timezoneComparison, startTime, endTime]);
+- ${calendarProvider.conferencingName} link will be generated automatically`);
+  }, [isEditing, timezones, timezoneComparison, startTime, endTime, calendarProvider.conferencingName]);
 
   const handleAddAttendee = () => {
     setAttendees([...attendees, ""]);
@@ -141,66 +152,192 @@ Meeting details:
     setAttendees(newAttendees);
   };
 
+  const getDurationMinutes = () => {
+    const [startHour, startMinute] = startTime.split(":").map(Number);
+    const [endHour, endMinute] = endTime.split(":").map(Number);
+    let duration = (endHour * 60 + endMinute) - (startHour * 60 + startMinute);
+    if (duration <= 0) duration += 24 * 60; // handle overnight
+    return duration;
+  };
+
+  const handleFindSlots = async () => {
+    const dayStart = selectedDateTime.startOf("day");
+    const now = DateTime.now();
+    await findSlots({
+      attendees,
+      rangeStart: (dayStart < now ? now : dayStart).toJSDate(),
+      rangeEnd: dayStart.plus({ days: searchDays }).toJSDate(),
+      durationMinutes: getDurationMinutes(),
+    });
+  };
+
+  const handleSelectSlot = (slot: CandidateSlot) => {
+    const slotStart = DateTime.fromJSDate(slot.start, { zone: eventTimezone });
+    setSelectedDateTime(slotStart);
+    setStartTime(slotStart.toFormat("HH:mm"));
+    setEndTime(DateTime.fromJSDate(slot.end, { zone: eventTimezone }).toFormat("HH:mm"));
+  };
+
+  // Compose start and end DateTime objects from the chosen day and times
+  const getMeetingRange = () => {
+    const [startHour, startMinute] = startTime.split(":").map(Number);
+    const [endHour, endMinute] = endTime.split(":").map(Number);
+    const startDateTime = selectedDateTime.set({ hour: startHour, minute: startMinute, second: 0, millisecond: 0 });
+    let endDateTime = selectedDateTime.set({ hour: endHour, minute: endMinute, second: 0, millisecond: 0 });
+
+    // If end is before start, assume next day
+    if (endDateTime <= startDateTime) {
+      endDateTime = endDateTime.plus({ days: 1 });
+    }
+
+    return { startDateTime, endDateTime };
+  };
+
+  // Keep the same instants and show them as wall times in the new zone
+  const handleEventTimezoneChange = (iana: string) => {
+    const { startDateTime, endDateTime } = getMeetingRange();
+    const zonedStart = startDateTime.setZone(iana);
+    setEventTimezone(iana);
+    setSelectedDateTime(zonedStart);
+    setStartTime(zonedStart.toFormat("HH:mm"));
+    setEndTime(endDateTime.setZone(iana).toFormat("HH:mm"));
+  };
+
+  const getMeetingDetails = (): MeetingDetails => {
+    const { startDateTime, endDateTime } = getMeetingRange();
+    return {
+      title,
+      description,
+      startTime: safeToISO(startDateTime),
+      endTime: safeToISO(endDateTime),
+      attendees: attendees.filter((email) => email.trim() !== ""),
+      timezone: eventTimezone,
+    };
+  };
+
+  // Invite people outside the calendar account with a file any calendar imports
+  const handleDownloadIcs = () => {
+    const ics = buildICalendar(getMeetingDetails(), {
+      // The same meeting keeps its uid, so importing again updates it
+      uid: `${meeting?.id || icsUid}@world-clock-meet-helper`,
+      url: meetingLink || undefined,
+      // Signed in, attendees get an invitation they can answer
+      organizer: user?.email,
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${title.trim().replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "meeting"}.ics`;
+    link.click();
+    // Revoking right away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleCopyText = async () => {
+    const text = [
+      title.trim() || "Proposed meeting",
+      "",
+      timezoneComparison,
+      "",
+      `Duration: ${getDurationMinutes()} minutes`,
+      ...(meetingLink ? [`Join: ${meetingLink}`] : []),
+    ].join("\n");
+
+    try {
+      await navigator.clipboard.writeText(text);
+      setIsTextCopied(true);
+      setTimeout(() => setIsTextCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy meeting text:", err);
+      setError("Could not copy to the clipboard.");
+    }
+  };
+
   const handleCreateMeeting = async () => {
     setIsCreating(true);
+    setError(null);
     try {
-      // Compose start and end DateTime objects
-      const [startHour, startMinute] = startTime.split(":").map(Number);
-      const [endHour, endMinute] = endTime.split(":").map(Number);
-      const startDateTime = selectedDateTime.set({ hour: startHour, minute: startMinute, second: 0 });
-      let endDateTime = selectedDateTime.set({ hour: endHour, minute: endMinute, second: 0 });
-      
-      // If end is before start, assume next day
-      if (endDateTime <= startDateTime) {
-        endDateTime = endDateTime.plus({ days: 1 });
-      }
-      
-      const validAttendees = attendees.filter((email) => email.trim() !== "");
-      const meetingDetails: MeetingDetailsWithId = {
-        title,
-        description,
-        startTime: safeToISO(startDateTime),
-        endTime: safeToISO(endDateTime),
-        attendees: validAttendees,
-        timezone: "Asia/Colombo", // Default to Sri Lankan time
-      };
+      const { startDateTime, endDateTime } = getMeetingRange();
+      const meetingDetails = getMeetingDetails();
 
-      // Create Google Calendar event if user is signed in
+      // Create the calendar event if the user is signed in
+      let googleEventId: string | undefined;
+      let accountId: string | undefined;
+      let createdMeetingUrl = "";
       if (isSignedIn) {
-        const googleEvent = await createGoogleCalendarEvent(meetingDetails);
-        if (googleEvent?.meetingUrl) {
-          // Update meeting details with Google Meet link
-          meetingDetails.description = `${meetingDetails.description}\n\nGoogle Meet: ${googleEvent.meetingUrl}`;
-        }
+        const created = await createEvent(meetingDetails, targetCalendarId, { requestId: createRequestId });
+        googleEventId = created.id;
+        accountId = created.accountId;
+        createdMeetingUrl = created.meetingUrl;
+        setMeetingLink(created.meetingUrl || null);
       }
 
-      // Create local event
-      // Create the final meeting details object with required fields
-      const finalMeetingDetails: MeetingDetails = {
+      addMeeting({
         title: meetingDetails.title,
-        description: meetingDetails.description || '',
-        startTime: meetingDetails.startTime,
-        endTime: meetingDetails.endTime,
+        description: meetingDetails.description,
+        startTime: startDateTime.toJSDate(),
+        endTime: endDateTime.toJSDate(),
+        timezone: meetingDetails.timezone,
         attendees: meetingDetails.attendees,
-        timezone: meetingDetails.timezone || 'Asia/Colombo',
-      };
-      
-      // Create the event in local storage
-      await createEvent(finalMeetingDetails);
-      
+        googleEventId,
+        calendarId: googleEventId ? targetCalendarId : undefined,
+        accountId,
+      });
+
       // Call the parent's onCreateMeeting with the final meeting details
-      onCreateMeeting(finalMeetingDetails);
-      
+      onCreateMeeting(meetingDetails);
+
       // Don't close the modal if we have a meeting link to show
-      if (!isSignedIn || !meetingLink) {
+      if (!createdMeetingUrl) {
         onClose();
       }
+    } catch (err) {
+      console.error("Failed to create meeting:", err);
+      setError(getCalendarErrorMessage(err, `Failed to create the ${calendarProvider.name} event. Please try again.`));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdateMeeting = async () => {
+    if (!meeting) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { startDateTime, endDateTime } = getMeetingRange();
+      const validAttendees = attendees.filter((email) => email.trim() !== "");
+
+      if (isSignedIn && meeting.googleEventId) {
+        await updateEvent(
+          meeting.googleEventId,
+          {
+            title,
+            description,
+            startTime: safeToISO(startDateTime),
+            endTime: safeToISO(endDateTime),
+            attendees: validAttendees,
+            timezone: eventTimezone,
+          },
+          meeting.calendarId,
+          sendUpdates,
+          meeting.accountId
+        );
+      }
 
-      // Removed recent emails functionality as it was causing issues
-      // and isn't critical for the core functionality
-    } catch (error) {
-      console.error("Failed to create meeting:", error);
-      alert("Failed to create meeting. Please try again.");
+      updateMeeting({
+        ...meeting,
+        title,
+        description,
+        startTime: startDateTime.toJSDate(),
+        endTime: endDateTime.toJSDate(),
+        timezone: eventTimezone,
+        attendees: validAttendees,
+      });
+      onClose();
+    } catch (err) {
+      console.error("Failed to update meeting:", err);
+      setError(getCalendarErrorMessage(err, `Failed to update the ${eventCalendarProvider.name} event. Please try again.`));
     } finally {
       setIsCreating(false);
     }
@@ -212,7 +349,7 @@ Meeting details:
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-            Create Meeting
+            {isEditing ? "Edit Meeting" : "Create Meeting"}
           </h2>
           <button
             onClick={onClose}
@@ -238,6 +375,26 @@ Meeting details:
             />
           </div>
 
+          {/* Target Calendar */}
+          {!isEditing && isSignedIn && writableCalendars.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Add to calendar
+              </label>
+              <select
+                value={targetCalendarId}
+                onChange={(e) => setTargetCalendar(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {writableCalendars.map((calendar) => (
+                  <option key={calendar.id} value={calendar.id}>
+                    {calendar.summary}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Time Display */}
           <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-md">
             <div className="flex items-center gap-2 mb-2">
@@ -261,11 +418,32 @@ Meeting details:
             </div>
           </div>
 
+          {/* Event Time Zone */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Event time zone
+            </label>
+            <select
+              value={eventTimezone}
+              onChange={(e) => handleEventTimezoneChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {!zones.some((zone) => zone.iana === eventTimezone) && (
+                <option value={eventTimezone}>{eventTimezone}</option>
+              )}
+              {zones.map((zone) => (
+                <option key={zone.id} value={zone.iana}>
+                  {zone.name} ({zone.iana}){zone.isHome ? " - Home" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Start and End Time */}
           <div className="flex gap-4">
             <div className="flex-1">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Start Time
+                Start Time ({selectedDateTime.toFormat("ZZZZ")})
               </label>
               <input
                 type="time"
@@ -276,7 +454,7 @@ Meeting details:
             </div>
             <div className="flex-1">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                End Time
+                End Time ({selectedDateTime.toFormat("ZZZZ")})
               </label>
               <input
                 type="time"
@@ -287,6 +465,24 @@ Meeting details:
             </div>
           </div>
 
+          {/* Attendee Notifications (Outlook always emails them) */}
+          {isEditing && isSignedIn && meeting.googleEventId && eventCalendarProvider.id === 'google' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Notify attendees
+              </label>
+              <select
+                value={sendUpdates}
+                onChange={(e) => setSendUpdates(e.target.value as SendUpdates)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">Email all guests</option>
+                <option value="externalOnly">Only guests outside my organization</option>
+                <option value="none">Don't send updates</option>
+              </select>
+            </div>
+          )}
+
           {/* Attendees */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -319,6 +515,64 @@ Meeting details:
             </button>
           </div>
 
+          {/* Slot Finder */}
+          <div className="border border-gray-200 dark:border-gray-700 rounded-md p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <select
+                value={searchDays}
+                onChange={(e) => setSearchDays(Number(e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value={1}>This day</option>
+                <option value={3}>Next 3 days</option>
+                <option value={5}>Next 5 days</option>
+                <option value={7}>Next 7 days</option>
+              </select>
+              <button
+                onClick={handleFindSlots}
+                disabled={isSearching || !canSearchSlots}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-1 text-sm bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-md"
+                title={canSearchSlots ? "Find times when all attendees are free" : "Sign in to check attendee availability"}
+              >
+                {isSearching ? <Loader className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                Find available times
+              </button>
+            </div>
+
+            {slotSearchError && (
+              <p className="text-xs text-red-600 dark:text-red-400">{slotSearchError}</p>
+            )}
+
+            {unavailableCalendars.length > 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Availability not shared by: {unavailableCalendars.join(", ")}
+              </p>
+            )}
+
+            {slots.length > 0 && (
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                {slots.slice(0, 5).map((slot) => {
+                  const slotStart = DateTime.fromJSDate(slot.start, { zone: eventTimezone });
+                  const workingZones = zones.filter((zone) => slot.zonesInWorkingHours.includes(zone.id));
+                  return (
+                    <button
+                      key={slot.start.toISOString()}
+                      onClick={() => handleSelectSlot(slot)}
+                      className="w-full text-left px-2 py-1 rounded-md text-sm hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+                    >
+                      <div className="font-medium text-gray-900 dark:text-white">
+                        {slotStart.toFormat("EEE, MMM d - HH:mm")}–{DateTime.fromJSDate(slot.end, { zone: eventTimezone }).toFormat("HH:mm")}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        Working hours in {workingZones.map((zone) => zone.name).join(", ")}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
           {/* Description */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -364,7 +618,7 @@ Meeting details:
                       rel="noopener noreferrer"
                       className="inline-flex items-center text-green-600 hover:text-green-500"
                     >
-                      Join Google Meet <ExternalLink className="ml-1 h-3 w-3" />
+                      Join {calendarProvider.conferencingName} <ExternalLink className="ml-1 h-3 w-3" />
                     </a>
                   </div>
                 </div>
@@ -372,7 +626,38 @@ Meeting details:
             </div>
           )}
 
+          {/* Share without a calendar account */}
+          <div className="flex items-center gap-2 text-sm">
+            <button
+              onClick={handleDownloadIcs}
+              disabled={!title.trim()}
+              className="flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              title="Download an .ics file any calendar can import"
+            >
+              <Download className="w-4 h-4" />
+              Download .ics
+            </button>
+            <button
+              onClick={handleCopyText}
+              className="flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              title="Copy the time in every zone"
+            >
+              {isTextCopied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              {isTextCopied ? "Copied" : "Copy as text"}
+            </button>
+          </div>
+
           <div className="flex justify-end space-x-3">
+            {!meetingLink && !isEditing && (
+              <button
+                onClick={() => setShowRecurringPlanner(true)}
+                disabled={!title.trim()}
+                className="flex items-center gap-1 px-4 py-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+              >
+                <Repeat className="w-4 h-4" />
+                Recurring...
+              </button>
+            )}
             {!meetingLink && (
               <button
                 onClick={onClose}
@@ -384,17 +669,17 @@ Meeting details:
             
             {!meetingLink ? (
               <button
-                onClick={handleCreateMeeting}
-                disabled={isCreating || isCreatingEvent || !title.trim()}
+                onClick={isEditing ? handleUpdateMeeting : handleCreateMeeting}
+                disabled={isCreating || !title.trim()}
               >
-                {(isCreating || isCreatingEvent) ? (
+                {isCreating ? (
                   <>
                     <Loader className="mr-2 h-4 w-4 animate-spin" />
-                    {isCreatingEvent ? 'Creating Calendar Event...' : 'Creating Meeting...'}
+                    {isEditing ? 'Saving Changes...' : isSignedIn ? 'Creating Calendar Event...' : 'Creating Meeting...'}
                   </>
                 ) : (
                   <>
-                    {isSignedIn ? 'Create with Google Calendar' : 'Create Meeting'}
+                    {isEditing ? 'Save Changes' : isSignedIn ? `Create with ${calendarProvider.name}` : 'Create Meeting'}
                   </>
                 )}
               </button>
@@ -409,6 +694,21 @@ Meeting details:
           </div>
         </div>
       </div>
+
+      {showRecurringPlanner && (
+        <RecurringPlanner
+          title={title}
+          description={description}
+          attendees={attendees}
+          firstStart={meetingStart}
+          durationMinutes={getDurationMinutes()}
+          onClose={() => setShowRecurringPlanner(false)}
+          onCreated={() => {
+            setShowRecurringPlanner(false);
+            onClose();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,578 @@
+import React, { useState } from "react";
+import moment from "moment-timezone";
+import { X, ListChecks, Loader2 as Loader, AlertCircle, Download, Copy, Check, Trash2, CalendarClock } from "lucide-react";
+import { cn } from "../utils";
+import { MeetingPoll, PollOption, PollAnswer } from "../types";
+import { useZones } from "../context/ZonesContext";
+import { useMeetings } from "../context/MeetingsContext";
+import { usePolls } from "../context/PollsContext";
+import { useAuthContext } from "../context/AuthContext";
+import { useCalendar } from "../hooks/useCalendar";
+import { useCalendars } from "../context/CalendarsContext";
+import { useMeetingHolds, DEFAULT_HOLD_HOURS } from "../hooks/useMeetingHolds";
+import { getCalendarErrorMessage } from "../lib/calendarProvider";
+import { getCalendarProvider } from "../lib/calendarProviders";
+import { formatPollOptions, formatPollText, parsePollReply, tallyPoll, getPollWinner } from "../utils/polls";
+import { buildPollICalendar } from "../utils/ical";
+
+interface PollModalProps {
+  pollId?: string; // Existing poll to show
+  candidates?: PollOption[]; // Times picked on the grid for a new poll
+  onCreated?: (poll: MeetingPoll) => void;
+  onClose: () => void;
+}
+
+// Clicking an attendee's cell steps through the answers
+const NEXT_ANSWER: Record<PollAnswer | "none", PollAnswer | undefined> = {
+  none: "yes",
+  yes: "maybe",
+  maybe: "no",
+  no: undefined,
+};
+
+const HOLD_HOUR_OPTIONS = [24, DEFAULT_HOLD_HOURS, 7 * 24];
+
+const ANSWER_STYLES: Record<PollAnswer, string> = {
+  yes: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  maybe: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  no: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+const downloadIcs = (ics: string, title: string) => {
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${title.trim().replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "poll"}.ics`;
+  link.click();
+  // Revoking right away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const PollModal: React.FC<PollModalProps> = ({ pollId, candidates = [], onCreated, onClose }) => {
+  const { zones, getHomeTimezone } = useZones();
+  const { addMeeting } = useMeetings();
+  const { polls, addPoll, setPollResponse, decidePoll, cancelPoll, removePoll } = usePolls();
+  const { isSignedIn, provider } = useAuthContext();
+  const calendarProvider = getCalendarProvider(provider);
+  const { createEvent } = useCalendar();
+  const { targetCalendarId } = useCalendars();
+  const { holds, placeHolds, releaseHolds, isPlacing, isReleasing } = useMeetingHolds();
+
+  const poll = polls.find((existing) => existing.id === pollId);
+  const pollHolds = holds.filter((hold) => hold.proposalId === pollId);
+
+  // New poll form
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [attendeeText, setAttendeeText] = useState("");
+  const [options, setOptions] = useState(candidates);
+
+  // Responses
+  const [newAttendee, setNewAttendee] = useState("");
+  const [replyText, setReplyText] = useState("");
+
+  const [holdHours, setHoldHours] = useState(DEFAULT_HOLD_HOURS);
+
+  // Kept for the life of the modal so trying again can't book twice; each
+  // option gets its own id from it, so booking another option after a
+  // failure never returns the event made for the first
+  const [createRequestId] = useState(() => window.crypto.randomUUID());
+  const [bookingOptionId, setBookingOptionId] = useState<string | null>(null);
+  const [isTextCopied, setIsTextCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreatePoll = () => {
+    const created = addPoll({
+      title: title.trim(),
+      description: description.trim(),
+      timezone: getHomeTimezone()?.iana || zones[0]?.iana || moment.tz.guess(),
+      attendees: attendeeText.split(/[\s,;]+/).filter((email) => email.includes("@")),
+      options: [...options].sort((a, b) => a.start.getTime() - b.start.getTime()),
+    });
+    onCreated?.(created);
+  };
+
+  const handleCopyText = async () => {
+    if (!poll) return;
+    try {
+      await navigator.clipboard.writeText(formatPollText(poll, zones));
+      setIsTextCopied(true);
+      setTimeout(() => setIsTextCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy poll text:", err);
+      setError("Could not copy to the clipboard.");
+    }
+  };
+
+  const handleCellClick = (attendee: string, optionId: string) => {
+    if (!poll) return;
+    const answers = { ...(poll.responses.find((response) => response.attendee === attendee)?.answers || {}) };
+    const next = NEXT_ANSWER[answers[optionId] || "none"];
+    if (next) {
+      answers[optionId] = next;
+    } else {
+      delete answers[optionId];
+    }
+    setPollResponse(poll.id, { attendee, answers });
+  };
+
+  const handleAddReply = () => {
+    if (!poll) return;
+    const reply = parsePollReply(replyText, poll.options);
+    const attendee = newAttendee.trim() || reply.attendee;
+
+    if (!attendee) {
+      setError("Enter who replied, or paste the reply with its From: line.");
+      return;
+    }
+    if (Object.keys(reply.answers).length === 0) {
+      setError('No answers found. Each line should look like "1 yes", "2 maybe" or "3 no".');
+      return;
+    }
+
+    const existing = poll.responses.find((response) => response.attendee.toLowerCase() === attendee.toLowerCase());
+    setPollResponse(poll.id, { attendee, answers: { ...existing?.answers, ...reply.answers } });
+    setReplyText("");
+    setNewAttendee("");
+    setError(null);
+  };
+
+  const handleAddAttendee = () => {
+    if (!poll || !newAttendee.trim()) return;
+    setPollResponse(poll.id, { attendee: newAttendee.trim(), answers: {} });
+    setNewAttendee("");
+  };
+
+  // Book the chosen option as a real meeting. Holds on the organizer's
+  // calendar are released once the poll is decided; attendees remove the
+  // .ics holds by importing the cancellation file
+  const handleBookOption = async (option: PollOption) => {
+    if (!poll) return;
+    setBookingOptionId(option.id);
+    setError(null);
+
+    try {
+      const meetingDetails = {
+        title: poll.title,
+        description: poll.description,
+        startTime: moment(option.start).tz(poll.timezone).format(),
+        endTime: moment(option.end).tz(poll.timezone).format(),
+        attendees: poll.attendees,
+        timezone: poll.timezone,
+      };
+
+      let googleEventId: string | undefined;
+      let accountId: string | undefined;
+      if (isSignedIn) {
+        const created = await createEvent(meetingDetails, targetCalendarId, {
+          requestId: `${createRequestId}-${option.id}`,
+        });
+        googleEventId = created.id;
+        accountId = created.accountId;
+      }
+
+      const meeting = addMeeting({
+        title: poll.title,
+        description: poll.description,
+        startTime: option.start,
+        endTime: option.end,
+        timezone: poll.timezone,
+        attendees: poll.attendees,
+        googleEventId,
+        calendarId: googleEventId ? targetCalendarId : undefined,
+        accountId,
+      });
+      decidePoll(poll, option.id, meeting.id);
+    } catch (err) {
+      console.error("Failed to book poll option:", err);
+      setError(getCalendarErrorMessage(err, `Failed to create the ${calendarProvider.name} event. Please try again.`));
+    } finally {
+      setBookingOptionId(null);
+    }
+  };
+
+  const handlePlaceHolds = async () => {
+    if (!poll) return;
+    setError(null);
+    try {
+      await placeHolds(poll, moment().add(holdHours, "hours").toDate());
+    } catch (err) {
+      console.error("Failed to place holds:", err);
+      setError(getCalendarErrorMessage(err, `Failed to hold the times in ${calendarProvider.name}. Please try again.`));
+    }
+  };
+
+  const handleReleaseHolds = async () => {
+    setError(null);
+    try {
+      await releaseHolds(pollHolds);
+    } catch (err) {
+      console.error("Failed to release holds:", err);
+      setError(getCalendarErrorMessage(err, `Failed to remove the holds from ${calendarProvider.name}. Please try again.`));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!poll) return;
+    removePoll(poll.id);
+    onClose();
+  };
+
+  const renderHeader = (heading: string) => (
+    <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{heading}</h2>
+      </div>
+      <button
+        onClick={onClose}
+        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+      >
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+  );
+
+  const renderError = () =>
+    error && (
+      <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800">
+        <AlertCircle className="h-4 w-4 text-red-400" />
+        {error}
+      </div>
+    );
+
+  if (!poll) {
+    const draft: MeetingPoll = {
+      id: "draft",
+      title,
+      description,
+      timezone: getHomeTimezone()?.iana || zones[0]?.iana || moment.tz.guess(),
+      attendees: [],
+      options,
+      responses: [],
+      status: "open",
+      createdAt: new Date(),
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+          {renderHeader("New Poll")}
+
+          <div className="p-4 space-y-4 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700 dark:text-gray-300">Meeting Title</span>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Enter meeting title"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700 dark:text-gray-300">Description</span>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700 dark:text-gray-300">Attendees</span>
+              <input
+                type="text"
+                value={attendeeText}
+                onChange={(e) => setAttendeeText(e.target.value)}
+                placeholder="ana@example.com, ben@example.com"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+
+            <div>
+              <div className="font-medium text-gray-700 dark:text-gray-300 mb-1">Candidate times</div>
+              <ul className="space-y-1">
+                {formatPollOptions(draft, zones).map((line, index) => (
+                  <li key={options[index].id} className="flex items-start gap-2 text-xs text-gray-700 dark:text-gray-300">
+                    <span className="flex-1">{line}</span>
+                    <button
+                      onClick={() => setOptions((prev) => prev.filter((option) => option.id !== options[index].id))}
+                      className="p-0.5 text-gray-400 hover:text-red-500"
+                      title="Remove this time"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {renderError()}
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreatePoll}
+                disabled={!title.trim() || options.length < 2}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md"
+              >
+                Create poll with {options.length} times
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const tally = tallyPoll(poll);
+  const winnerId = getPollWinner(poll);
+  const optionLines = formatPollOptions(poll, zones);
+  // Invited attendees who haven't answered still get a row
+  const respondents = [
+    ...poll.responses.map((response) => response.attendee),
+    ...poll.attendees.filter(
+      (email) => !poll.responses.some((response) => response.attendee.toLowerCase() === email.toLowerCase())
+    ),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {renderHeader(poll.title)}
+
+        <div className="p-4 space-y-4 text-sm">
+          {poll.status !== "open" && (
+            <p className="rounded-md bg-gray-100 dark:bg-gray-700 p-3 text-gray-700 dark:text-gray-300">
+              {poll.status === "decided"
+                ? `Booked option ${poll.options.findIndex((option) => option.id === poll.decidedOptionId) + 1}.`
+                : "This poll was cancelled."}{" "}
+              Import the cancellation file to remove the holds from attendees' calendars.
+            </p>
+          )}
+
+          {/* Options with their tally */}
+          <ol className="space-y-1">
+            {poll.options.map((option, index) => (
+              <li
+                key={option.id}
+                className={cn(
+                  "flex items-center gap-2 px-2 py-1 rounded",
+                  (poll.decidedOptionId || winnerId) === option.id && "bg-green-50 dark:bg-green-900/20"
+                )}
+              >
+                <span className="flex-1 text-xs text-gray-700 dark:text-gray-300">{optionLines[index]}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {tally[index].yes} yes · {tally[index].maybe} maybe · {tally[index].no} no
+                </span>
+                {poll.status === "open" && (
+                  <button
+                    onClick={() => handleBookOption(option)}
+                    disabled={bookingOptionId !== null}
+                    className={cn(
+                      "flex items-center gap-1 px-2 py-1 text-xs rounded-md disabled:opacity-50",
+                      winnerId === option.id
+                        ? "bg-blue-600 hover:bg-blue-700 text-white"
+                        : "border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                    )}
+                  >
+                    {bookingOptionId === option.id && <Loader className="h-3 w-3 animate-spin" />}
+                    Book
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {/* Tentative events on the organizer's own calendar */}
+          {isSignedIn && poll.status === "open" && (
+            <div className="flex flex-wrap items-center gap-2 rounded-md bg-gray-50 dark:bg-gray-700/50 p-2">
+              <CalendarClock className="w-4 h-4 text-gray-500" />
+              {pollHolds.length > 0 ? (
+                <span className="text-gray-700 dark:text-gray-300">
+                  {pollHolds.length} of {poll.options.length} times held in {calendarProvider.name} until{" "}
+                  {moment(Math.max(...pollHolds.map((hold) => hold.expiresAt.getTime()))).format("ddd, MMM D HH:mm")}
+                </span>
+              ) : (
+                <span className="text-gray-700 dark:text-gray-300">Hold these times on my calendar for</span>
+              )}
+              {pollHolds.length < poll.options.length && (
+                <>
+                  <select
+                    value={holdHours}
+                    onChange={(e) => setHoldHours(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    {HOLD_HOUR_OPTIONS.map((hours) => (
+                      <option key={hours} value={hours}>
+                        {hours < 48 ? `${hours} hours` : `${hours / 24} days`}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handlePlaceHolds}
+                    disabled={isPlacing}
+                    className="flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    {isPlacing && <Loader className="h-3 w-3 animate-spin" />}
+                    {pollHolds.length > 0 ? "Hold the rest" : "Hold"}
+                  </button>
+                </>
+              )}
+              {pollHolds.length > 0 && (
+                <button
+                  onClick={handleReleaseHolds}
+                  disabled={isReleasing}
+                  className="ml-auto flex items-center gap-1 px-2 py-1 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+                >
+                  {isReleasing && <Loader className="h-3 w-3 animate-spin" />}
+                  Release holds
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Answers per attendee */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-2">Attendee</th>
+                  {poll.options.map((option, index) => (
+                    <th key={option.id} className="py-2 px-2 text-center">{index + 1}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {respondents.map((attendee) => {
+                  const answers = poll.responses.find((response) => response.attendee === attendee)?.answers || {};
+                  return (
+                    <tr key={attendee} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">{attendee}</td>
+                      {poll.options.map((option) => {
+                        const answer = answers[option.id];
+                        return (
+                          <td key={option.id} className="py-1 px-2 text-center">
+                            <button
+                              onClick={() => handleCellClick(attendee, option.id)}
+                              disabled={poll.status !== "open"}
+                              className={cn(
+                                "w-14 px-1 py-0.5 rounded",
+                                answer ? ANSWER_STYLES[answer] : "border border-dashed border-gray-300 dark:border-gray-600 text-gray-400"
+                              )}
+                              title="Click to change"
+                            >
+                              {answer || "–"}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {poll.status === "open" && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newAttendee}
+                  onChange={(e) => setNewAttendee(e.target.value)}
+                  placeholder="Name or email"
+                  className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <button
+                  onClick={handleAddAttendee}
+                  disabled={!newAttendee.trim()}
+                  className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                >
+                  Add row
+                </button>
+              </div>
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                rows={4}
+                placeholder={"Paste an email reply, e.g.\nFrom: Ana <ana@example.com>\n1 yes\n2 maybe\n3 no"}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-xs"
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleAddReply}
+                  disabled={!replyText.trim()}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md"
+                >
+                  Read answers
+                </button>
+              </div>
+            </div>
+          )}
+
+          {renderError()}
+
+          {/* Share and clean up */}
+          <div className="flex flex-wrap items-center gap-2">
+            {poll.status === "open" ? (
+              <>
+                <button
+                  onClick={handleCopyText}
+                  className="flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  title="Copy the options in every zone with reply instructions"
+                >
+                  {isTextCopied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  {isTextCopied ? "Copied" : "Copy summary"}
+                </button>
+                <button
+                  onClick={() => downloadIcs(buildPollICalendar(poll), `${poll.title}-holds`)}
+                  className="flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  title="Download every option as a tentative hold"
+                >
+                  <Download className="w-4 h-4" />
+                  Download holds (.ics)
+                </button>
+                <button
+                  onClick={() => cancelPoll(poll)}
+                  className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+                >
+                  Cancel poll
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => downloadIcs(buildPollICalendar(poll, { cancel: true }), `${poll.title}-cancel-holds`)}
+                className="flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                title="Download a file that removes the tentative holds"
+              >
+                <Download className="w-4 h-4" />
+                Download hold cancellation (.ics)
+              </button>
+            )}
+            <button
+              onClick={handleDelete}
+              className="ml-auto p-1 text-gray-400 hover:text-red-500"
+              title="Delete poll"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {!isSignedIn && poll.status === "open" && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Sign in to book the chosen time in your calendar. It will be saved locally for now.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PollModal;
@@ -0,0 +1,73 @@
+import React, { useState } from "react";
+import moment from "moment-timezone";
+import { ListChecks, Plus } from "lucide-react";
+import { cn } from "../utils";
+import { usePolls } from "../context/PollsContext";
+
+interface PollsMenuProps {
+  isPicking: boolean; // Grid clicks currently add poll candidates
+  onStartPicking: () => void;
+  onOpenPoll: (pollId: string) => void;
+}
+
+const STATUS_LABELS = { open: "open", decided: "booked", cancelled: "cancelled" } as const;
+
+const PollsMenu: React.FC<PollsMenuProps> = ({ isPicking, onStartPicking, onOpenPoll }) => {
+  const { polls } = usePolls();
+  const [isOpen, setIsOpen] = useState(false);
+  const openCount = polls.filter((poll) => poll.status === "open").length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={cn(
+          "flex items-center gap-1 px-2 py-1 border rounded text-sm",
+          (isOpen || isPicking) && "bg-gray-100 dark:bg-gray-800"
+        )}
+        title="Offer several times and let attendees vote"
+      >
+        <ListChecks className="w-4 h-4" />
+        Polls{openCount > 0 && ` (${openCount})`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2">
+          <button
+            onClick={() => {
+              onStartPicking();
+              setIsOpen(false);
+            }}
+            disabled={isPicking}
+            className="w-full flex items-center gap-1 px-1 py-1 rounded text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" />
+            Pick candidate times on the grid
+          </button>
+
+          {polls.length > 0 && (
+            <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 max-h-64 overflow-y-auto space-y-0.5">
+              {[...polls].reverse().map((poll) => (
+                <button
+                  key={poll.id}
+                  onClick={() => {
+                    onOpenPoll(poll.id);
+                    setIsOpen(false);
+                  }}
+                  className="w-full flex items-center gap-2 px-1 py-1 rounded text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <span className="truncate text-gray-800 dark:text-gray-200">{poll.title}</span>
+                  <span className="ml-auto text-[10px] text-gray-400 flex-shrink-0">
+                    {poll.options.length} times · {STATUS_LABELS[poll.status]} · {moment(poll.createdAt).format("MMM D")}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PollsMenu;
@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from "react";
+import moment from "moment-timezone";
+import { X, Repeat, Loader2 as Loader, AlertCircle } from "lucide-react";
+import { cn } from "../utils";
+import { useZones } from "../context/ZonesContext";
+import { useMeetings } from "../context/MeetingsContext";
+import { useAuthContext } from "../context/AuthContext";
+import { useCalendar } from "../hooks/useCalendar";
+import { useCalendars } from "../context/CalendarsContext";
+import { getComfortColor } from "../utils/meetingScoring";
+import {
+  planRecurringSeries,
+  getSeriesPainByZone,
+  groupOccurrencesIntoRRules,
+  DEFAULT_SERIES_OCCURRENCES,
+} from "../utils/recurrence";
+import { findSeriesDstCrossings } from "../utils/dst";
+import DstSeriesWarning from "./DstSeriesWarning";
+
+interface RecurringPlannerProps {
+  title: string;
+  description: string;
+  attendees: string[];
+  firstStart: Date;
+  durationMinutes: number;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+type CreationMode = "individual" | "rrule";
+
+const RecurringPlanner: React.FC<RecurringPlannerProps> = ({
+  title,
+  description,
+  attendees,
+  firstStart,
+  durationMinutes,
+  onClose,
+  onCreated,
+}) => {
+  const { zones } = useZones();
+  const { addMeeting } = useMeetings();
+  const { isSignedIn } = useAuthContext();
+  const { createEvent } = useCalendar();
+  const { targetCalendarId } = useCalendars();
+
+  const [occurrenceCount, setOccurrenceCount] = useState(DEFAULT_SERIES_OCCURRENCES);
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
+  const [rotate, setRotate] = useState(true);
+  const [mode, setMode] = useState<CreationMode>("individual");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const referenceTimezone = useMemo(() => {
+    const referenceZone = zones.find((zone) => zone.isHome) || zones[0];
+    return referenceZone?.iana || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }, [zones]);
+
+  const plan = useMemo(
+    () =>
+      planRecurringSeries({
+        zones,
+        referenceTimezone,
+        firstStart,
+        occurrences: occurrenceCount,
+        durationMinutes,
+        intervalWeeks,
+        rotate,
+      }),
+    [zones, referenceTimezone, firstStart, occurrenceCount, durationMinutes, intervalWeeks, rotate]
+  );
+
+  const painByZone = useMemo(() => getSeriesPainByZone(plan), [plan]);
+
+  const dstCrossings = useMemo(
+    () => findSeriesDstCrossings(zones, plan.map((occurrence) => occurrence.start), referenceTimezone),
+    [zones, plan, referenceTimezone]
+  );
+
+  const toZonedISO = (time: Date) => moment(time).tz(referenceTimezone).format();
+
+  const handleCreateSeries = async () => {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const validAttendees = attendees.filter((email) => email.trim() !== "");
+
+      if (isSignedIn) {
+        if (mode === "rrule") {
+          for (const group of groupOccurrencesIntoRRules(plan, intervalWeeks)) {
+            await createEvent({
+              title,
+              description,
+              startTime: toZonedISO(group.first.start),
+              endTime: toZonedISO(group.first.end),
+              attendees: validAttendees,
+              timezone: referenceTimezone,
+              recurrence: group.recurrence,
+            }, targetCalendarId);
+          }
+        } else {
+          for (const occurrence of plan) {
+            await createEvent({
+              title,
+              description,
+              startTime: toZonedISO(occurrence.start),
+              endTime: toZonedISO(occurrence.end),
+              attendees: validAttendees,
+              timezone: referenceTimezone,
+            }, targetCalendarId);
+          }
+        }
+      }
+
+      const seriesId = `series_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      plan.forEach((occurrence) => {
+        addMeeting({
+          title,
+          startTime: occurrence.start,
+          endTime: occurrence.end,
+          timezone: referenceTimezone,
+          attendees: validAttendees,
+          seriesId,
+        });
+      });
+
+      onCreated();
+    } catch (err) {
+      console.error("Failed to create recurring series:", err);
+      setError("Failed to create the recurring series. Please try again.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Plan Recurring Series
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 grid grid-cols-2 gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700 dark:text-gray-300">Occurrences</span>
+            <input
+              type="number"
+              min={2}
+              max={52}
+              value={occurrenceCount}
+              onChange={(e) => setOccurrenceCount(Math.max(2, Math.min(52, Number(e.target.value) || 2)))}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700 dark:text-gray-300">Repeat</span>
+            <select
+              value={intervalWeeks}
+              onChange={(e) => setIntervalWeeks(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value={1}>Every week</option>
+              <option value={2}>Every 2 weeks</option>
+              <option value={4}>Every 4 weeks</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rotate}
+              onChange={(e) => setRotate(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-700 dark:text-gray-300">Rotate start time to share inconvenience</span>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700 dark:text-gray-300">Create as</span>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as CreationMode)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="individual">Individual events</option>
+              <option value="rrule">Recurring events (RRULE)</option>
+            </select>
+          </label>
+        </div>
+
+        {/* Preview Table */}
+        <div className="px-4 overflow-x-auto">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-2">#</th>
+                {zones.map((zone) => (
+                  <th key={zone.id} className="py-2 px-2">{zone.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {plan.map((occurrence) => (
+                <tr key={occurrence.index} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-1 pr-2 text-gray-500">{occurrence.index + 1}</td>
+                  {occurrence.score.zones.map((zonePain) => {
+                    const zone = zones.find((z) => z.id === zonePain.zoneId);
+                    return (
+                      <td key={zonePain.zoneId} className="py-1 px-2">
+                        <span
+                          className={cn("px-1 rounded", getComfortColor(zonePain.comfort))}
+                          title={`${zonePain.comfort} (pain ${zonePain.pain})`}
+                        >
+                          {moment(zonePain.localTime).tz(zone?.iana || referenceTimezone).format("ddd MMM D, HH:mm")}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-gray-200 dark:border-gray-600 font-semibold text-gray-700 dark:text-gray-300">
+                <td className="py-2 pr-2">Pain</td>
+                {zones.map((zone) => (
+                  <td key={zone.id} className="py-2 px-2">{painByZone[zone.id] || 0}</td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 space-y-3">
+          <DstSeriesWarning zones={zones} crossings={dstCrossings} referenceTimezone={referenceTimezone} />
+          {error && (
+            <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800">
+              <AlertCircle className="h-4 w-4 text-red-400" />
+              {error}
+            </div>
+          )}
+          {!isSignedIn && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Sign in to add the series to your calendar. It will be saved locally for now.
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreateSeries}
+              disabled={isCreating || !title.trim() || plan.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md"
+            >
+              {isCreating && <Loader className="h-4 w-4 animate-spin" />}
+              Create {plan.length} occurrences
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringPlanner;
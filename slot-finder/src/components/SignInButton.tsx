@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { useAuthContext } from '../context/AuthContext';
+import { CalendarProviderId } from '../lib/calendarProvider';
+import { getConfiguredProviders } from '../lib/calendarProviders';
 
 export const SignInButton: React.FC = () => {
   const { signIn, isLoading, isSignedIn, user } = useAuthContext();
@@ -11,10 +13,10 @@ export const SignInButton: React.FC = () => {
     setIsClient(true);
   }, []);
 
-  const handleSignInClick = async () => {
-    console.log('Sign in button clicked');
+  const handleSignInClick = async (provider: CalendarProviderId) => {
+    console.log('Sign in button clicked:', provider);
     try {
-      const success = await signIn();
+      const success = await signIn(provider);
       console.log('Sign in result:', { success, isSignedIn, user });
     } catch (error) {
       console.error('Sign in failed:', error);
@@ -37,15 +39,24 @@ export const SignInButton: React.FC = () => {
     return null; // Don't show sign in button if already signed in
   }
 
+  const providers = getConfiguredProviders();
+
+  // One button per calendar provider; just "Sign In" when there's only Google
   return (
-    <Button 
-      variant="default" 
-      onClick={handleSignInClick}
-      className="bg-blue-600 hover:bg-blue-700 text-white"
-      disabled={isLoading}
-    >
-      {isLoading ? 'Signing in...' : 'Sign In'}
-    </Button>
+    <div className="flex items-center gap-2">
+      {providers.map((provider) => (
+        <Button 
+          key={provider.id}
+          variant="default" 
+          onClick={() => handleSignInClick(provider.id)}
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+          disabled={isLoading}
+          title={`Sign in with ${provider.name}. Only your name and email are shared; calendar access is asked for when a feature needs it.`}
+        >
+          {isLoading ? 'Signing in...' : providers.length > 1 ? `Sign in with ${provider.name}` : 'Sign In'}
+        </Button>
+      ))}
+    </div>
   );
 };
 
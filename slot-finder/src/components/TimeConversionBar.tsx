@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from "react";
+import moment from "moment-timezone";
+import { Wand2, X } from "lucide-react";
+import { cn } from "../utils";
+import { useZones } from "../context/ZonesContext";
+import { useUI } from "../context/UIContext";
+import { parseTimeExpression, ParsedTime } from "../utils/timeParser";
+
+const TIME_FORMAT = "h:mm A";
+
+const TimeConversionBar: React.FC = () => {
+  const { zones } = useZones();
+  const { jumpToTime } = useUI();
+  const [phrase, setPhrase] = useState("");
+  const [parsed, setParsed] = useState<ParsedTime | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const referenceTimezone = useMemo(() => {
+    const referenceZone = zones.find((zone) => zone.isHome) || zones[0];
+    return referenceZone?.iana || moment.tz.guess();
+  }, [zones]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = parseTimeExpression(phrase, { referenceTimezone, zones });
+    if (!result) {
+      setParsed(null);
+      setError(`Couldn't find a time in "${phrase.trim()}". Try "3pm PST Thursday" or "tomorrow 9:30 London time".`);
+      return;
+    }
+
+    setError(null);
+    setParsed(result);
+    const homeTime = moment(result.instant).tz(referenceTimezone);
+    jumpToTime(homeTime.format("YYYY-MM-DD"), homeTime.hour());
+  };
+
+  const handleClear = () => {
+    setPhrase("");
+    setParsed(null);
+    setError(null);
+  };
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200/50 dark:border-gray-700/30">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Wand2 className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={phrase}
+            onChange={(e) => setPhrase(e.target.value)}
+            placeholder='Convert a time, e.g. "3pm PST Thursday" or "tomorrow 9:30 London time"'
+            className="w-full pl-9 pr-8 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          {phrase && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              title="Clear"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={!phrase.trim()}
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Convert
+        </button>
+      </form>
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {parsed && (
+        <div className="mt-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {moment(parsed.instant).tz(parsed.timezone).format(`ddd MMM D, ${TIME_FORMAT}`)} in {parsed.zoneLabel}
+            {!parsed.hasExplicitZone && " (home zone)"}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {zones.map((zone) => {
+              const local = moment(parsed.instant).tz(zone.iana);
+              const source = moment(parsed.instant).tz(parsed.timezone);
+              const dayDifference = moment(local.format("YYYY-MM-DD")).diff(moment(source.format("YYYY-MM-DD")), "days");
+
+              return (
+                <span
+                  key={zone.id}
+                  className={cn(
+                    "px-2 py-1 rounded text-xs bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200",
+                    zone.isHome && "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300"
+                  )}
+                >
+                  <span className="font-medium">{zone.name}</span> {local.format(`ddd ${TIME_FORMAT}`)}
+                  {dayDifference !== 0 && (
+                    <span className="ml-1 text-orange-600 dark:text-orange-400">
+                      {dayDifference > 0 ? `+${dayDifference}d` : `${dayDifference}d`}
+                    </span>
+                  )}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeConversionBar;
@@ -1,17 +1,32 @@
-import React, { useMemo, useState, useEffect, useRef } from "react";
+import React, { useMemo, useState, useEffect, useRef, useCallback } from "react";
 import moment from "moment-timezone";
 import { Clock, Calendar } from "lucide-react";
 import { cn } from "../utils";
 import { useZones } from "../context/ZonesContext";
 import { useUI } from "../context/UIContext";
 import { useMeetings } from "../context/MeetingsContext";
+import { useAuthContext } from "../context/AuthContext";
+import { useCalendar } from "../hooks/useCalendar";
+import { useCalendars } from "../context/CalendarsContext";
+import { getCalendarProvider } from "../lib/calendarProviders";
 import { getTimePeriod, getPeriodIcon, getPeriodColor } from "../utils/timezoneUtilsV2";
+import { getZoneComfort, getComfortColor, rankMeetingTimes } from "../utils/meetingScoring";
+import { isZoneWorkingTime } from "../utils/workingHours";
+import { getZoneHoliday, getHolidaysOnDate } from "../utils/holidays";
+import { getDstTransitions, getDayDstTransitions, describeDstTransition, formatUtcOffset } from "../utils/dst";
+import { Holiday, DstTransition, Meeting, PollOption } from "../types";
+import { getWeekStart } from "../utils/weekGrid";
+import { calendarEventsToGridEvents, getEventBands, EventBand } from "../utils/calendarEvents";
 import MeetingModal from "./MeetingModal"; // Added import
+import WeekView from "./WeekView";
+import CalendarPicker from "./CalendarPicker";
+import PollsMenu from "./PollsMenu";
+import PollModal from "./PollModal";
 
 type TimeSliderProps = {
   currentTime: Date;
   selectedTime: Date | null;
-  onTimeSelect: (time: Date) => void;
+  onTimeSelect: (time: Date, endTime?: Date) => void;
   showWorkingHours: boolean;
   workingHoursStart: number;
   workingHoursEnd: number;
@@ -19,6 +34,16 @@ type TimeSliderProps = {
   isHomeSlider?: boolean;
 };
 
+type SlotMinutes = 15 | 30 | 60;
+
+const SLOT_MINUTE_OPTIONS: SlotMinutes[] = [60, 30, 15];
+
+// Length of a poll candidate picked with a single click
+const POLL_OPTION_MINUTES = 60;
+
+// Narrower columns at finer steps so a whole day stays scrollable
+const COLUMN_WIDTHS: Record<SlotMinutes, number> = { 60: 72, 30: 56, 15: 44 };
+
 const TimeSlider: React.FC<TimeSliderProps> = ({
   currentTime,
   selectedTime,
@@ -30,29 +55,65 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
   isHomeSlider = false
 }) => {
   const { zones } = useZones();
-  const { highlightedHour, setHighlightedHour, isAutoHighlight, setNowHighlight } = useUI();
+  const {
+    highlightedHour,
+    setHighlightedHour,
+    isAutoHighlight,
+    setNowHighlight,
+    suggestedSlots,
+    selectedDate: selectedDateKey,
+    setSelectedDate,
+    jumpToTime,
+  } = useUI();
   const { meetings } = useMeetings();
-  const [selectedDate, setSelectedDate] = useState(moment());
+  const { isSignedIn, provider } = useAuthContext();
+  const calendarProvider = getCalendarProvider(provider);
+  const { events: calendarEvents, fetchEvents } = useCalendar();
+  const { selectedCalendarIds, getCalendarColor } = useCalendars();
+  const selectedDate = useMemo(() => moment(selectedDateKey, "YYYY-MM-DD"), [selectedDateKey]);
   const [is24HourFormat, setIs24HourFormat] = useState<boolean>(true);
   const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [viewMode, setViewMode] = useState<'day' | 'week'>('day');
+  const [slotMinutes, setSlotMinutes] = useState<SlotMinutes>(60);
+  const columnWidth = COLUMN_WIDTHS[slotMinutes];
+
+  // Click-and-drag range selection, stored as slot indexes shared by every row
+  const [selection, setSelection] = useState<{ anchor: number; current: number } | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const selectionRef = useRef<{ anchor: number; current: number } | null>(null);
+
+  // Dragging a meeting marker to another column, as slot indexes
+  const [meetingDrag, setMeetingDrag] = useState<{ meeting: Meeting; origin: number; target: number } | null>(null);
+  const [isDraggingMeeting, setIsDraggingMeeting] = useState(false);
+  const meetingDragRef = useRef<{ meeting: Meeting; origin: number; target: number } | null>(null);
+
+  // Candidate times picked on the grid for a new poll, and the poll shown
+  const [isPickingPollTimes, setIsPickingPollTimes] = useState(false);
+  const [pollCandidates, setPollCandidates] = useState<PollOption[]>([]);
+  const [isPollDraftOpen, setIsPollDraftOpen] = useState(false);
+  const [openPollId, setOpenPollId] = useState<string | null>(null);
 
   // Modal state
   const [isMeetingModalOpen, setIsMeetingModalOpen] = useState(false);
-  const [selectedMeeting, setSelectedMeeting] = useState<any | null>(null);
+  const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
   const [selectedMeetingTime, setSelectedMeetingTime] = useState<Date | null>(null);
+  const [selectedMeetingEndTime, setSelectedMeetingEndTime] = useState<Date | null>(null);
 
-  // Handler to open modal
-  const handleMeetingClick = (meeting: any, time: moment.Moment) => {
+  // Handler to open modal, at the meeting's own time or where it was dropped
+  const handleMeetingClick = useCallback((meeting: Meeting, start: Date = meeting.startTime, end: Date = meeting.endTime) => {
     setSelectedMeeting(meeting);
-    setSelectedMeetingTime(time.toDate());
+    setSelectedMeetingTime(start);
+    setSelectedMeetingEndTime(end);
     setIsMeetingModalOpen(true);
-  };
+  }, []);
 
   // Handler to close modal
   const handleCloseMeetingModal = () => {
     setIsMeetingModalOpen(false);
     setSelectedMeeting(null);
     setSelectedMeetingTime(null);
+    setSelectedMeetingEndTime(null);
   };
 
   // Helper: Get start hour for a period
@@ -116,41 +177,82 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
     return zones.find(z => z.isHome) || zones[0];
   }, [zones]);
 
+  // Start of the selected day in the reference zone; DST days have 23 or 25 hours
+  const referenceDayStart = useMemo(() => {
+    const iana = referenceZone?.iana || moment.tz.guess();
+    return moment.tz(selectedDate.format("YYYY-MM-DD"), iana).startOf('day');
+  }, [referenceZone, selectedDate]);
+
+  const hoursInDay = referenceDayStart.clone().add(1, 'day').diff(referenceDayStart, 'hours');
+  const slotsInDay = (hoursInDay * 60) / slotMinutes;
+
+  // Load the visible day's calendar and feed events, again whenever the day
+  // changes or a meeting is added; the week view loads its own range
+  useEffect(() => {
+    if (viewMode !== 'day') return;
+    fetchEvents(
+      referenceDayStart.toDate(),
+      referenceDayStart.clone().add(1, 'day').toDate(),
+      selectedCalendarIds
+    ).catch(() => {
+      // Local meetings still show when the calendar can't be reached
+    });
+  }, [isSignedIn, viewMode, referenceDayStart, fetchEvents, meetings, selectedCalendarIds]);
+
+  const calendarGridEvents = useMemo(
+    () => calendarEventsToGridEvents(calendarEvents, getCalendarColor),
+    [calendarEvents, getCalendarColor]
+  );
+
+  const selectedDayDstChanges = useMemo(
+    () =>
+      zones.flatMap((zone) =>
+        getDstTransitions(zone.iana, referenceDayStart, referenceDayStart.clone().add(1, 'day')).map((transition) => ({
+          zone,
+          transition,
+        }))
+      ),
+    [zones, referenceDayStart]
+  );
+
   const alignedGridByZone = useMemo(() => {
     if (!referenceZone) return {};
-    const result: { [zoneId: string]: { localTime: moment.Moment; homeHour: number; isDifferentDay: boolean; isWorkingHour: boolean; meetings: any[] }[] } = {};
+    const result: { [zoneId: string]: { localTime: moment.Moment; homeHour: number; isDifferentDay: boolean; isOffsetFromHome: boolean; isWorkingHour: boolean; holiday?: Holiday; dstTransition?: DstTransition; meetings: Meeting[]; eventBands: EventBand[] }[] } = {};
     for (const zone of zones) {
       result[zone.id] = [];
-      for (let homeHour = 0; homeHour < 24; homeHour++) {
-        const homeMoment = moment.tz({
-          year: selectedDate.year(),
-          month: selectedDate.month(),
-          day: selectedDate.date(),
-          hour: homeHour,
-          minute: 0,
-          second: 0,
-        }, referenceZone.iana);
+      for (let slotIndex = 0; slotIndex < slotsInDay; slotIndex++) {
+        // Step in absolute time so repeated or skipped local hours stay distinct
+        const homeMoment = referenceDayStart.clone().add(slotIndex * slotMinutes, 'minutes');
+        const homeHour = homeMoment.hour();
         const localMoment = homeMoment.clone().tz(zone.iana);
-        const slotMeetings = meetings.filter((meeting: any) => {
-          const meetingStart = moment(meeting.startTime).tz(zone.iana);
-          const meetingEnd = moment(meeting.endTime).tz(zone.iana);
-          return (
-            meeting.timezone === zone.iana &&
-            localMoment.isSameOrAfter(meetingStart) &&
-            localMoment.isBefore(meetingEnd)
-          );
-        });
+        const slotEnd = homeMoment.clone().add(slotMinutes, 'minutes');
+        // Meetings are absolute instants, so they show in every zone's row
+        const slotMeetings = meetings.filter((meeting) =>
+          moment(meeting.startTime).isBefore(slotEnd) && moment(meeting.endTime).isAfter(homeMoment)
+        );
         result[zone.id].push({
           localTime: localMoment,
           homeHour,
           isDifferentDay: !localMoment.isSame(homeMoment, 'day'),
-          isWorkingHour: localMoment.hour() >= 9 && localMoment.hour() < 17,
+          // Columns start mid-hour for zones a fraction of an hour away from home
+          isOffsetFromHome: (localMoment.utcOffset() - homeMoment.utcOffset()) % 60 !== 0,
+          isWorkingHour: isZoneWorkingTime(zone, localMoment, workingHoursStart, workingHoursEnd),
+          holiday: getZoneHoliday(zone, localMoment),
+          dstTransition: getDstTransitions(zone.iana, homeMoment, slotEnd)[0],
           meetings: slotMeetings,
+          eventBands: getEventBands(calendarGridEvents, homeMoment.toDate(), slotEnd.toDate()),
         });
       }
     }
     return result;
-  }, [zones, referenceZone, selectedDate, meetings]);
+  }, [zones, referenceZone, referenceDayStart, slotsInDay, slotMinutes, meetings, calendarGridEvents, workingHoursStart, workingHoursEnd]);
+
+  // Least painful times for the selected day, graded across every zone
+  const rankedTimes = useMemo(() => {
+    if (!referenceZone) return [];
+    const candidateTimes = (alignedGridByZone[referenceZone.id] || []).map(slot => slot.localTime.toDate());
+    return rankMeetingTimes(candidateTimes, zones, workingHoursStart, workingHoursEnd);
+  }, [alignedGridByZone, referenceZone, zones, workingHoursStart, workingHoursEnd]);
 
   useEffect(() => {
     if (isAutoHighlight) {
@@ -159,6 +261,133 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
     }
   }, [isAutoHighlight, setNowHighlight]);
 
+  // Bring a highlighted hour into view, e.g. after jumping to a parsed time
+  useEffect(() => {
+    if (isAutoHighlight || highlightedHour === null || !referenceZone || !scrollContainerRef.current) return;
+    const firstSlotIndex = (alignedGridByZone[referenceZone.id] || []).findIndex(slot => slot.homeHour === highlightedHour);
+    if (firstSlotIndex >= 0) {
+      scrollContainerRef.current.scrollLeft = Math.max(0, (firstSlotIndex - 2) * columnWidth);
+    }
+  }, [highlightedHour, isAutoHighlight, referenceZone, alignedGridByZone, columnWidth]);
+
+  // A selection only makes sense for the day and granularity it was made on
+  useEffect(() => {
+    selectionRef.current = null;
+    setSelection(null);
+  }, [selectedDateKey, slotMinutes]);
+
+  const handleSlotMouseDown = (slotIndex: number, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault(); // Keep the drag from selecting text
+    selectionRef.current = { anchor: slotIndex, current: slotIndex };
+    setSelection(selectionRef.current);
+    setIsSelecting(true);
+  };
+
+  const handleSlotMouseEnter = (slotIndex: number) => {
+    if (isDraggingMeeting && meetingDragRef.current) {
+      meetingDragRef.current = { ...meetingDragRef.current, target: slotIndex };
+      setMeetingDrag(meetingDragRef.current);
+      return;
+    }
+    if (!isSelecting || !selectionRef.current) return;
+    selectionRef.current = { ...selectionRef.current, current: slotIndex };
+    setSelection(selectionRef.current);
+  };
+
+  // Finish the drag wherever the mouse is released; a drag that never left
+  // its first cell is a plain click
+  useEffect(() => {
+    if (!isSelecting) return;
+
+    const handleMouseUp = () => {
+      setIsSelecting(false);
+      const range = selectionRef.current;
+      const referenceSlots = referenceZone ? alignedGridByZone[referenceZone.id] || [] : [];
+      if (!range || referenceSlots.length === 0) return;
+
+      const first = Math.min(range.anchor, range.current);
+      const last = Math.max(range.anchor, range.current);
+      setSelectedPeriod(null);
+      setHighlightedHour(null);
+
+      // While picking poll times a click adds a candidate, or removes the
+      // one starting there
+      if (isPickingPollTimes) {
+        selectionRef.current = null;
+        setSelection(null);
+        const start = referenceSlots[first].localTime;
+        const end = first === last
+          ? start.clone().add(POLL_OPTION_MINUTES, 'minutes')
+          : referenceSlots[last].localTime.clone().add(slotMinutes, 'minutes');
+        setPollCandidates(prev =>
+          prev.some(candidate => candidate.start.getTime() === start.valueOf())
+            ? prev.filter(candidate => candidate.start.getTime() !== start.valueOf())
+            : [
+                ...prev,
+                { id: `option_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, start: start.toDate(), end: end.toDate() },
+              ].sort((a, b) => a.start.getTime() - b.start.getTime())
+        );
+        return;
+      }
+
+      if (first === last) {
+        selectionRef.current = null;
+        setSelection(null);
+        onTimeSelect(referenceSlots[first].localTime.toDate());
+        return;
+      }
+
+      const rangeEnd = referenceSlots[last].localTime.clone().add(slotMinutes, 'minutes');
+      onTimeSelect(referenceSlots[first].localTime.toDate(), rangeEnd.toDate());
+    };
+
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [isSelecting, isPickingPollTimes, referenceZone, alignedGridByZone, slotMinutes, onTimeSelect, setHighlightedHour]);
+
+  const stopPickingPollTimes = () => {
+    setIsPickingPollTimes(false);
+    setPollCandidates([]);
+  };
+
+  const handleMeetingMouseDown = (meeting: Meeting, slotIndex: number, e: React.MouseEvent) => {
+    e.stopPropagation(); // Don't start a range selection underneath
+    if (e.button !== 0) return;
+    e.preventDefault();
+    meetingDragRef.current = { meeting, origin: slotIndex, target: slotIndex };
+    setMeetingDrag(meetingDragRef.current);
+    setIsDraggingMeeting(true);
+  };
+
+  // Dropping a meeting on another column opens it for editing at the new
+  // time, so attendees are only notified once the change is confirmed
+  useEffect(() => {
+    if (!isDraggingMeeting) return;
+
+    const handleMouseUp = () => {
+      const drag = meetingDragRef.current;
+      meetingDragRef.current = null;
+      setMeetingDrag(null);
+      setIsDraggingMeeting(false);
+      if (!drag) return;
+
+      const shiftMinutes = (drag.target - drag.origin) * slotMinutes;
+      handleMeetingClick(
+        drag.meeting,
+        moment(drag.meeting.startTime).add(shiftMinutes, 'minutes').toDate(),
+        moment(drag.meeting.endTime).add(shiftMinutes, 'minutes').toDate()
+      );
+    };
+
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [isDraggingMeeting, slotMinutes, handleMeetingClick]);
+
+  const selectionBounds = selection
+    ? { first: Math.min(selection.anchor, selection.current), last: Math.max(selection.anchor, selection.current) }
+    : null;
+
   // Time slot click handler
   const handleTimeSlotClick = (slot: moment.Moment) => {
     setSelectedPeriod(null);
@@ -168,16 +397,25 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
     }
   };
 
+  // In week mode the arrows move a whole week
   const goPrevDay = () => {
-    setSelectedDate(selectedDate.clone().subtract(1, 'day'));
+    setSelectedDate(selectedDate.clone().subtract(1, viewMode).format("YYYY-MM-DD"));
   };
 
   const goNextDay = () => {
-    setSelectedDate(selectedDate.clone().add(1, 'day'));
+    setSelectedDate(selectedDate.clone().add(1, viewMode).format("YYYY-MM-DD"));
+  };
+
+  const weekStart = getWeekStart(selectedDateKey);
+
+  // Open the clicked hour of the week in the day grid
+  const handleWeekHourClick = (date: string, hour: number) => {
+    setViewMode('day');
+    jumpToTime(date, hour);
   };
 
   const goToToday = () => {
-    setSelectedDate(moment());
+    setSelectedDate(moment().format("YYYY-MM-DD"));
   };
 
   const getZoneColor = (index: number) => {
@@ -199,12 +437,61 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
           </div>
           <div className="flex items-center gap-2">
             <button
-              onClick={() => window.open('https://calendar.google.com', '_blank')}
+              onClick={() => window.open(calendarProvider.webUrl, '_blank')}
               className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
-              title="Open Google Calendar"
+              title={`Open ${calendarProvider.name}`}
+            >
+              {calendarProvider.name}
+            </button>
+            <button
+              onClick={() => setShowHeatmap((prev) => !prev)}
+              className={cn(
+                "px-2 py-1 border rounded text-sm",
+                showHeatmap && "bg-orange-100 dark:bg-orange-900/30 border-orange-300"
+              )}
+              title="Toggle fairness heat overlay"
             >
-              Google Calendar
+              Heat
             </button>
+            <div className="flex border rounded text-sm overflow-hidden" title="View">
+              {(['day', 'week'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={cn(
+                    "px-2 py-1 capitalize",
+                    viewMode === mode && "bg-blue-500 text-white"
+                  )}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            {viewMode === 'day' && (
+              <div className="flex border rounded text-sm overflow-hidden" title="Column size">
+                {SLOT_MINUTE_OPTIONS.map((minutes) => (
+                  <button
+                    key={minutes}
+                    onClick={() => setSlotMinutes(minutes)}
+                    className={cn(
+                      "px-2 py-1",
+                      slotMinutes === minutes && "bg-blue-500 text-white"
+                    )}
+                  >
+                    {minutes === 60 ? '1h' : `${minutes}m`}
+                  </button>
+                ))}
+              </div>
+            )}
+            <PollsMenu
+              isPicking={isPickingPollTimes}
+              onStartPicking={() => {
+                setViewMode('day');
+                setIsPickingPollTimes(true);
+              }}
+              onOpenPoll={setOpenPollId}
+            />
+            <CalendarPicker />
             <button
               onClick={() => setIs24HourFormat((prev: boolean) => !prev)}
               className="px-2 py-1 border rounded text-sm"
@@ -215,6 +502,27 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
         </div>
       </div>
 
+      {/* Poll Candidate Picking */}
+      {isPickingPollTimes && (
+        <div className="flex items-center gap-3 px-4 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800/40">
+          <span className="text-amber-800 dark:text-amber-300">
+            Click or drag on the grid to add candidate times, on any day. {pollCandidates.length} picked.
+          </span>
+          <div className="ml-auto flex gap-2">
+            <button onClick={stopPickingPollTimes} className="px-2 py-1 text-gray-600 dark:text-gray-300">
+              Cancel
+            </button>
+            <button
+              onClick={() => setIsPollDraftOpen(true)}
+              disabled={pollCandidates.length < 2}
+              className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded"
+            >
+              Create poll...
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Time Segment Labels Row */}
       <div className="flex justify-center gap-4 py-2 bg-gray-50 dark:bg-gray-900/30 border-b border-gray-200/50 dark:border-gray-700/30">
         {['now', 'morning', 'afternoon', 'evening', 'night'].map((period) => (
@@ -233,6 +541,37 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
           </button>
         ))}
       </div>
+      {/* Least Painful Times */}
+      {showHeatmap && rankedTimes.length > 0 && (
+        <div className="flex gap-2 px-4 py-2 overflow-x-auto border-b border-gray-200/50 dark:border-gray-700/30">
+          {rankedTimes.slice(0, 3).map((ranked, rankIndex) => (
+            <button
+              key={ranked.time.toISOString()}
+              onClick={() => handleTimeSlotClick(moment(ranked.time))}
+              className="flex-shrink-0 px-3 py-1 text-left rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              <div className="text-xs font-semibold">
+                #{rankIndex + 1} {moment(ranked.time).tz(referenceZone.iana).format(is24HourFormat ? 'HH:mm' : 'hh:mm A')} • pain {ranked.totalPain}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {ranked.zones.map((zonePain) => {
+                  const zone = zones.find(z => z.id === zonePain.zoneId);
+                  return (
+                    <span
+                      key={zonePain.zoneId}
+                      className={cn("px-1 rounded text-[10px]", getComfortColor(zonePain.comfort))}
+                      title={`${zone?.name}: ${zonePain.comfort} (pain ${zonePain.pain})`}
+                    >
+                      {zone?.name} {moment(zonePain.localTime).tz(zone?.iana || referenceZone.iana).format('HH:mm')}
+                    </span>
+                  );
+                })}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Date Navigation */}
       <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/30 bg-gradient-to-r from-gray-50/50 to-white/50 dark:from-gray-800/50 dark:to-gray-900/50">
         <div className="flex items-center justify-between mb-4">
@@ -248,7 +587,9 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
           <div className="flex items-center gap-2">
             <Calendar className="w-3 h-3 text-gray-500" />
             <span className="font-medium text-gray-900 dark:text-white">
-              {selectedDate.format("MMMM D, YYYY")}
+              {viewMode === 'week'
+                ? `Week of ${moment(weekStart, "YYYY-MM-DD").format("MMMM D, YYYY")}`
+                : selectedDate.format("MMMM D, YYYY")}
             </span>
             {!selectedDate.isSame(moment(), 'day') && (
               <button
@@ -275,11 +616,21 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
           {[selectedDate.clone().subtract(3, 'days'), selectedDate.clone().subtract(2, 'days'), selectedDate.clone().subtract(1, 'days'), selectedDate, selectedDate.clone().add(1, 'days'), selectedDate.clone().add(2, 'days'), selectedDate.clone().add(3, 'days')].map((date, idx) => {
             const isDateToday = date.isSame(moment(), 'day');
             const isSelected = date.isSame(selectedDate, 'day');
+            const dateHolidays = zones.flatMap((zone) =>
+              getHolidaysOnDate(zone.country, date.format("YYYY-MM-DD")).map((holiday) => `${zone.name}: ${holiday.name}`)
+            );
+            const dateDstChanges = zones.flatMap((zone) =>
+              getDayDstTransitions(zone.iana, moment.tz(date.format("YYYY-MM-DD"), zone.iana)).map(
+                (transition) => `${zone.name}: ${describeDstTransition(transition)}`
+              )
+            );
+            const dateNotes = [...dateHolidays, ...dateDstChanges];
 
             return (
               <button
                 key={date.format("YYYY-MM-DD")}
-                onClick={() => setSelectedDate(date)}
+                onClick={() => setSelectedDate(date.format("YYYY-MM-DD"))}
+                title={dateNotes.length > 0 ? dateNotes.join("\n") : undefined}
                 className={cn(
                   "flex flex-col items-center px-2 py-1 rounded-lg transition-all duration-200 text-xs",
                   isSelected
@@ -291,169 +642,303 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
               >
                 <span className="font-medium">{date.format("ddd")}</span>
                 <span className="text-lg font-bold">{date.format("DD")}</span>
+                {(dateHolidays.length > 0 || dateDstChanges.length > 0) && (
+                  <span className="flex gap-0.5">
+                    {dateHolidays.length > 0 && (
+                      <span className={cn("w-1.5 h-1.5 rounded-full", isSelected ? "bg-white" : "bg-purple-500")} />
+                    )}
+                    {dateDstChanges.length > 0 && (
+                      <span className={cn("w-1.5 h-1.5 rounded-full", isSelected ? "bg-white" : "bg-amber-500")} />
+                    )}
+                  </span>
+                )}
               </button>
             );
           })}
         </div>
+
+        {/* Clock Changes On The Selected Day */}
+        {selectedDayDstChanges.length > 0 && (
+          <div className="mt-3 space-y-1">
+            {selectedDayDstChanges.map(({ zone, transition }) => (
+              <div
+                key={`${zone.id}-${transition.at.getTime()}`}
+                className="text-xs px-2 py-1 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300"
+              >
+                {zone.name}: {describeDstTransition(transition)} at{" "}
+                {moment(transition.at).tz(zone.iana).format(is24HourFormat ? "HH:mm" : "hh:mm A")}
+                {zone.id === referenceZone?.id && ` — this day has ${hoursInDay} hours`}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* 24-Hour Grid */}
-      <div 
-        ref={scrollContainerRef}
-        className="flex-1 flex flex-col min-h-0 overflow-auto"
-        onScroll={handleScroll}
-      >
-        {/* Scrollable Content */}
+      {/* 24-Hour Grid or Week View */}
+      {viewMode === 'week' ? (
+        <WeekView
+          weekStart={weekStart}
+          referenceTimezone={referenceZone?.iana || moment.tz.guess()}
+          workingHoursStart={workingHoursStart}
+          workingHoursEnd={workingHoursEnd}
+          is24HourFormat={is24HourFormat}
+          onHourClick={handleWeekHourClick}
+        />
+      ) : (
         <div 
-          ref={scrollContentRef}
-          className="w-[1728px]"
-          style={{
-            position: 'relative',
-            transform: `translateX(-${scrollLeft}px)`,
-            transition: 'transform 0.1s ease-out'
-          }}
+          ref={scrollContainerRef}
+          className="flex-1 flex flex-col min-h-0 overflow-auto"
+          onScroll={handleScroll}
         >
-          {zones.map((zone, zoneIndex) => {
-            const zoneData = alignedGridByZone[zone.id] || [];
-            const isHome = zone.isHome || false;
-            const zoneColor = getZoneColor(zoneIndex);
+          {/* Scrollable Content */}
+          <div 
+            ref={scrollContentRef}
+            style={{
+              width: `${slotsInDay * columnWidth}px`,
+              position: 'relative',
+              transform: `translateX(-${scrollLeft}px)`,
+              transition: 'transform 0.1s ease-out'
+            }}
+          >
+            {zones.map((zone, zoneIndex) => {
+              const zoneData = alignedGridByZone[zone.id] || [];
+              const isHome = zone.isHome || false;
+              const zoneColor = getZoneColor(zoneIndex);
 
-            return (
-              <div
-                key={zone.id}
-                data-zone-id={zone.id}
-                className={cn(
-                  "border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50/50 dark:hover:bg-gray-800/50 transition-all duration-200 relative",
-                  isHome && "bg-blue-50/30 dark:bg-blue-900/10 border-blue-200/50 dark:border-blue-800/30"
-                )}
-              >
-                {/* Color Connection Strip */}
+              return (
                 <div
+                  key={zone.id}
+                  data-zone-id={zone.id}
                   className={cn(
-                    "absolute left-0 top-0 bottom-0 w-1 opacity-60 transition-all duration-200",
-                    zoneColor
+                    "border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50/50 dark:hover:bg-gray-800/50 transition-all duration-200 relative",
+                    isHome && "bg-blue-50/30 dark:bg-blue-900/10 border-blue-200/50 dark:border-blue-800/30"
                   )}
-                  data-zone-color={zoneColor}
-                />
-                {/* Time Slots - Full Width */}
-                <div className="ml-1">
-                  <div className="flex">
-                    {zoneData.map((slot, hourIndex) => {
-                      const period = getTimePeriod(slot.localTime.hour(), zone.country);
-                      const periodIcon = getPeriodIcon(period, zone.country);
-                      const periodColor = getPeriodColor(period);
-
-                      return (
-                        <div
-                          key={hourIndex}
-                          className={cn(
-                            "w-18 p-2 h-16 border-r border-gray-200 dark:border-gray-700 cursor-pointer transition-all duration-200 text-center relative",
-                            selectedTime &&
-                              slot.localTime.year() === moment(selectedTime).year() &&
-                              slot.localTime.month() === moment(selectedTime).month() &&
-                              slot.localTime.date() === moment(selectedTime).date() &&
-                              slot.localTime.hour() === moment(selectedTime).hour()
-                              ? [
-                                  "bg-blue-500 text-white border-blue-700",
-                                  "ring-2 ring-blue-400",
-                                ]
-                              : (selectedPeriod && slot.homeHour === highlightedHour)
+                >
+                  {/* Color Connection Strip */}
+                  <div
+                    className={cn(
+                      "absolute left-0 top-0 bottom-0 w-1 opacity-60 transition-all duration-200",
+                      zoneColor
+                    )}
+                    data-zone-color={zoneColor}
+                  />
+                  {/* Time Slots - Full Width */}
+                  <div className="ml-1">
+                    <div className="flex">
+                      {zoneData.map((slot, slotIndex) => {
+                        const period = getTimePeriod(slot.localTime.hour(), zone.country);
+                        const periodIcon = getPeriodIcon(period, zone.country);
+                        const periodColor = getPeriodColor(period);
+                        const cellStart = slot.localTime.toDate();
+                        const cellEnd = slot.localTime.clone().add(slotMinutes, 'minutes').toDate();
+                        const isSelectedTime = selectedTime !== null && cellStart <= selectedTime && selectedTime < cellEnd;
+                        const isInSelection =
+                          selectionBounds !== null && slotIndex >= selectionBounds.first && slotIndex <= selectionBounds.last;
+                        const isDropTarget =
+                          meetingDrag !== null && meetingDrag.target !== meetingDrag.origin && slotIndex === meetingDrag.target;
+                        const pollCandidateIndex = pollCandidates.findIndex(
+                          (candidate) => cellStart < candidate.end && cellEnd > candidate.start
+                        );
+                        const suggestionIndex = suggestedSlots.findIndex(
+                          (suggestion) => cellStart < suggestion.end && cellEnd > suggestion.start
+                        );
+                        const comfort = getZoneComfort(zone, slot.localTime, workingHoursStart, workingHoursEnd);
+
+                        return (
+                          <div
+                            key={slotIndex}
+                            className={cn(
+                              "h-16 border-r border-gray-200 dark:border-gray-700 cursor-pointer transition-all duration-200 text-center relative select-none",
+                              slotMinutes === 60 ? "p-2" : "px-0.5 py-2",
+                              isSelectedTime
                                 ? [
                                     "bg-blue-500 text-white border-blue-700",
                                     "ring-2 ring-blue-400",
                                   ]
-                                : [
-                                    "bg-white dark:bg-gray-900",
-                                    "border-gray-200 dark:border-gray-700",
-                                  ],
-                            slot.isDifferentDay && [
-                              "ring-1 ring-orange-400/30",
-                            ]
-                          )}
-                          style={{ width: '72px' }}
-                          onClick={() => handleTimeSlotClick(slot.localTime)}
-                        >
-                          {/* Time Display */}
-                          <div className={cn(
-                            "text-xs font-medium mb-0.5",
-                            slot.isWorkingHour && "text-green-700 dark:text-green-300"
-                          )}>
-                            {slot.localTime.format(is24HourFormat ? 'HH:mm' : 'hh:mm A')}
-                          </div>
-                          {/* Period Indicator */}
-                          <div className="flex items-center justify-center gap-1 mb-1">
-                            <span className="text-[10px] opacity-60">{periodIcon}</span>
-                            <span className={cn(
-                              "text-[10px] font-medium",
-                              periodColor
+                                : isInSelection
+                                ? [
+                                    "bg-blue-100 dark:bg-blue-900/40 text-blue-900 dark:text-blue-100",
+                                    "ring-1 ring-inset ring-blue-400",
+                                  ]
+                                : pollCandidateIndex >= 0
+                                ? [
+                                    "bg-amber-50 dark:bg-amber-900/20",
+                                    "ring-2 ring-inset ring-amber-400",
+                                  ]
+                                : (!isAutoHighlight && slot.homeHour === highlightedHour)
+                                  ? [
+                                      "bg-blue-500 text-white border-blue-700",
+                                      "ring-2 ring-blue-400",
+                                    ]
+                                  : suggestionIndex >= 0
+                                    ? [
+                                        "bg-emerald-50 dark:bg-emerald-900/20",
+                                        "ring-2 ring-inset ring-emerald-400",
+                                      ]
+                                    : [
+                                        showHeatmap
+                                          ? getComfortColor(comfort)
+                                          : slot.holiday
+                                            ? "bg-purple-50 dark:bg-purple-900/20"
+                                            : "bg-white dark:bg-gray-900",
+                                        "border-gray-200 dark:border-gray-700",
+                                      ],
+                              slot.isDifferentDay && [
+                                "ring-1 ring-orange-400/30",
+                              ],
+                              slot.holiday && "border-b-2 border-b-purple-400",
+                              slot.dstTransition && "border-l-2 border-l-amber-500",
+                              isDropTarget && "ring-2 ring-inset ring-red-400"
+                            )}
+                            style={{ width: `${columnWidth}px` }}
+                            title={
+                              [
+                                pollCandidateIndex >= 0 && `Poll option #${pollCandidateIndex + 1}`,
+                                suggestionIndex >= 0 && `Suggested slot #${suggestionIndex + 1}`,
+                                slot.holiday && `Holiday: ${slot.holiday.name}`,
+                                slot.dstTransition && describeDstTransition(slot.dstTransition),
+                              ...slot.eventBands.map(
+                                (band) =>
+                                  `Busy: ${band.event.title} (${moment(band.event.start).tz(zone.iana).format("HH:mm")}–${moment(band.event.end).tz(zone.iana).format("HH:mm")})`
+                              ),
+                                slot.isOffsetFromHome &&
+                                  `${zone.name} is ${formatUtcOffset(slot.localTime.utcOffset())}: local hours start at :${slot.localTime.format("mm")}`,
+                              ].filter(Boolean).join("\n") || undefined
+                            }
+                            onMouseDown={(e) => handleSlotMouseDown(slotIndex, e)}
+                            onMouseEnter={() => handleSlotMouseEnter(slotIndex)}
+                          >
+                            {/* Time Display */}
+                            <div className={cn(
+                              "text-xs font-medium mb-0.5",
+                              showWorkingHours && slot.isWorkingHour && "text-green-700 dark:text-green-300"
                             )}>
-                              {period.toUpperCase()}
-                            </span>
-                          </div>
-                          {/* Meeting Indicators */}
-                          {slot.meetings && slot.meetings.length > 0 && (
-  <div className="flex justify-center gap-1 mb-1">
-    {slot.meetings.slice(0, 3).map((meeting: any, idx: number) => (
-      <div
-        key={idx}
-        className="w-2 h-2 rounded-full bg-red-500 shadow-sm cursor-pointer"
-        title={`Meeting: ${meeting.title}`}
-        onClick={e => {
-          e.stopPropagation();
-          handleMeetingClick(meeting, slot.localTime);
-        }}
-      />
-    ))}
-    {slot.meetings.length > 3 && (
-      <div className="text-xs text-red-600 dark:text-red-400 font-medium">
-        +{slot.meetings.length - 3}
-      </div>
-    )}
-  </div>
-)}
-                          {/* Day Change Indicator */}
-                          {slot.isDifferentDay && (
-                            <div className="text-xs text-orange-600 dark:text-orange-400 mt-1">
-                              {slot.localTime.format("MMM DD")}
+                              {!slot.isOffsetFromHome ? (
+                                slot.localTime.format(is24HourFormat ? 'HH:mm' : 'hh:mm A')
+                              ) : (
+                                <>
+                                  {slot.localTime.format(is24HourFormat ? 'HH' : 'hh')}
+                                  <span className="text-amber-600 dark:text-amber-400">:{slot.localTime.format('mm')}</span>
+                                  {!is24HourFormat && ` ${slot.localTime.format('A')}`}
+                                </>
+                              )}
+                            </div>
+                            {/* Period Indicator */}
+                            <div className="flex items-center justify-center gap-1 mb-1">
+                              <span className="text-[10px] opacity-60">{periodIcon}</span>
+                              {slotMinutes === 60 && (
+                                <span className={cn(
+                                  "text-[10px] font-medium",
+                                  periodColor
+                                )}>
+                                  {period.toUpperCase()}
+                                </span>
+                              )}
                             </div>
-                          )}
-                          {/* Working Hours Indicator */}
-                          {slot.isWorkingHour && (
-                            <div className="w-1 h-1 bg-green-400 rounded-full mx-auto mt-1"></div>
-                          )}
-                        </div>
-                      );
-                    })}
+                            {/* Meeting Indicators */}
+                            {slot.meetings && slot.meetings.length > 0 && (
+    <div className="flex justify-center gap-1 mb-1">
+      {slot.meetings.slice(0, 3).map((meeting) => (
+        <div
+          key={meeting.id}
+          className={cn(
+            "w-2 h-2 rounded-full bg-red-500 shadow-sm cursor-grab",
+            meetingDrag?.meeting.id === meeting.id && "opacity-50 cursor-grabbing"
+          )}
+          title={`Meeting: ${meeting.title}\nClick to edit, drag to reschedule`}
+          onMouseDown={e => handleMeetingMouseDown(meeting, slotIndex, e)}
+        />
+      ))}
+      {slot.meetings.length > 3 && (
+        <div className="text-xs text-red-600 dark:text-red-400 font-medium">
+          +{slot.meetings.length - 3}
+        </div>
+      )}
+    </div>
+  )}
+                            {/* Day Change Indicator */}
+                            {slot.isDifferentDay && (
+                              <div className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                                {slot.localTime.format("MMM DD")}
+                              </div>
+                            )}
+                            {/* DST Change Indicator */}
+                            {slot.dstTransition && (
+                              <div className="text-[9px] leading-tight font-semibold text-amber-600 dark:text-amber-400">
+                                DST {slot.dstTransition.offsetAfter > slot.dstTransition.offsetBefore ? '+' : '−'}
+                                {Math.abs(slot.dstTransition.offsetAfter - slot.dstTransition.offsetBefore) / 60}h
+                              </div>
+                            )}
+                            {/* Holiday Indicator */}
+                            {slot.holiday && (
+                              <div className="text-[9px] leading-tight text-purple-600 dark:text-purple-400 truncate">
+                                {slot.holiday.name}
+                              </div>
+                            )}
+                            {/* Working Hours Indicator */}
+                            {showWorkingHours && slot.isWorkingHour && (
+                              <div className="w-1 h-1 bg-green-400 rounded-full mx-auto mt-1"></div>
+                            )}
+                            {/* Calendar Busy Bands */}
+                            {slot.eventBands.map((band) => (
+                              <span
+                                key={`${band.event.calendarId}-${band.event.id}`}
+                                className="absolute bottom-0 h-1.5 opacity-80"
+                                style={{ left: `${band.left}%`, width: `${band.width}%`, backgroundColor: band.event.color }}
+                              />
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
                 </div>
-              </div>
-            );
-          })}
+              );
+            })}
 
-          {zones.length === 0 && (
-            <div className="flex items-center justify-center py-16 text-gray-500 dark:text-gray-400">
-              <div className="text-center">
-                <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <p className="text-lg font-medium">No time zones added</p>
-                <p className="text-sm mt-1 opacity-60">
-                  Add time zones to see the comparison grid
-                </p>
+            {zones.length === 0 && (
+              <div className="flex items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+                <div className="text-center">
+                  <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p className="text-lg font-medium">No time zones added</p>
+                  <p className="text-sm mt-1 opacity-60">
+                    Add time zones to see the comparison grid
+                  </p>
+                </div>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
     {/* Meeting Modal */}
     {isMeetingModalOpen && selectedMeetingTime && (
       <MeetingModal
         selectedTime={selectedMeetingTime}
+        selectedEndTime={selectedMeetingEndTime || undefined}
+        meeting={selectedMeeting || undefined}
         timezones={zones}
         onCreateMeeting={() => {}}
         onClose={handleCloseMeetingModal}
         defaultMeetingDuration={60}
       />
     )}
+    {/* Poll Modal */}
+    {(isPollDraftOpen || openPollId) && (
+      <PollModal
+        pollId={openPollId || undefined}
+        candidates={pollCandidates}
+        onCreated={(poll) => {
+          stopPickingPollTimes();
+          setIsPollDraftOpen(false);
+          setOpenPollId(poll.id);
+        }}
+        onClose={() => {
+          setIsPollDraftOpen(false);
+          setOpenPollId(null);
+        }}
+      />
+    )}
   </div>
   );
 };
@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from "react";
-import { Plus, X, GripVertical, Search, AlertCircle, Home, Star, Clock } from "lucide-react";
+import { Plus, X, GripVertical, Search, AlertCircle, Home, Star, Clock, Briefcase } from "lucide-react";
 import { DragDropContext, Droppable, Draggable } from "react-beautiful-dnd";
 import { cn } from "../utils";
 import { useZones } from "../context/ZonesContext";
-import { timezoneData } from "../data/timezones";
 import { getTimezoneDisplayData } from "../utils/timezoneUtils";
 import { DateTime } from "luxon";
 import { COUNTRY_FLAGS } from "../utils/timezone";
+import { getZoneSchedule, formatSchedule, hourToTimeString } from "../utils/workingHours";
+import { getUpcomingHolidays } from "../utils/holidays";
+import { getNextDstTransition, describeDstTransition, formatUtcOffset } from "../utils/dst";
+import { searchCities, CitySearchResult } from "../utils/citySearch";
+import { WorkingSchedule } from "../types";
+import ZoneScheduleEditor from "./ZoneScheduleEditor";
 
 // Color generation function to match TimeSlider row colors
 const getZoneColor = (index: number): string => {
@@ -25,23 +30,34 @@ const getZoneColor = (index: number): string => {
   return colors[index % colors.length];
 };
 
-const TimeZoneManager: React.FC = () => {
-  const { zones, addZone, removeZone, reorderZones, setHomeCountry, error, clearError } = useZones();
+interface TimeZoneManagerProps {
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+}
+
+const TimeZoneManager: React.FC<TimeZoneManagerProps> = ({
+  workingHoursStart = 9,
+  workingHoursEnd = 17,
+}) => {
+  const { zones, addZone, updateZone, removeZone, reorderZones, setHomeCountry, error, clearError } = useZones();
   const [searchTerm, setSearchTerm] = useState("");
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [showHomeDialog, setShowHomeDialog] = useState<string | null>(null);
+  const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
 
-  const filteredTimezones = timezoneData
-    .filter(
-      (tz) =>
-        tz.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        tz.label.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        tz.country.toLowerCase().includes(searchTerm.toLowerCase())
-    )
-    .filter((tz) => !zones.some((existing) => existing.iana === tz.iana));
+  const filteredTimezones = searchCities(searchTerm, 20).filter(
+    (result) => !zones.some((existing) => existing.iana === result.iana)
+  );
 
-  const handleAddTimezone = (timezone: Omit<import("../types").TimeZone, "id">) => {
-    addZone(timezone);
+  const handleAddTimezone = (result: CitySearchResult) => {
+    addZone({
+      name: result.name,
+      iana: result.iana,
+      label: result.label,
+      country: result.country,
+      countryCode: result.countryCode,
+      flag: result.flag,
+    });
     setSearchTerm("");
     setIsSearchOpen(false);
   };
@@ -74,6 +90,14 @@ const TimeZoneManager: React.FC = () => {
     setShowHomeDialog(null);
   };
 
+  const handleSaveSchedule = (schedule: WorkingSchedule | undefined) => {
+    const timezone = zones.find(z => z.id === editingScheduleId);
+    if (timezone) {
+      updateZone({ ...timezone, workSchedule: schedule });
+    }
+    setEditingScheduleId(null);
+  };
+
   // Handle hover effects for visual connection with TimeSlider
   const handleZoneHover = (zoneId: string, isHovering: boolean) => {
     // Find all time slot rows in TimeSlider and apply hover effect
@@ -199,11 +223,12 @@ const TimeZoneManager: React.FC = () => {
               <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto timezone-scroll">
                 {filteredTimezones.length > 0 ? (
                   filteredTimezones.slice(0, 10).map((timezone) => {
-                    const countryFlag = COUNTRY_FLAGS[timezone.country] || "🌍";
+                    const countryFlag = COUNTRY_FLAGS[timezone.country] || timezone.flag;
+                    const offset = formatUtcOffset(DateTime.now().setZone(timezone.iana).offset);
 
                     return (
                       <button
-                        key={timezone.iana}
+                        key={`${timezone.iana}-${timezone.name}`}
                         onClick={() => handleAddTimezone(timezone)}
                         title={`Add ${timezone.name} timezone`}
                         className={cn(
@@ -225,6 +250,11 @@ const TimeZoneManager: React.FC = () => {
                               )}
                             >
                               {timezone.name}
+                              {timezone.matchedAlias && (
+                                <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                                  · {timezone.matchedAlias}
+                                </span>
+                              )}
                             </div>
                             <div
                               className={cn(
@@ -232,7 +262,13 @@ const TimeZoneManager: React.FC = () => {
                                 "text-gray-500 dark:text-gray-400"
                               )}
                             >
-                              {timezone.label} • {timezone.country}
+                              {timezone.label === timezone.country
+                                ? timezone.country
+                                : `${timezone.label} • ${timezone.country}`}
+                              {" • "}
+                              {timezone.abbreviations.length > 0
+                                ? `${timezone.abbreviations.join("/")} (${offset})`
+                                : offset}
                             </div>
                           </div>
                         </div>
@@ -287,6 +323,19 @@ const TimeZoneManager: React.FC = () => {
                   // Determine if this is the home timezone
                   const isHome = timezone.isHome || index === 0;
                   const tzDisplay = getTimezoneDisplayData(timezone, DateTime.now());
+                  const schedule = getZoneSchedule(timezone, workingHoursStart, workingHoursEnd);
+                  const upcomingHolidays = getUpcomingHolidays(timezone, 7);
+                  const nextHoliday = upcomingHolidays[0];
+                  const isHolidayToday = nextHoliday?.date === tzDisplay.currentTime.toFormat("yyyy-MM-dd");
+                  const nextClockChange = getNextDstTransition(timezone.iana, 14);
+                  const daysUntilClockChange = nextClockChange
+                    ? Math.ceil(
+                        DateTime.fromJSDate(nextClockChange.at)
+                          .setZone(timezone.iana)
+                          .startOf("day")
+                          .diff(tzDisplay.currentTime.startOf("day"), "days").days
+                      )
+                    : null;
 
                   return (
                     <Draggable
@@ -395,6 +444,23 @@ const TimeZoneManager: React.FC = () => {
                                       HOME
                                     </span>
                                   )}
+                                  {nextHoliday && (
+                                    <span
+                                      className={cn(
+                                        "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium truncate",
+                                        isHolidayToday
+                                          ? "bg-purple-600 text-white"
+                                          : "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300"
+                                      )}
+                                      title={upcomingHolidays
+                                        .map((holiday) => `${DateTime.fromISO(holiday.date).toFormat("ccc d LLL")}: ${holiday.name}`)
+                                        .join("\n")}
+                                    >
+                                      {isHolidayToday
+                                        ? nextHoliday.name
+                                        : `${nextHoliday.name} • ${DateTime.fromISO(nextHoliday.date).toFormat("ccc")}`}
+                                    </span>
+                                  )}
                                 </div>
                                 <div
                                   className={cn(
@@ -409,10 +475,42 @@ const TimeZoneManager: React.FC = () => {
                                 <div className="text-xs text-gray-400 dark:text-gray-500 mt-1">
                                   Current: {tzDisplay.currentTime.toFormat("HH:mm")} • {tzDisplay.offsetDisplay}
                                 </div>
+                                <div
+                                  className={cn(
+                                    "text-xs mt-0.5",
+                                    timezone.workSchedule
+                                      ? "text-green-700 dark:text-green-400"
+                                      : "text-gray-400 dark:text-gray-500"
+                                  )}
+                                >
+                                  {formatSchedule(schedule)}
+                                  {schedule.lunchBreak &&
+                                    ` • lunch ${hourToTimeString(schedule.lunchBreak.start)}–${hourToTimeString(schedule.lunchBreak.end)}`}
+                                </div>
+                                {nextClockChange && daysUntilClockChange !== null && (
+                                  <div
+                                    className="flex items-center gap-1 text-xs mt-0.5 text-amber-700 dark:text-amber-400"
+                                    title={`${describeDstTransition(nextClockChange)} on ${DateTime.fromJSDate(nextClockChange.at)
+                                      .setZone(timezone.iana)
+                                      .toFormat("ccc d LLL, HH:mm")}`}
+                                  >
+                                    <Clock className="w-3 h-3" />
+                                    {daysUntilClockChange <= 0
+                                      ? "Clocks change today"
+                                      : `Clocks change in ${daysUntilClockChange} ${daysUntilClockChange === 1 ? "day" : "days"}`}
+                                  </div>
+                                )}
                               </div>
                             </div>
 
                             <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => setEditingScheduleId(timezone.id)}
+                                className="p-2 text-gray-400 hover:text-green-600 dark:hover:text-green-400 rounded-md hover:bg-green-50 dark:hover:bg-green-900/20 transition-colors"
+                                title="Edit working hours"
+                              >
+                                <Briefcase className="w-4 h-4" />
+                              </button>
                               {!isHome && (
                                 <button
                                   onClick={() => handleSetAsHome(timezone)}
@@ -443,6 +541,22 @@ const TimeZoneManager: React.FC = () => {
         </DragDropContext>
       </div>
 
+      {/* Working Hours Editor */}
+      {editingScheduleId && (() => {
+        const timezone = zones.find(z => z.id === editingScheduleId);
+        if (!timezone) return null;
+
+        return (
+          <ZoneScheduleEditor
+            zone={timezone}
+            workingHoursStart={workingHoursStart}
+            workingHoursEnd={workingHoursEnd}
+            onSave={handleSaveSchedule}
+            onCancel={() => setEditingScheduleId(null)}
+          />
+        );
+      })()}
+
       {/* Home Country Confirmation Dialog */}
       {showHomeDialog && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
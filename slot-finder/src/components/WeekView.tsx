@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo } from "react";
+import moment from "moment-timezone";
+import { cn } from "../utils";
+import { useZones } from "../context/ZonesContext";
+import { useMeetings } from "../context/MeetingsContext";
+import { useAuthContext } from "../context/AuthContext";
+import { useCalendar } from "../hooks/useCalendar";
+import { useCalendars } from "../context/CalendarsContext";
+import { buildWeekGrid, WeekGridHour } from "../utils/weekGrid";
+import { calendarEventsToGridEvents, meetingsToGridEvents } from "../utils/calendarEvents";
+
+interface WeekViewProps {
+  weekStart: string; // YYYY-MM-DD, first day shown
+  referenceTimezone: string;
+  workingHoursStart: number;
+  workingHoursEnd: number;
+  is24HourFormat: boolean;
+  onHourClick: (date: string, hour: number) => void;
+}
+
+const HOUR_LABELS = [0, 3, 6, 9, 12, 15, 18, 21];
+
+const WeekView: React.FC<WeekViewProps> = ({
+  weekStart,
+  referenceTimezone,
+  workingHoursStart,
+  workingHoursEnd,
+  is24HourFormat,
+  onHourClick,
+}) => {
+  const { zones } = useZones();
+  const { meetings } = useMeetings();
+  const { isSignedIn } = useAuthContext();
+  const { events, fetchEvents } = useCalendar();
+  const { selectedCalendarIds, getCalendarColor } = useCalendars();
+
+  // Signed out, this loads only the calendar feeds
+  useEffect(() => {
+    const start = moment.tz(weekStart, "YYYY-MM-DD", referenceTimezone);
+    fetchEvents(start.toDate(), start.clone().add(7, "days").toDate(), selectedCalendarIds).catch(() => {
+      // The grid still shows local meetings when the calendar can't be reached
+    });
+  }, [isSignedIn, weekStart, referenceTimezone, fetchEvents, selectedCalendarIds]);
+
+  const weekEvents = useMemo(
+    () => [...meetingsToGridEvents(meetings), ...calendarEventsToGridEvents(events, getCalendarColor)],
+    [meetings, events, getCalendarColor]
+  );
+
+  const week = useMemo(
+    () => buildWeekGrid(zones, referenceTimezone, weekStart, weekEvents, workingHoursStart, workingHoursEnd),
+    [zones, referenceTimezone, weekStart, weekEvents, workingHoursStart, workingHoursEnd]
+  );
+
+  const getOverlapColor = (hour: WeekGridHour) => {
+    if (zones.length === 0 || hour.workingZoneIds.length === 0) return "bg-gray-100 dark:bg-gray-800";
+    if (hour.workingZoneIds.length === zones.length) return "bg-green-500";
+    return hour.workingZoneIds.length / zones.length >= 0.5 ? "bg-green-300 dark:bg-green-700" : "bg-green-100 dark:bg-green-900/40";
+  };
+
+  const describeHour = (hour: WeekGridHour) => {
+    const homeTime = moment(hour.start).tz(referenceTimezone);
+    return [
+      `${homeTime.format(is24HourFormat ? "ddd HH:mm" : "ddd h:mm A")} • ${hour.workingZoneIds.length}/${zones.length} zones working`,
+      ...zones.map((zone) => {
+        const local = moment(hour.start).tz(zone.iana).format(is24HourFormat ? "ddd HH:mm" : "ddd h:mm A");
+        const status = hour.holidayZoneIds.includes(zone.id)
+          ? "holiday"
+          : hour.workingZoneIds.includes(zone.id)
+            ? "working"
+            : "off";
+        return `${zone.name}: ${local} (${status})`;
+      }),
+      ...hour.events.map((event) => `${event.source === "calendar" ? "Calendar" : "Meeting"}: ${event.title}`),
+    ].join("\n");
+  };
+
+  if (zones.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+        Add time zones to see the week
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto p-4 space-y-3">
+      {/* Home-zone hour scale */}
+      <div className="flex items-end pl-[7.5rem] text-[10px] text-gray-500 dark:text-gray-400">
+        {HOUR_LABELS.map((hour) => (
+          <span key={hour} className="flex-1">
+            {is24HourFormat ? `${String(hour).padStart(2, "0")}:00` : moment({ hour }).format("h A")}
+          </span>
+        ))}
+      </div>
+
+      {week.map((day) => {
+        const dayMoment = moment(day.date, "YYYY-MM-DD");
+        const isToday = moment.tz(referenceTimezone).format("YYYY-MM-DD") === day.date;
+
+        return (
+          <div key={day.date} className="rounded-lg border border-gray-200 dark:border-gray-700 p-2">
+            {/* Overlap heat strip */}
+            <div className="flex items-center gap-2">
+              <div className="w-28 flex-shrink-0 text-xs">
+                <div className={cn("font-semibold", isToday && "text-blue-600 dark:text-blue-400")}>
+                  {dayMoment.format("ddd MMM D")}
+                </div>
+                <div className="text-[10px] text-gray-500 dark:text-gray-400">
+                  {day.overlapHours > 0 ? `${day.overlapHours}h overlap` : "No full overlap"}
+                </div>
+              </div>
+              <div className="flex flex-1 h-5 rounded overflow-hidden">
+                {day.hours.map((hour) => (
+                  <button
+                    key={hour.start.getTime()}
+                    onClick={() => onHourClick(day.date, hour.homeHour)}
+                    title={describeHour(hour)}
+                    className={cn(
+                      "flex-1 relative border-r border-white/60 dark:border-gray-900/60 hover:opacity-75",
+                      getOverlapColor(hour)
+                    )}
+                  >
+                    {hour.events.length > 0 && (
+                      <span
+                        className="absolute left-0 right-0 bottom-0 h-1 bg-red-500"
+                        style={{ backgroundColor: hour.events.find((event) => event.source === "calendar")?.color }}
+                      />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Per-zone working strips */}
+            <div className="mt-1 space-y-0.5">
+              {zones.map((zone) => (
+                <div key={zone.id} className="flex items-center gap-2">
+                  <div className="w-28 flex-shrink-0 text-[10px] text-gray-600 dark:text-gray-300 truncate">
+                    {zone.isHome && "🏠 "}
+                    {zone.name}
+                  </div>
+                  <div className="flex flex-1 h-2">
+                    {day.hours.map((hour) => (
+                      <div
+                        key={hour.start.getTime()}
+                        className={cn(
+                          "flex-1",
+                          hour.holidayZoneIds.includes(zone.id)
+                            ? "bg-purple-300 dark:bg-purple-700"
+                            : hour.workingZoneIds.includes(zone.id)
+                              ? "bg-green-400 dark:bg-green-600"
+                              : "bg-gray-100 dark:bg-gray-800"
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-[10px] text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-3 h-2 bg-green-500 rounded-sm" /> Everyone working</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-2 bg-green-300 rounded-sm" /> Most zones working</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-2 bg-purple-300 rounded-sm" /> Holiday</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-1 bg-red-500" /> Meeting</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-1 bg-blue-600" /> Calendar event</span>
+      </div>
+    </div>
+  );
+};
+
+export default WeekView;
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { Briefcase } from "lucide-react";
+import { cn } from "../utils";
+import { TimeZone, WorkingSchedule } from "../types";
+import { getZoneSchedule, hourToTimeString, timeStringToHour } from "../utils/workingHours";
+
+interface ZoneScheduleEditorProps {
+  zone: TimeZone;
+  workingHoursStart: number;
+  workingHoursEnd: number;
+  onSave: (schedule: WorkingSchedule | undefined) => void;
+  onCancel: () => void;
+}
+
+const DAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const ZoneScheduleEditor: React.FC<ZoneScheduleEditorProps> = ({
+  zone,
+  workingHoursStart,
+  workingHoursEnd,
+  onSave,
+  onCancel,
+}) => {
+  const initialSchedule = getZoneSchedule(zone, workingHoursStart, workingHoursEnd);
+  const [start, setStart] = useState(hourToTimeString(initialSchedule.start));
+  const [end, setEnd] = useState(hourToTimeString(initialSchedule.end));
+  const [days, setDays] = useState<number[]>(initialSchedule.days);
+  const [hasLunchBreak, setHasLunchBreak] = useState(!!initialSchedule.lunchBreak);
+  const [lunchStart, setLunchStart] = useState(hourToTimeString(initialSchedule.lunchBreak?.start ?? 12));
+  const [lunchEnd, setLunchEnd] = useState(hourToTimeString(initialSchedule.lunchBreak?.end ?? 13));
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDay = (day: number) => {
+    setDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const handleSave = () => {
+    const schedule: WorkingSchedule = {
+      start: timeStringToHour(start),
+      end: timeStringToHour(end),
+      days,
+      ...(hasLunchBreak && {
+        lunchBreak: { start: timeStringToHour(lunchStart), end: timeStringToHour(lunchEnd) },
+      }),
+    };
+
+    if (schedule.end <= schedule.start) {
+      setError("End time must be after start time");
+      return;
+    }
+    if (schedule.days.length === 0) {
+      setError("Select at least one working day");
+      return;
+    }
+    if (
+      schedule.lunchBreak &&
+      (schedule.lunchBreak.end <= schedule.lunchBreak.start ||
+        schedule.lunchBreak.start < schedule.start ||
+        schedule.lunchBreak.end > schedule.end)
+    ) {
+      setError("Lunch break must fall inside working hours");
+      return;
+    }
+
+    onSave(schedule);
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 max-w-md w-full mx-4 p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="flex items-center justify-center w-12 h-12 bg-gradient-to-br from-green-500 to-emerald-500 rounded-xl">
+            <Briefcase className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">Working Hours</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {zone.name} • {zone.label}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Start
+              <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={cn(inputClassName, "mt-1")} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              End
+              <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={cn(inputClassName, "mt-1")} />
+            </label>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Working days</span>
+            <div className="flex gap-2">
+              {DAY_INITIALS.map((initial, day) => (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  title={DAY_NAMES[day]}
+                  aria-pressed={days.includes(day)}
+                  className={cn(
+                    "w-9 h-9 rounded-full text-sm font-medium transition-colors",
+                    days.includes(day)
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  )}
+                >
+                  {initial}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={hasLunchBreak}
+                onChange={(e) => setHasLunchBreak(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Lunch break
+            </label>
+            {hasLunchBreak && (
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                <input type="time" value={lunchStart} onChange={(e) => setLunchStart(e.target.value)} className={inputClassName} />
+                <input type="time" value={lunchEnd} onChange={(e) => setLunchEnd(e.target.value)} className={inputClassName} />
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => onSave(undefined)}
+            className="px-4 py-3 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            title="Use the global working hours and the country's work week"
+          >
+            Use defaults
+          </button>
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-3 text-sm font-semibold text-white bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 rounded-xl transition-all duration-200 shadow-lg"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ZoneScheduleEditor;
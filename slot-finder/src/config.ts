@@ -2,7 +2,12 @@
 // It's committed to version control for development purposes
 
 export const config = {
-  googleClientId: '680531297280-i7fm04gn69vsd6n3qfkrrea4c23grggb.apps.googleusercontent.com'
+  googleClientId: '680531297280-i7fm04gn69vsd6n3qfkrrea4c23grggb.apps.googleusercontent.com',
+  // Azure app registration for Outlook calendars; Microsoft sign-in is hidden while empty
+  microsoftClientId: '',
+  // Sign in to Google through the Chrome profile (chrome.identity.getAuthToken)
+  // whenever manifest.json has a real oauth2 client ID; PKCE is used otherwise
+  useChromeIdentity: true
 } as const;
 
 export type Config = typeof config;
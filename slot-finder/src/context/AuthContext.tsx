@@ -1,5 +1,7 @@
-import React, { createContext, useContext, ReactNode } from 'react';
-import { useAuth } from '../hooks/useAuth';
+import React, { createContext, useContext, useRef, useState, ReactNode } from 'react';
+import { useAuth, AuthAccount } from '../hooks/useAuth';
+import { ACCESS_TIERS, CalendarAccess, CalendarAuth, CalendarProviderId, ScopeTier } from '../lib/calendarProvider';
+import ConsentDialog from '../components/ConsentDialog';
 
 interface GoogleUser {
   id: string;
@@ -14,16 +16,75 @@ interface AuthContextType {
   isLoading: boolean;
   error: string | null;
   token: string | null;
-  signIn: () => Promise<boolean>;
-  signOut: () => Promise<void>;
+  provider: CalendarProviderId; // Who issued the token and holds the calendars
+  accounts: AuthAccount[]; // Every signed-in account, the active one included
+  activeAccountId: string | null;
+  signIn: (provider?: CalendarProviderId) => Promise<boolean>; // Adds an account and makes it active
+  signOut: () => Promise<void>; // Signs out of every account
+  switchAccount: (accountId: string) => Promise<void>;
+  removeAccount: (accountId: string) => Promise<void>;
+  getAccountAuth: (accountId: string) => Promise<CalendarAuth | null>;
+  hasAccess: (access: CalendarAccess) => boolean; // Whether the active account granted it
+  // Explains and asks for the scopes behind an access the active account
+  // hasn't granted yet; resolves once the user is done, true if granted
+  requestAccess: (access: CalendarAccess) => Promise<boolean>;
   checkAuthStatus: () => Promise<boolean>;
   refreshToken: () => Promise<string | null>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Callers waiting on the consent dialog, with the access each needs
+interface ConsentRequest {
+  tier: Exclude<ScopeTier, 'profile'>;
+  account: AuthAccount;
+  waiting: { access: CalendarAccess; resolve: (granted: boolean) => void }[];
+}
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const auth = useAuth();
+  const [consent, setConsent] = useState<ConsentRequest | null>(null);
+  // The open request, read by callers arriving before the next render
+  const consentRef = useRef<ConsentRequest | null>(null);
+  // Latest account seen by the dialog, so waiting callers get what was granted
+  const consentAccountRef = useRef<AuthAccount | null>(null);
+
+  const hasAccess = (access: CalendarAccess) => !!auth.activeAccount?.access[access];
+
+  const requestAccess = (access: CalendarAccess): Promise<boolean> => {
+    const account = auth.activeAccount;
+    if (!account) return Promise.resolve(false);
+    if (account.access[access]) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+      const tier = ACCESS_TIERS[access];
+      const open = consentRef.current;
+      // Several features can ask for the same tier at once; one dialog answers them all
+      if (open && open.tier === tier) {
+        open.waiting.push({ access, resolve });
+        return;
+      }
+
+      open?.waiting.forEach(waiter => waiter.resolve(false));
+      consentAccountRef.current = account;
+      consentRef.current = { tier, account, waiting: [{ access, resolve }] };
+      setConsent(consentRef.current);
+    });
+  };
+
+  const handleAllow = async () => {
+    if (!consent) return null;
+    const updated = await auth.grantScopes(consent.tier, consent.account.id);
+    if (updated) consentAccountRef.current = updated;
+    return updated;
+  };
+
+  const handleConsentClose = () => {
+    const account = consentAccountRef.current;
+    consentRef.current?.waiting.forEach(waiter => waiter.resolve(!!account?.access[waiter.access]));
+    consentRef.current = null;
+    setConsent(null);
+  };
 
   return (
     <AuthContext.Provider value={{
@@ -32,12 +93,29 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       isLoading: auth.isLoading,
       error: auth.error,
       token: auth.token,
+      provider: auth.provider,
+      accounts: auth.accounts,
+      activeAccountId: auth.activeAccountId,
       signIn: auth.signIn,
       signOut: auth.signOut,
+      switchAccount: auth.switchAccount,
+      removeAccount: auth.removeAccount,
+      getAccountAuth: auth.getAccountAuth,
+      hasAccess,
+      requestAccess,
       checkAuthStatus: auth.checkAuthStatus,
       refreshToken: auth.refreshAccessToken || (async () => null)
     }}>
       {children}
+      {consent && (
+        <ConsentDialog
+          key={consent.account.id + consent.tier}
+          tier={consent.tier}
+          account={consent.account}
+          onAllow={handleAllow}
+          onClose={handleConsentClose}
+        />
+      )}
     </AuthContext.Provider>
   );
 };
@@ -0,0 +1,211 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { BusyInterval, CalendarFeed } from '../types';
+import type { CalendarEvent } from '../hooks/useCalendar';
+import { getCalendarErrorMessage } from '../lib/calendarProvider';
+import {
+  fetchFeedCalendar,
+  getFeedPassword,
+  normalizeFeedUrl,
+  removeFeedPassword,
+  requestFeedAccess,
+  saveFeedPassword,
+} from '../lib/calendarFeeds';
+import { expandICalendar, ICalendar, ICalOccurrence } from '../utils/ical';
+
+const FEEDS_KEY = 'app_calendar_feeds';
+// Feeds change rarely, so don't download them again on every day change
+const FEED_CACHE_MS = 5 * 60 * 1000;
+const FEED_COLORS = ['#8e24aa', '#f4511e', '#0b8043', '#c0ca33', '#039be5', '#d81b60'];
+
+export type NewCalendarFeed = Pick<CalendarFeed, 'name' | 'kind' | 'url' | 'username'> & { password?: string };
+
+interface CalendarFeedsContextType {
+  feeds: CalendarFeed[];
+  feedErrors: Record<string, string>; // Feeds that could not be read, keyed by id
+  lockedFeedIds: string[]; // CalDAV feeds whose app password is gone, e.g. after a browser restart
+  unlockFeed: (id: string, password: string) => Promise<void>;
+  addFeed: (feed: NewCalendarFeed) => Promise<boolean>;
+  removeFeed: (id: string) => void;
+  toggleFeed: (id: string) => void;
+  loadFeedEvents: (rangeStart: Date, rangeEnd: Date) => Promise<CalendarEvent[]>;
+  loadFeedBusy: (rangeStart: Date, rangeEnd: Date) => Promise<BusyInterval[]>;
+}
+
+const CalendarFeedsContext = createContext<CalendarFeedsContextType | undefined>(undefined);
+
+// Older versions saved the app password with the feed; it is moved to
+// session storage and dropped from the list, which is written back right away
+const loadSavedFeeds = (): CalendarFeed[] => {
+  try {
+    const saved = localStorage.getItem(FEEDS_KEY);
+    const feeds: (CalendarFeed & { password?: string })[] = saved ? JSON.parse(saved) : [];
+    return feeds.map(({ password, ...feed }) => {
+      if (password) saveFeedPassword(feed.id, password);
+      return feed;
+    });
+  } catch {
+    return [];
+  }
+};
+
+interface CalendarFeedsProviderProps {
+  children: React.ReactNode;
+}
+
+export const CalendarFeedsProvider: React.FC<CalendarFeedsProviderProps> = ({ children }) => {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>(loadSavedFeeds);
+  const [feedErrors, setFeedErrors] = useState<Record<string, string>>({});
+  const [lockedFeedIds, setLockedFeedIds] = useState<string[]>([]);
+  const cache = useRef(new Map<string, { fetchedAt: number; calendar: ICalendar }>());
+
+  useEffect(() => {
+    localStorage.setItem(FEEDS_KEY, JSON.stringify(feeds));
+  }, [feeds]);
+
+  const addFeed = useCallback(async (feed: NewCalendarFeed) => {
+    const url = normalizeFeedUrl(feed.url);
+    if (!(await requestFeedAccess(url))) return false;
+
+    const { password, ...details } = feed;
+    const id = `feed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (password) await saveFeedPassword(id, password);
+
+    setFeeds(prev => [
+      ...prev,
+      {
+        ...details,
+        url,
+        id,
+        color: FEED_COLORS[prev.length % FEED_COLORS.length],
+        enabled: true,
+      },
+    ]);
+    return true;
+  }, []);
+
+  const removeFeed = useCallback((id: string) => {
+    removeFeedPassword(id);
+    setFeeds(prev => prev.filter(feed => feed.id !== id));
+    setFeedErrors(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const toggleFeed = useCallback((id: string) => {
+    setFeeds(prev => prev.map(feed => (feed.id === id ? { ...feed, enabled: !feed.enabled } : feed)));
+  }, []);
+
+  const unlockFeed = useCallback(async (id: string, password: string) => {
+    await saveFeedPassword(id, password);
+    cache.current.forEach((_, key) => {
+      if (key.startsWith(id)) cache.current.delete(key);
+    });
+    // A new list makes the open views read the feeds again, now with the password
+    setFeeds(prev => [...prev]);
+  }, []);
+
+  // Occurrences of every enabled feed; a feed that fails is reported and skipped
+  const loadOccurrences = useCallback(
+    async (rangeStart: Date, rangeEnd: Date) => {
+      const enabledFeeds = feeds.filter(feed => feed.enabled);
+      const passwords = await Promise.all(
+        enabledFeeds.map(feed => (feed.kind === 'caldav' && feed.username ? getFeedPassword(feed.id) : ''))
+      );
+      const locked = enabledFeeds.filter((_, index) => passwords[index] === null).map(feed => feed.id);
+      setLockedFeedIds(prev => (prev.join() === locked.join() ? prev : locked));
+
+      const results = await Promise.allSettled(
+        enabledFeeds.map(async (feed, index) => {
+          const password = passwords[index];
+          if (password === null) throw new Error('Enter the app password to read this calendar again.');
+
+          // An ICS feed is the same whatever the range; CalDAV answers per range
+          const key = feed.kind === 'ics' ? feed.id : `${feed.id}:${rangeStart.getTime()}:${rangeEnd.getTime()}`;
+          const cached = cache.current.get(key);
+          let calendar = cached && Date.now() - cached.fetchedAt < FEED_CACHE_MS ? cached.calendar : null;
+          if (!calendar) {
+            calendar = await fetchFeedCalendar(feed, rangeStart, rangeEnd, password);
+            cache.current.set(key, { fetchedAt: Date.now(), calendar });
+          }
+          return { feed, occurrences: expandICalendar(calendar, rangeStart, rangeEnd) };
+        })
+      );
+
+      const errors: Record<string, string> = {};
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          const { id } = enabledFeeds[index];
+          if (locked.includes(id)) {
+            errors[id] = result.reason.message;
+            return;
+          }
+          console.warn('Calendar feed could not be read:', result.reason);
+          errors[id] = getCalendarErrorMessage(result.reason, 'Could not read this calendar.');
+        }
+      });
+      setFeedErrors(errors);
+
+      return results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    },
+    [feeds]
+  );
+
+  // All-day events don't block any hour, as with account calendars
+  const loadFeedEvents = useCallback(
+    async (rangeStart: Date, rangeEnd: Date): Promise<CalendarEvent[]> =>
+      (await loadOccurrences(rangeStart, rangeEnd)).flatMap(({ feed, occurrences }) =>
+        occurrences
+          .filter((occurrence: ICalOccurrence) => !occurrence.isAllDay)
+          .map(occurrence => ({
+            id: `${feed.id}:${occurrence.uid}:${occurrence.start.getTime()}`,
+            summary: occurrence.summary,
+            description: occurrence.description,
+            start: { dateTime: occurrence.start.toISOString(), timeZone: 'UTC' },
+            end: { dateTime: occurrence.end.toISOString(), timeZone: 'UTC' },
+            status: occurrence.status,
+            source: 'feed' as const,
+            calendarId: `feed:${feed.id}`,
+            color: feed.color,
+          }))
+      ),
+    [loadOccurrences]
+  );
+
+  const loadFeedBusy = useCallback(
+    async (rangeStart: Date, rangeEnd: Date): Promise<BusyInterval[]> =>
+      (await loadOccurrences(rangeStart, rangeEnd)).flatMap(({ occurrences }) =>
+        occurrences
+          .filter(occurrence => !occurrence.isAllDay && !occurrence.transparent && occurrence.status !== 'cancelled')
+          .map(occurrence => ({ start: occurrence.start, end: occurrence.end }))
+      ),
+    [loadOccurrences]
+  );
+
+  const value: CalendarFeedsContextType = {
+    feeds,
+    feedErrors,
+    lockedFeedIds,
+    unlockFeed,
+    addFeed,
+    removeFeed,
+    toggleFeed,
+    loadFeedEvents,
+    loadFeedBusy,
+  };
+
+  return (
+    <CalendarFeedsContext.Provider value={value}>
+      {children}
+    </CalendarFeedsContext.Provider>
+  );
+};
+
+export const useCalendarFeeds = (): CalendarFeedsContextType => {
+  const context = useContext(CalendarFeedsContext);
+  if (context === undefined) {
+    throw new Error('useCalendarFeeds must be used within a CalendarFeedsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,201 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { BusyInterval, CalendarListEntry } from '../types';
+import { useAuthContext } from './AuthContext';
+import { AuthAccount } from '../hooks/useAuth';
+import { getCalendarProvider } from '../lib/calendarProviders';
+
+const SELECTED_CALENDARS_KEY = 'app_selected_calendars';
+const TARGET_CALENDAR_KEY = 'app_target_calendar';
+const MERGE_ACCOUNTS_KEY = 'app_merge_account_busy';
+const FALLBACK_COLOR = '#4285f4';
+
+interface CalendarsState {
+  calendars: CalendarListEntry[]; // The user's calendar list, primary first
+  selectedCalendarIds: string[]; // Calendars overlaid on the grid
+  targetCalendarId: string; // Calendar new events are written to
+  mergeOtherAccounts: boolean; // Count the primary calendars of the other signed-in accounts as busy
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface CalendarsContextType extends CalendarsState {
+  loadCalendars: () => Promise<void>;
+  toggleCalendar: (calendarId: string) => void;
+  setTargetCalendar: (calendarId: string) => void;
+  setMergeOtherAccounts: (merge: boolean) => void;
+  loadOtherAccountsBusy: (rangeStart: Date, rangeEnd: Date) => Promise<AccountBusy[]>;
+  getCalendarColor: (calendarId?: string) => string;
+  writableCalendars: CalendarListEntry[];
+}
+
+// Busy times of a signed-in account other than the active one
+export interface AccountBusy {
+  account: AuthAccount;
+  busy: BusyInterval[];
+}
+
+const CalendarsContext = createContext<CalendarsContextType | undefined>(undefined);
+
+const loadSavedSelection = (): string[] => {
+  try {
+    const saved = localStorage.getItem(SELECTED_CALENDARS_KEY);
+    return saved ? JSON.parse(saved) : ['primary'];
+  } catch {
+    return ['primary'];
+  }
+};
+
+const isWritable = (calendar: CalendarListEntry) => calendar.accessRole === 'owner' || calendar.accessRole === 'writer';
+
+interface CalendarsProviderProps {
+  children: React.ReactNode;
+}
+
+export const CalendarsProvider: React.FC<CalendarsProviderProps> = ({ children }) => {
+  const { isSignedIn, token, refreshToken, provider, accounts, activeAccountId, getAccountAuth, hasAccess } =
+    useAuthContext();
+  // The calendar list is only read once the account allows it
+  const canReadCalendars = hasAccess('readEvents');
+  // refreshToken changes on every render, so it must not retrigger loading
+  const refreshTokenRef = useRef(refreshToken);
+  refreshTokenRef.current = refreshToken;
+  const getAccountAuthRef = useRef(getAccountAuth);
+  getAccountAuthRef.current = getAccountAuth;
+  const [state, setState] = useState<CalendarsState>(() => ({
+    calendars: [],
+    selectedCalendarIds: loadSavedSelection(),
+    targetCalendarId: localStorage.getItem(TARGET_CALENDAR_KEY) || 'primary',
+    mergeOtherAccounts: localStorage.getItem(MERGE_ACCOUNTS_KEY) === 'true',
+    isLoading: false,
+    error: null,
+  }));
+
+  const loadCalendars = useCallback(async () => {
+    if (!token) return;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    try {
+      // Refer to the primary calendar by the "primary" alias every provider
+      // accepts so saved selections survive switching accounts
+      const auth = { token, refreshToken: () => refreshTokenRef.current() };
+      const calendars = (await getCalendarProvider(provider).listCalendars(auth)).map(calendar =>
+        calendar.primary ? { ...calendar, id: 'primary' } : calendar
+      );
+      setState(prev => ({
+        ...prev,
+        calendars,
+        // Drop calendars the user no longer has access to
+        selectedCalendarIds: prev.selectedCalendarIds.filter(
+          id => calendars.some(calendar => calendar.id === id)
+        ),
+        // A calendar of an earlier account, or one no longer writable, must
+        // not stay where new events are written
+        targetCalendarId: calendars.some(calendar => calendar.id === prev.targetCalendarId && isWritable(calendar))
+          ? prev.targetCalendarId
+          : 'primary',
+        isLoading: false,
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load calendars',
+      }));
+    }
+  }, [token, provider]);
+
+  useEffect(() => {
+    if (isSignedIn && canReadCalendars) {
+      loadCalendars();
+    }
+  }, [isSignedIn, canReadCalendars, loadCalendars]);
+
+  useEffect(() => {
+    localStorage.setItem(SELECTED_CALENDARS_KEY, JSON.stringify(state.selectedCalendarIds));
+  }, [state.selectedCalendarIds]);
+
+  useEffect(() => {
+    localStorage.setItem(TARGET_CALENDAR_KEY, state.targetCalendarId);
+  }, [state.targetCalendarId]);
+
+  const toggleCalendar = useCallback((calendarId: string) => {
+    setState(prev => ({
+      ...prev,
+      selectedCalendarIds: prev.selectedCalendarIds.includes(calendarId)
+        ? prev.selectedCalendarIds.filter(id => id !== calendarId)
+        : [...prev.selectedCalendarIds, calendarId],
+    }));
+  }, []);
+
+  const setTargetCalendar = useCallback((calendarId: string) => {
+    setState(prev => ({ ...prev, targetCalendarId: calendarId }));
+  }, []);
+
+  const setMergeOtherAccounts = useCallback((merge: boolean) => {
+    localStorage.setItem(MERGE_ACCOUNTS_KEY, String(merge));
+    setState(prev => ({ ...prev, mergeOtherAccounts: merge }));
+  }, []);
+
+  // Free/busy of every other account's primary calendar. An account that
+  // can't be read is left out rather than failing the whole grid.
+  const loadOtherAccountsBusy = useCallback(
+    async (rangeStart: Date, rangeEnd: Date): Promise<AccountBusy[]> => {
+      if (!state.mergeOtherAccounts) return [];
+
+      const others = accounts.filter(account => account.id !== activeAccountId && account.access.freeBusy);
+      const results = await Promise.all(
+        others.map(async account => {
+          try {
+            const auth = await getAccountAuthRef.current(account.id);
+            if (!auth) return null;
+            const freeBusy = await getCalendarProvider(account.provider).queryFreeBusy(
+              auth,
+              rangeStart.toISOString(),
+              rangeEnd.toISOString(),
+              ['primary']
+            );
+            return { account, busy: Object.values(freeBusy.busy).flat() };
+          } catch (error) {
+            console.warn(`Could not read free/busy for ${account.user.email}:`, error);
+            return null;
+          }
+        })
+      );
+      return results.filter((result): result is AccountBusy => result !== null);
+    },
+    [state.mergeOtherAccounts, accounts, activeAccountId]
+  );
+
+  const getCalendarColor = useCallback(
+    (calendarId?: string) => {
+      const calendar = state.calendars.find(entry => entry.id === calendarId);
+      return calendar?.backgroundColor || FALLBACK_COLOR;
+    },
+    [state.calendars]
+  );
+
+  const value: CalendarsContextType = {
+    ...state,
+    loadCalendars,
+    toggleCalendar,
+    setTargetCalendar,
+    setMergeOtherAccounts,
+    loadOtherAccountsBusy,
+    getCalendarColor,
+    writableCalendars: state.calendars.filter(isWritable),
+  };
+
+  return (
+    <CalendarsContext.Provider value={value}>
+      {children}
+    </CalendarsContext.Provider>
+  );
+};
+
+export const useCalendars = (): CalendarsContextType => {
+  const context = useContext(CalendarsContext);
+  if (context === undefined) {
+    throw new Error('useCalendars must be used within a CalendarsProvider');
+  }
+  return context;
+};
@@ -1,8 +1,11 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
-import { Meeting } from '../types';
+import { Meeting, MeetingHold } from '../types';
+
+const HOLDS_KEY = 'app_meeting_holds';
 
 interface MeetingsState {
   meetings: Meeting[];
+  holds: MeetingHold[]; // Tentative events on the user's calendar for proposed times
   loading: boolean;
   error: string | null;
 }
@@ -12,14 +15,20 @@ type MeetingsAction =
   | { type: 'ADD_MEETING'; payload: Meeting }
   | { type: 'UPDATE_MEETING'; payload: Meeting }
   | { type: 'REMOVE_MEETING'; payload: string }
+  | { type: 'LOAD_HOLDS'; payload: MeetingHold[] }
+  | { type: 'ADD_HOLD'; payload: MeetingHold }
+  | { type: 'REMOVE_HOLD'; payload: string }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null };
 
 interface MeetingsContextType extends MeetingsState {
-  addMeeting: (meeting: Omit<Meeting, 'id'>) => void;
+  addMeeting: (meeting: Omit<Meeting, 'id'>) => Meeting;
   updateMeeting: (meeting: Meeting) => void;
   removeMeeting: (id: string) => void;
   getMeetingsForTimeSlot: (time: Date) => Meeting[];
+  addHold: (hold: Omit<MeetingHold, 'id'>) => MeetingHold;
+  removeHold: (id: string) => void;
+  getHoldsForProposal: (proposalId: string) => MeetingHold[];
   clearError: () => void;
 }
 
@@ -36,12 +45,7 @@ const meetingsReducer = (state: MeetingsState, action: MeetingsAction): Meetings
       };
 
     case 'ADD_MEETING': {
-      const newMeeting: Meeting = {
-        ...action.payload,
-        id: `meeting_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      };
-
-      const newMeetings = [...state.meetings, newMeeting];
+      const newMeetings = [...state.meetings, action.payload];
       localStorage.setItem('app_meetings', JSON.stringify(newMeetings));
 
       return {
@@ -76,6 +80,32 @@ const meetingsReducer = (state: MeetingsState, action: MeetingsAction): Meetings
       };
     }
 
+    case 'LOAD_HOLDS':
+      return {
+        ...state,
+        holds: action.payload,
+      };
+
+    case 'ADD_HOLD': {
+      const newHolds = [...state.holds, action.payload];
+      localStorage.setItem(HOLDS_KEY, JSON.stringify(newHolds));
+
+      return {
+        ...state,
+        holds: newHolds,
+      };
+    }
+
+    case 'REMOVE_HOLD': {
+      const remainingHolds = state.holds.filter(hold => hold.id !== action.payload);
+      localStorage.setItem(HOLDS_KEY, JSON.stringify(remainingHolds));
+
+      return {
+        ...state,
+        holds: remainingHolds,
+      };
+    }
+
     case 'SET_LOADING':
       return {
         ...state,
@@ -100,6 +130,7 @@ interface MeetingsProviderProps {
 export const MeetingsProvider: React.FC<MeetingsProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(meetingsReducer, {
     meetings: [],
+    holds: [],
     loading: true,
     error: null,
   });
@@ -118,6 +149,18 @@ export const MeetingsProvider: React.FC<MeetingsProviderProps> = ({ children })
       }));
 
       dispatch({ type: 'LOAD_MEETINGS', payload: parsedMeetings });
+
+      const savedHolds = localStorage.getItem(HOLDS_KEY);
+      const holds: MeetingHold[] = savedHolds ? JSON.parse(savedHolds) : [];
+      dispatch({
+        type: 'LOAD_HOLDS',
+        payload: holds.map(hold => ({
+          ...hold,
+          start: new Date(hold.start),
+          end: new Date(hold.end),
+          expiresAt: new Date(hold.expiresAt),
+        })),
+      });
     } catch (error) {
       console.error('Error loading meetings from localStorage:', error);
       dispatch({ type: 'SET_ERROR', payload: 'Failed to load saved meetings' });
@@ -126,7 +169,12 @@ export const MeetingsProvider: React.FC<MeetingsProviderProps> = ({ children })
   }, []);
 
   const addMeeting = (meeting: Omit<Meeting, 'id'>) => {
-    dispatch({ type: 'ADD_MEETING', payload: meeting as Meeting });
+    const newMeeting: Meeting = {
+      ...meeting,
+      id: `meeting_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    };
+    dispatch({ type: 'ADD_MEETING', payload: newMeeting });
+    return newMeeting;
   };
 
   const updateMeeting = (meeting: Meeting) => {
@@ -147,6 +195,23 @@ export const MeetingsProvider: React.FC<MeetingsProviderProps> = ({ children })
     });
   };
 
+  const addHold = (hold: Omit<MeetingHold, 'id'>) => {
+    const newHold: MeetingHold = {
+      ...hold,
+      id: `hold_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    };
+    dispatch({ type: 'ADD_HOLD', payload: newHold });
+    return newHold;
+  };
+
+  const removeHold = (id: string) => {
+    dispatch({ type: 'REMOVE_HOLD', payload: id });
+  };
+
+  const getHoldsForProposal = (proposalId: string) => {
+    return state.holds.filter(hold => hold.proposalId === proposalId);
+  };
+
   const clearError = () => {
     dispatch({ type: 'SET_ERROR', payload: null });
   };
@@ -157,6 +222,9 @@ export const MeetingsProvider: React.FC<MeetingsProviderProps> = ({ children })
     updateMeeting,
     removeMeeting,
     getMeetingsForTimeSlot,
+    addHold,
+    removeHold,
+    getHoldsForProposal,
     clearError,
   };
 
@@ -0,0 +1,198 @@
+import React, { createContext, useContext, useReducer, useEffect, useRef, useState } from 'react';
+import { MeetingPoll, PollResponse } from '../types';
+import { useAuthContext } from './AuthContext';
+import { useMeetings } from './MeetingsContext';
+import { useMeetingHolds } from '../hooks/useMeetingHolds';
+
+const POLLS_KEY = 'app_polls';
+// How often expired holds are looked for
+const HOLD_CHECK_MS = 60 * 1000;
+
+export type NewMeetingPoll = Pick<MeetingPoll, 'title' | 'description' | 'timezone' | 'attendees' | 'options'>;
+
+interface PollsState {
+  polls: MeetingPoll[];
+  loaded: boolean;
+  error: string | null;
+}
+
+type PollsAction =
+  | { type: 'LOAD_POLLS'; payload: MeetingPoll[] }
+  | { type: 'ADD_POLL'; payload: MeetingPoll }
+  | { type: 'UPDATE_POLL'; payload: MeetingPoll }
+  | { type: 'REMOVE_POLL'; payload: string }
+  | { type: 'SET_RESPONSE'; payload: { pollId: string; response: PollResponse } }
+  | { type: 'SET_ERROR'; payload: string | null };
+
+interface PollsContextType extends PollsState {
+  addPoll: (poll: NewMeetingPoll) => MeetingPoll;
+  updatePoll: (poll: MeetingPoll) => void;
+  removePoll: (id: string) => void;
+  setPollResponse: (pollId: string, response: PollResponse) => void;
+  decidePoll: (poll: MeetingPoll, optionId: string, meetingId?: string) => void;
+  cancelPoll: (poll: MeetingPoll) => void;
+}
+
+const PollsContext = createContext<PollsContextType | undefined>(undefined);
+
+const savePolls = (polls: MeetingPoll[]) => {
+  localStorage.setItem(POLLS_KEY, JSON.stringify(polls));
+  return polls;
+};
+
+const pollsReducer = (state: PollsState, action: PollsAction): PollsState => {
+  switch (action.type) {
+    case 'LOAD_POLLS':
+      return { ...state, polls: action.payload, loaded: true, error: null };
+
+    case 'ADD_POLL':
+      return { ...state, polls: savePolls([...state.polls, action.payload]), error: null };
+
+    case 'UPDATE_POLL':
+      return {
+        ...state,
+        polls: savePolls(state.polls.map(poll => (poll.id === action.payload.id ? action.payload : poll))),
+        error: null,
+      };
+
+    case 'REMOVE_POLL':
+      return { ...state, polls: savePolls(state.polls.filter(poll => poll.id !== action.payload)), error: null };
+
+    // One response per attendee; answering again replaces the earlier answers
+    case 'SET_RESPONSE': {
+      const { pollId, response } = action.payload;
+      const attendee = response.attendee.trim().toLowerCase();
+      const polls = state.polls.map(poll =>
+        poll.id === pollId
+          ? {
+              ...poll,
+              responses: [
+                ...poll.responses.filter(existing => existing.attendee.trim().toLowerCase() !== attendee),
+                response,
+              ],
+            }
+          : poll
+      );
+      return { ...state, polls: savePolls(polls), error: null };
+    }
+
+    case 'SET_ERROR':
+      return { ...state, error: action.payload };
+
+    default:
+      return state;
+  }
+};
+
+interface PollsProviderProps {
+  children: React.ReactNode;
+}
+
+export const PollsProvider: React.FC<PollsProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(pollsReducer, { polls: [], loaded: false, error: null });
+  const { isSignedIn } = useAuthContext();
+  const { holds, loading: meetingsLoading } = useMeetings();
+  const { releaseHolds } = useMeetingHolds();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Read the latest release function without restarting the cleanup effect
+  const releaseHoldsRef = useRef(releaseHolds);
+  releaseHoldsRef.current = releaseHolds;
+  const releasingHoldIds = useRef(new Set<string>());
+
+  // Load polls from localStorage on mount, restoring their dates
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(POLLS_KEY);
+      const polls: MeetingPoll[] = (saved ? JSON.parse(saved) : []).map((poll: MeetingPoll) => ({
+        ...poll,
+        createdAt: new Date(poll.createdAt),
+        options: poll.options.map(option => ({ ...option, start: new Date(option.start), end: new Date(option.end) })),
+      }));
+      dispatch({ type: 'LOAD_POLLS', payload: polls });
+    } catch (error) {
+      console.error('Error loading polls from localStorage:', error);
+      dispatch({ type: 'SET_ERROR', payload: 'Failed to load saved polls' });
+    }
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), HOLD_CHECK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Release holds once their poll is booked, cancelled or deleted, or when
+  // they expire; a release that fails is tried again on the next check
+  useEffect(() => {
+    if (!isSignedIn || !state.loaded || meetingsLoading) return;
+
+    const stale = holds.filter(
+      hold =>
+        !releasingHoldIds.current.has(hold.id) &&
+        (hold.expiresAt.getTime() <= now ||
+          state.polls.find(poll => poll.id === hold.proposalId)?.status !== 'open')
+    );
+    if (stale.length === 0) return;
+
+    stale.forEach(hold => releasingHoldIds.current.add(hold.id));
+    releaseHoldsRef.current(stale)
+      .catch(error => console.warn('Could not release meeting holds:', error))
+      .finally(() => stale.forEach(hold => releasingHoldIds.current.delete(hold.id)));
+  }, [isSignedIn, state.loaded, state.polls, meetingsLoading, holds, now]);
+
+  const addPoll = (poll: NewMeetingPoll) => {
+    const newPoll: MeetingPoll = {
+      ...poll,
+      id: `poll_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      responses: [],
+      status: 'open',
+      createdAt: new Date(),
+    };
+    dispatch({ type: 'ADD_POLL', payload: newPoll });
+    return newPoll;
+  };
+
+  const updatePoll = (poll: MeetingPoll) => {
+    dispatch({ type: 'UPDATE_POLL', payload: poll });
+  };
+
+  const removePoll = (id: string) => {
+    dispatch({ type: 'REMOVE_POLL', payload: id });
+  };
+
+  const setPollResponse = (pollId: string, response: PollResponse) => {
+    dispatch({ type: 'SET_RESPONSE', payload: { pollId, response } });
+  };
+
+  const decidePoll = (poll: MeetingPoll, optionId: string, meetingId?: string) => {
+    dispatch({ type: 'UPDATE_POLL', payload: { ...poll, status: 'decided', decidedOptionId: optionId, meetingId } });
+  };
+
+  const cancelPoll = (poll: MeetingPoll) => {
+    dispatch({ type: 'UPDATE_POLL', payload: { ...poll, status: 'cancelled' } });
+  };
+
+  const value: PollsContextType = {
+    ...state,
+    addPoll,
+    updatePoll,
+    removePoll,
+    setPollResponse,
+    decidePoll,
+    cancelPoll,
+  };
+
+  return (
+    <PollsContext.Provider value={value}>
+      {children}
+    </PollsContext.Provider>
+  );
+};
+
+export const usePolls = (): PollsContextType => {
+  const context = useContext(PollsContext);
+  if (context === undefined) {
+    throw new Error('usePolls must be used within a PollsProvider');
+  }
+  return context;
+};
@@ -1,8 +1,12 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
+import moment from 'moment-timezone';
+import { CandidateSlot } from '../types';
 
 interface UIState {
   highlightedHour: number | null; // 0-23 representing the highlighted column, or null for none
   isAutoHighlight: boolean; // Whether to auto-highlight current hour
+  suggestedSlots: CandidateSlot[]; // Ranked slots from the slot finder, shown on the grid
+  selectedDate: string; // YYYY-MM-DD of the day the grid shows, in the home zone
 }
 
 interface UIContextType extends UIState {
@@ -10,6 +14,9 @@ interface UIContextType extends UIState {
   setNowHighlight: () => void;
   setAutoHighlight: (auto: boolean) => void;
   setPresetHour: (hour: number) => void;
+  setSuggestedSlots: (slots: CandidateSlot[]) => void;
+  setSelectedDate: (date: string) => void;
+  jumpToTime: (date: string, hour: number) => void;
 }
 
 const UIContext = createContext<UIContextType | undefined>(undefined);
@@ -22,6 +29,8 @@ export const UIProvider: React.FC<UIProviderProps> = ({ children }) => {
   const [state, setState] = useState<UIState>({
     highlightedHour: new Date().getHours(),
     isAutoHighlight: true,
+    suggestedSlots: [],
+    selectedDate: moment().format('YYYY-MM-DD'),
   }); // highlightedHour can be null
 
   const setHighlightedHour = useCallback((hour: number | null) => {
@@ -56,12 +65,39 @@ export const UIProvider: React.FC<UIProviderProps> = ({ children }) => {
     }));
   }, []);
 
+  const setSuggestedSlots = useCallback((slots: CandidateSlot[]) => {
+    setState(prev => ({
+      ...prev,
+      suggestedSlots: slots,
+    }));
+  }, []);
+
+  const setSelectedDate = useCallback((date: string) => {
+    setState(prev => ({
+      ...prev,
+      selectedDate: date,
+    }));
+  }, []);
+
+  // Show a given day and highlight one of its hours, e.g. from a parsed phrase
+  const jumpToTime = useCallback((date: string, hour: number) => {
+    setState(prev => ({
+      ...prev,
+      selectedDate: date,
+      highlightedHour: hour,
+      isAutoHighlight: false,
+    }));
+  }, []);
+
   const value: UIContextType = {
     ...state,
     setHighlightedHour,
     setNowHighlight,
     setAutoHighlight,
     setPresetHour,
+    setSuggestedSlots,
+    setSelectedDate,
+    jumpToTime,
   };
 
   return (
@@ -12,6 +12,7 @@ interface ZonesState {
 type ZonesAction =
   | { type: 'LOAD_ZONES'; payload: TimeZone[] }
   | { type: 'ADD_ZONE'; payload: Omit<TimeZone, 'id'> }
+  | { type: 'UPDATE_ZONE'; payload: TimeZone }
   | { type: 'REMOVE_ZONE'; payload: string }
   | { type: 'REORDER_ZONES'; payload: TimeZone[] }
   | { type: 'SET_HOME_COUNTRY'; payload: { country: string; timezone: string } }
@@ -20,6 +21,7 @@ type ZonesAction =
 
 interface ZonesContextType extends ZonesState {
   addZone: (zone: Omit<TimeZone, 'id'>) => void;
+  updateZone: (zone: TimeZone) => void;
   removeZone: (id: string) => void;
   reorderZones: (zones: TimeZone[]) => void;
   setHomeCountry: (country: string, timezone: string) => void;
@@ -107,6 +109,21 @@ const zonesReducer = (state: ZonesState, action: ZonesAction): ZonesState => {
       };
     }
 
+    case 'UPDATE_ZONE': {
+      const updatedZones = state.zones.map(zone =>
+        zone.id === action.payload.id ? action.payload : zone
+      );
+
+      // Persist to localStorage
+      localStorage.setItem('app_timezones', JSON.stringify(updatedZones));
+
+      return {
+        ...state,
+        zones: updatedZones,
+        error: null,
+      };
+    }
+
     case 'REMOVE_ZONE': {
       const filteredZones = state.zones.filter(zone => zone.id !== action.payload);
       
@@ -197,6 +214,10 @@ export const ZonesProvider: React.FC<ZonesProviderProps> = ({ children }) => {
     dispatch({ type: 'ADD_ZONE', payload: zone });
   };
 
+  const updateZone = (zone: TimeZone) => {
+    dispatch({ type: 'UPDATE_ZONE', payload: zone });
+  };
+
   const removeZone = (id: string) => {
     dispatch({ type: 'REMOVE_ZONE', payload: id });
   };
@@ -220,6 +241,7 @@ export const ZonesProvider: React.FC<ZonesProviderProps> = ({ children }) => {
   const value: ZonesContextType = {
     ...state,
     addZone,
+    updateZone,
     removeZone,
     reorderZones,
     setHomeCountry,
@@ -0,0 +1,220 @@
+// Searchable cities with their IANA zone, ISO country code and approximate
+// metro population (used for ranking). Aliases cover common nicknames, former
+// names and alternative spellings. Zones without a city here are still
+// searchable through the tz database itself (see utils/citySearch.ts).
+export interface CityData {
+  name: string;
+  iana: string;
+  country: string;
+  countryCode: string;
+  population: number;
+  label?: string; // Defaults to the country name
+  aliases?: string[];
+}
+
+export const cityData: CityData[] = [
+  // Asia
+  { name: 'Tokyo', iana: 'Asia/Tokyo', country: 'Japan', countryCode: 'JP', population: 37400000, aliases: ['Edo'] },
+  { name: 'Osaka', iana: 'Asia/Tokyo', country: 'Japan', countryCode: 'JP', population: 19100000 },
+  { name: 'Delhi', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 32900000, aliases: ['New Delhi', 'NCR', 'IST', 'India Standard Time'] },
+  { name: 'Mumbai', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 21300000, aliases: ['Bombay'] },
+  { name: 'Bengaluru', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 13600000, aliases: ['Bangalore', 'BLR'] },
+  { name: 'Kolkata', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 15100000, aliases: ['Calcutta'] },
+  { name: 'Chennai', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 11800000, aliases: ['Madras'] },
+  { name: 'Hyderabad', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 10800000 },
+  { name: 'Pune', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 7000000, aliases: ['Poona'] },
+  { name: 'Ahmedabad', iana: 'Asia/Kolkata', country: 'India', countryCode: 'IN', population: 8700000 },
+  { name: 'Shanghai', iana: 'Asia/Shanghai', country: 'China', countryCode: 'CN', population: 29200000 },
+  { name: 'Beijing', iana: 'Asia/Shanghai', country: 'China', countryCode: 'CN', population: 21800000, aliases: ['Peking'] },
+  { name: 'Shenzhen', iana: 'Asia/Shanghai', country: 'China', countryCode: 'CN', population: 13000000 },
+  { name: 'Guangzhou', iana: 'Asia/Shanghai', country: 'China', countryCode: 'CN', population: 14000000, aliases: ['Canton'] },
+  { name: 'Chengdu', iana: 'Asia/Shanghai', country: 'China', countryCode: 'CN', population: 9500000 },
+  { name: 'Hong Kong', iana: 'Asia/Hong_Kong', country: 'Hong Kong', countryCode: 'HK', population: 7500000, aliases: ['HK', 'HKG'] },
+  { name: 'Taipei', iana: 'Asia/Taipei', country: 'Taiwan', countryCode: 'TW', population: 7000000 },
+  { name: 'Seoul', iana: 'Asia/Seoul', country: 'South Korea', countryCode: 'KR', population: 25500000 },
+  { name: 'Busan', iana: 'Asia/Seoul', country: 'South Korea', countryCode: 'KR', population: 3400000, aliases: ['Pusan'] },
+  { name: 'Singapore', iana: 'Asia/Singapore', country: 'Singapore', countryCode: 'SG', population: 5900000, aliases: ['SG', 'SIN'] },
+  { name: 'Kuala Lumpur', iana: 'Asia/Kuala_Lumpur', country: 'Malaysia', countryCode: 'MY', population: 8400000, aliases: ['KL'] },
+  { name: 'Jakarta', iana: 'Asia/Jakarta', country: 'Indonesia', countryCode: 'ID', population: 34500000 },
+  { name: 'Bali', iana: 'Asia/Makassar', country: 'Indonesia', countryCode: 'ID', population: 4300000, aliases: ['Denpasar'] },
+  { name: 'Manila', iana: 'Asia/Manila', country: 'Philippines', countryCode: 'PH', population: 14400000 },
+  { name: 'Bangkok', iana: 'Asia/Bangkok', country: 'Thailand', countryCode: 'TH', population: 11000000, aliases: ['Krung Thep'] },
+  { name: 'Ho Chi Minh City', iana: 'Asia/Ho_Chi_Minh', country: 'Vietnam', countryCode: 'VN', population: 9300000, aliases: ['Saigon', 'HCMC'] },
+  { name: 'Hanoi', iana: 'Asia/Bangkok', country: 'Vietnam', countryCode: 'VN', population: 5300000 },
+  { name: 'Yangon', iana: 'Asia/Yangon', country: 'Myanmar', countryCode: 'MM', population: 5600000, aliases: ['Rangoon'] },
+  { name: 'Phnom Penh', iana: 'Asia/Phnom_Penh', country: 'Cambodia', countryCode: 'KH', population: 2300000 },
+  { name: 'Dhaka', iana: 'Asia/Dhaka', country: 'Bangladesh', countryCode: 'BD', population: 23200000, aliases: ['Dacca'] },
+  { name: 'Karachi', iana: 'Asia/Karachi', country: 'Pakistan', countryCode: 'PK', population: 17200000 },
+  { name: 'Lahore', iana: 'Asia/Karachi', country: 'Pakistan', countryCode: 'PK', population: 13500000 },
+  { name: 'Islamabad', iana: 'Asia/Karachi', country: 'Pakistan', countryCode: 'PK', population: 1200000 },
+  { name: 'Colombo', iana: 'Asia/Colombo', country: 'Sri Lanka', countryCode: 'LK', population: 5600000, aliases: ['CMB'] },
+  { name: 'Kathmandu', iana: 'Asia/Kathmandu', country: 'Nepal', countryCode: 'NP', population: 1500000, aliases: ['Katmandu'] },
+  { name: 'Thimphu', iana: 'Asia/Thimphu', country: 'Bhutan', countryCode: 'BT', population: 115000 },
+  { name: 'Malé', iana: 'Indian/Maldives', country: 'Maldives', countryCode: 'MV', population: 250000, aliases: ['Male'] },
+  { name: 'Kabul', iana: 'Asia/Kabul', country: 'Afghanistan', countryCode: 'AF', population: 4600000 },
+  { name: 'Tashkent', iana: 'Asia/Tashkent', country: 'Uzbekistan', countryCode: 'UZ', population: 2900000 },
+  { name: 'Almaty', iana: 'Asia/Almaty', country: 'Kazakhstan', countryCode: 'KZ', population: 2200000, aliases: ['Alma-Ata'] },
+  { name: 'Ulaanbaatar', iana: 'Asia/Ulaanbaatar', country: 'Mongolia', countryCode: 'MN', population: 1600000, aliases: ['Ulan Bator'] },
+  { name: 'Dubai', iana: 'Asia/Dubai', country: 'United Arab Emirates', countryCode: 'AE', population: 3600000, aliases: ['DXB'] },
+  { name: 'Abu Dhabi', iana: 'Asia/Dubai', country: 'United Arab Emirates', countryCode: 'AE', population: 1500000 },
+  { name: 'Doha', iana: 'Asia/Qatar', country: 'Qatar', countryCode: 'QA', population: 2400000 },
+  { name: 'Riyadh', iana: 'Asia/Riyadh', country: 'Saudi Arabia', countryCode: 'SA', population: 7700000 },
+  { name: 'Jeddah', iana: 'Asia/Riyadh', country: 'Saudi Arabia', countryCode: 'SA', population: 4700000 },
+  { name: 'Kuwait City', iana: 'Asia/Kuwait', country: 'Kuwait', countryCode: 'KW', population: 3100000 },
+  { name: 'Manama', iana: 'Asia/Bahrain', country: 'Bahrain', countryCode: 'BH', population: 700000 },
+  { name: 'Muscat', iana: 'Asia/Muscat', country: 'Oman', countryCode: 'OM', population: 1600000 },
+  { name: 'Tehran', iana: 'Asia/Tehran', country: 'Iran', countryCode: 'IR', population: 9500000 },
+  { name: 'Baghdad', iana: 'Asia/Baghdad', country: 'Iraq', countryCode: 'IQ', population: 7700000 },
+  { name: 'Amman', iana: 'Asia/Amman', country: 'Jordan', countryCode: 'JO', population: 4300000 },
+  { name: 'Beirut', iana: 'Asia/Beirut', country: 'Lebanon', countryCode: 'LB', population: 2400000 },
+  { name: 'Tel Aviv', iana: 'Asia/Jerusalem', country: 'Israel', countryCode: 'IL', population: 4200000, aliases: ['TLV'] },
+  { name: 'Jerusalem', iana: 'Asia/Jerusalem', country: 'Israel', countryCode: 'IL', population: 1000000 },
+  { name: 'Tbilisi', iana: 'Asia/Tbilisi', country: 'Georgia', countryCode: 'GE', population: 1200000 },
+  { name: 'Yerevan', iana: 'Asia/Yerevan', country: 'Armenia', countryCode: 'AM', population: 1100000 },
+  { name: 'Baku', iana: 'Asia/Baku', country: 'Azerbaijan', countryCode: 'AZ', population: 2300000 },
+
+  // Europe
+  { name: 'London', iana: 'Europe/London', country: 'United Kingdom', countryCode: 'GB', population: 14800000, aliases: ['LDN', 'LON', 'GMT', 'BST'] },
+  { name: 'Manchester', iana: 'Europe/London', country: 'United Kingdom', countryCode: 'GB', population: 2800000 },
+  { name: 'Edinburgh', iana: 'Europe/London', country: 'United Kingdom', countryCode: 'GB', population: 530000 },
+  { name: 'Dublin', iana: 'Europe/Dublin', country: 'Ireland', countryCode: 'IE', population: 1450000 },
+  { name: 'Paris', iana: 'Europe/Paris', country: 'France', countryCode: 'FR', population: 11200000 },
+  { name: 'Lyon', iana: 'Europe/Paris', country: 'France', countryCode: 'FR', population: 2300000 },
+  { name: 'Berlin', iana: 'Europe/Berlin', country: 'Germany', countryCode: 'DE', population: 6100000 },
+  { name: 'Munich', iana: 'Europe/Berlin', country: 'Germany', countryCode: 'DE', population: 2900000, aliases: ['München', 'Muenchen'] },
+  { name: 'Frankfurt', iana: 'Europe/Berlin', country: 'Germany', countryCode: 'DE', population: 2300000 },
+  { name: 'Hamburg', iana: 'Europe/Berlin', country: 'Germany', countryCode: 'DE', population: 3400000 },
+  { name: 'Amsterdam', iana: 'Europe/Amsterdam', country: 'Netherlands', countryCode: 'NL', population: 2500000, aliases: ['AMS'] },
+  { name: 'Rotterdam', iana: 'Europe/Amsterdam', country: 'Netherlands', countryCode: 'NL', population: 1000000 },
+  { name: 'Brussels', iana: 'Europe/Brussels', country: 'Belgium', countryCode: 'BE', population: 2100000, aliases: ['Bruxelles'] },
+  { name: 'Luxembourg', iana: 'Europe/Luxembourg', country: 'Luxembourg', countryCode: 'LU', population: 130000 },
+  { name: 'Madrid', iana: 'Europe/Madrid', country: 'Spain', countryCode: 'ES', population: 6800000 },
+  { name: 'Barcelona', iana: 'Europe/Madrid', country: 'Spain', countryCode: 'ES', population: 5600000 },
+  { name: 'Lisbon', iana: 'Europe/Lisbon', country: 'Portugal', countryCode: 'PT', population: 2900000, aliases: ['Lisboa'] },
+  { name: 'Porto', iana: 'Europe/Lisbon', country: 'Portugal', countryCode: 'PT', population: 1700000, aliases: ['Oporto'] },
+  { name: 'Rome', iana: 'Europe/Rome', country: 'Italy', countryCode: 'IT', population: 4300000, aliases: ['Roma'] },
+  { name: 'Milan', iana: 'Europe/Rome', country: 'Italy', countryCode: 'IT', population: 4300000, aliases: ['Milano'] },
+  { name: 'Zurich', iana: 'Europe/Zurich', country: 'Switzerland', countryCode: 'CH', population: 1400000, aliases: ['Zürich'] },
+  { name: 'Geneva', iana: 'Europe/Zurich', country: 'Switzerland', countryCode: 'CH', population: 600000, aliases: ['Genève', 'Geneve'] },
+  { name: 'Vienna', iana: 'Europe/Vienna', country: 'Austria', countryCode: 'AT', population: 2000000, aliases: ['Wien'] },
+  { name: 'Prague', iana: 'Europe/Prague', country: 'Czechia', countryCode: 'CZ', population: 1300000, aliases: ['Praha'] },
+  { name: 'Warsaw', iana: 'Europe/Warsaw', country: 'Poland', countryCode: 'PL', population: 1800000, aliases: ['Warszawa'] },
+  { name: 'Krakow', iana: 'Europe/Warsaw', country: 'Poland', countryCode: 'PL', population: 800000, aliases: ['Kraków', 'Cracow'] },
+  { name: 'Budapest', iana: 'Europe/Budapest', country: 'Hungary', countryCode: 'HU', population: 1800000 },
+  { name: 'Bucharest', iana: 'Europe/Bucharest', country: 'Romania', countryCode: 'RO', population: 1800000, aliases: ['București'] },
+  { name: 'Sofia', iana: 'Europe/Sofia', country: 'Bulgaria', countryCode: 'BG', population: 1300000 },
+  { name: 'Belgrade', iana: 'Europe/Belgrade', country: 'Serbia', countryCode: 'RS', population: 1400000, aliases: ['Beograd'] },
+  { name: 'Zagreb', iana: 'Europe/Zagreb', country: 'Croatia', countryCode: 'HR', population: 800000 },
+  { name: 'Athens', iana: 'Europe/Athens', country: 'Greece', countryCode: 'GR', population: 3200000, aliases: ['Athina'] },
+  { name: 'Istanbul', iana: 'Europe/Istanbul', country: 'Turkey', countryCode: 'TR', population: 15800000, aliases: ['Constantinople'] },
+  { name: 'Ankara', iana: 'Europe/Istanbul', country: 'Turkey', countryCode: 'TR', population: 5700000 },
+  { name: 'Kyiv', iana: 'Europe/Kyiv', country: 'Ukraine', countryCode: 'UA', population: 3000000, aliases: ['Kiev'] },
+  { name: 'Moscow', iana: 'Europe/Moscow', country: 'Russia', countryCode: 'RU', population: 12600000, aliases: ['Moskva'] },
+  { name: 'Saint Petersburg', iana: 'Europe/Moscow', country: 'Russia', countryCode: 'RU', population: 5600000, aliases: ['St Petersburg', 'Leningrad'] },
+  { name: 'Stockholm', iana: 'Europe/Stockholm', country: 'Sweden', countryCode: 'SE', population: 2400000 },
+  { name: 'Oslo', iana: 'Europe/Oslo', country: 'Norway', countryCode: 'NO', population: 1100000 },
+  { name: 'Copenhagen', iana: 'Europe/Copenhagen', country: 'Denmark', countryCode: 'DK', population: 1400000, aliases: ['København'] },
+  { name: 'Helsinki', iana: 'Europe/Helsinki', country: 'Finland', countryCode: 'FI', population: 1300000 },
+  { name: 'Tallinn', iana: 'Europe/Tallinn', country: 'Estonia', countryCode: 'EE', population: 450000 },
+  { name: 'Riga', iana: 'Europe/Riga', country: 'Latvia', countryCode: 'LV', population: 600000 },
+  { name: 'Vilnius', iana: 'Europe/Vilnius', country: 'Lithuania', countryCode: 'LT', population: 580000 },
+  { name: 'Reykjavik', iana: 'Atlantic/Reykjavik', country: 'Iceland', countryCode: 'IS', population: 240000, aliases: ['Reykjavík'] },
+
+  // Americas
+  { name: 'New York', iana: 'America/New_York', country: 'United States', countryCode: 'US', population: 19500000, label: 'US Eastern', aliases: ['NYC', 'New York City', 'Manhattan', 'Brooklyn', 'EST', 'EDT', 'ET', 'Eastern Time'] },
+  { name: 'Washington, D.C.', iana: 'America/New_York', country: 'United States', countryCode: 'US', population: 6300000, label: 'US Eastern', aliases: ['Washington DC', 'DC'] },
+  { name: 'Boston', iana: 'America/New_York', country: 'United States', countryCode: 'US', population: 4900000, label: 'US Eastern' },
+  { name: 'Atlanta', iana: 'America/New_York', country: 'United States', countryCode: 'US', population: 6200000, label: 'US Eastern', aliases: ['ATL'] },
+  { name: 'Miami', iana: 'America/New_York', country: 'United States', countryCode: 'US', population: 6100000, label: 'US Eastern' },
+  { name: 'Philadelphia', iana: 'America/New_York', country: 'United States', countryCode: 'US', population: 6200000, label: 'US Eastern', aliases: ['Philly'] },
+  { name: 'Detroit', iana: 'America/Detroit', country: 'United States', countryCode: 'US', population: 4300000, label: 'US Eastern' },
+  { name: 'Chicago', iana: 'America/Chicago', country: 'United States', countryCode: 'US', population: 9400000, label: 'US Central', aliases: ['Chi-town', 'CST', 'CDT', 'CT', 'Central Time'] },
+  { name: 'Dallas', iana: 'America/Chicago', country: 'United States', countryCode: 'US', population: 7900000, label: 'US Central', aliases: ['DFW'] },
+  { name: 'Houston', iana: 'America/Chicago', country: 'United States', countryCode: 'US', population: 7300000, label: 'US Central' },
+  { name: 'Austin', iana: 'America/Chicago', country: 'United States', countryCode: 'US', population: 2400000, label: 'US Central', aliases: ['ATX'] },
+  { name: 'Denver', iana: 'America/Denver', country: 'United States', countryCode: 'US', population: 3000000, label: 'US Mountain', aliases: ['MST', 'MDT', 'MT', 'Mountain Time'] },
+  { name: 'Salt Lake City', iana: 'America/Denver', country: 'United States', countryCode: 'US', population: 1300000, label: 'US Mountain', aliases: ['SLC'] },
+  { name: 'Phoenix', iana: 'America/Phoenix', country: 'United States', countryCode: 'US', population: 5000000, label: 'US Mountain (no DST)' },
+  { name: 'Los Angeles', iana: 'America/Los_Angeles', country: 'United States', countryCode: 'US', population: 12800000, label: 'US Pacific', aliases: ['LA', 'L.A.', 'PST', 'PDT', 'PT', 'Pacific Time'] },
+  { name: 'San Francisco', iana: 'America/Los_Angeles', country: 'United States', countryCode: 'US', population: 4600000, label: 'US Pacific', aliases: ['SF', 'San Fran', 'Bay Area'] },
+  { name: 'San Jose', iana: 'America/Los_Angeles', country: 'United States', countryCode: 'US', population: 2000000, label: 'US Pacific', aliases: ['Silicon Valley'] },
+  { name: 'Seattle', iana: 'America/Los_Angeles', country: 'United States', countryCode: 'US', population: 4000000, label: 'US Pacific' },
+  { name: 'Las Vegas', iana: 'America/Los_Angeles', country: 'United States', countryCode: 'US', population: 2300000, label: 'US Pacific', aliases: ['Vegas'] },
+  { name: 'Anchorage', iana: 'America/Anchorage', country: 'United States', countryCode: 'US', population: 290000, label: 'US Alaska' },
+  { name: 'Honolulu', iana: 'Pacific/Honolulu', country: 'United States', countryCode: 'US', population: 1000000, label: 'US Hawaii', aliases: ['Hawaii'] },
+  { name: 'Toronto', iana: 'America/Toronto', country: 'Canada', countryCode: 'CA', population: 6700000, label: 'Canada Eastern', aliases: ['YYZ'] },
+  { name: 'Montreal', iana: 'America/Toronto', country: 'Canada', countryCode: 'CA', population: 4300000, label: 'Canada Eastern', aliases: ['Montréal'] },
+  { name: 'Ottawa', iana: 'America/Toronto', country: 'Canada', countryCode: 'CA', population: 1500000, label: 'Canada Eastern' },
+  { name: 'Halifax', iana: 'America/Halifax', country: 'Canada', countryCode: 'CA', population: 480000, label: 'Canada Atlantic' },
+  { name: "St. John's", iana: 'America/St_Johns', country: 'Canada', countryCode: 'CA', population: 210000, label: 'Canada Newfoundland', aliases: ['St Johns', 'Newfoundland'] },
+  { name: 'Winnipeg', iana: 'America/Winnipeg', country: 'Canada', countryCode: 'CA', population: 850000, label: 'Canada Central' },
+  { name: 'Calgary', iana: 'America/Edmonton', country: 'Canada', countryCode: 'CA', population: 1600000, label: 'Canada Mountain' },
+  { name: 'Edmonton', iana: 'America/Edmonton', country: 'Canada', countryCode: 'CA', population: 1500000, label: 'Canada Mountain' },
+  { name: 'Vancouver', iana: 'America/Vancouver', country: 'Canada', countryCode: 'CA', population: 2800000, label: 'Canada Pacific', aliases: ['YVR'] },
+  { name: 'Mexico City', iana: 'America/Mexico_City', country: 'Mexico', countryCode: 'MX', population: 22300000, aliases: ['CDMX', 'Ciudad de México'] },
+  { name: 'Guadalajara', iana: 'America/Mexico_City', country: 'Mexico', countryCode: 'MX', population: 5300000 },
+  { name: 'Monterrey', iana: 'America/Monterrey', country: 'Mexico', countryCode: 'MX', population: 5300000 },
+  { name: 'Tijuana', iana: 'America/Tijuana', country: 'Mexico', countryCode: 'MX', population: 2200000 },
+  { name: 'Guatemala City', iana: 'America/Guatemala', country: 'Guatemala', countryCode: 'GT', population: 3000000 },
+  { name: 'San José', iana: 'America/Costa_Rica', country: 'Costa Rica', countryCode: 'CR', population: 1400000 },
+  { name: 'Panama City', iana: 'America/Panama', country: 'Panama', countryCode: 'PA', population: 1900000 },
+  { name: 'Havana', iana: 'America/Havana', country: 'Cuba', countryCode: 'CU', population: 2100000, aliases: ['La Habana'] },
+  { name: 'Santo Domingo', iana: 'America/Santo_Domingo', country: 'Dominican Republic', countryCode: 'DO', population: 3500000 },
+  { name: 'San Juan', iana: 'America/Puerto_Rico', country: 'Puerto Rico', countryCode: 'PR', population: 2400000 },
+  { name: 'Kingston', iana: 'America/Jamaica', country: 'Jamaica', countryCode: 'JM', population: 1200000 },
+  { name: 'Bogotá', iana: 'America/Bogota', country: 'Colombia', countryCode: 'CO', population: 11300000, aliases: ['Bogota'] },
+  { name: 'Medellín', iana: 'America/Bogota', country: 'Colombia', countryCode: 'CO', population: 4000000, aliases: ['Medellin'] },
+  { name: 'Caracas', iana: 'America/Caracas', country: 'Venezuela', countryCode: 'VE', population: 3000000 },
+  { name: 'Lima', iana: 'America/Lima', country: 'Peru', countryCode: 'PE', population: 11200000 },
+  { name: 'Quito', iana: 'America/Guayaquil', country: 'Ecuador', countryCode: 'EC', population: 2000000 },
+  { name: 'La Paz', iana: 'America/La_Paz', country: 'Bolivia', countryCode: 'BO', population: 1900000 },
+  { name: 'Santiago', iana: 'America/Santiago', country: 'Chile', countryCode: 'CL', population: 6900000 },
+  { name: 'Buenos Aires', iana: 'America/Argentina/Buenos_Aires', country: 'Argentina', countryCode: 'AR', population: 15600000, aliases: ['BA', 'CABA'] },
+  { name: 'Montevideo', iana: 'America/Montevideo', country: 'Uruguay', countryCode: 'UY', population: 1800000 },
+  { name: 'Asunción', iana: 'America/Asuncion', country: 'Paraguay', countryCode: 'PY', population: 3400000, aliases: ['Asuncion'] },
+  { name: 'São Paulo', iana: 'America/Sao_Paulo', country: 'Brazil', countryCode: 'BR', population: 22600000, aliases: ['Sao Paulo', 'SP', 'Sampa'] },
+  { name: 'Rio de Janeiro', iana: 'America/Sao_Paulo', country: 'Brazil', countryCode: 'BR', population: 13700000, aliases: ['Rio'] },
+  { name: 'Brasília', iana: 'America/Sao_Paulo', country: 'Brazil', countryCode: 'BR', population: 4800000, aliases: ['Brasilia'] },
+  { name: 'Manaus', iana: 'America/Manaus', country: 'Brazil', countryCode: 'BR', population: 2300000 },
+
+  // Africa
+  { name: 'Cairo', iana: 'Africa/Cairo', country: 'Egypt', countryCode: 'EG', population: 22200000, aliases: ['Al Qahirah'] },
+  { name: 'Lagos', iana: 'Africa/Lagos', country: 'Nigeria', countryCode: 'NG', population: 15900000 },
+  { name: 'Abuja', iana: 'Africa/Lagos', country: 'Nigeria', countryCode: 'NG', population: 3800000 },
+  { name: 'Kinshasa', iana: 'Africa/Kinshasa', country: 'DR Congo', countryCode: 'CD', population: 16300000 },
+  { name: 'Johannesburg', iana: 'Africa/Johannesburg', country: 'South Africa', countryCode: 'ZA', population: 6200000, aliases: ['Joburg', 'Jozi', 'JNB'] },
+  { name: 'Cape Town', iana: 'Africa/Johannesburg', country: 'South Africa', countryCode: 'ZA', population: 4800000 },
+  { name: 'Nairobi', iana: 'Africa/Nairobi', country: 'Kenya', countryCode: 'KE', population: 5300000 },
+  { name: 'Addis Ababa', iana: 'Africa/Addis_Ababa', country: 'Ethiopia', countryCode: 'ET', population: 5500000 },
+  { name: 'Dar es Salaam', iana: 'Africa/Dar_es_Salaam', country: 'Tanzania', countryCode: 'TZ', population: 7800000 },
+  { name: 'Kampala', iana: 'Africa/Kampala', country: 'Uganda', countryCode: 'UG', population: 3800000 },
+  { name: 'Kigali', iana: 'Africa/Kigali', country: 'Rwanda', countryCode: 'RW', population: 1300000 },
+  { name: 'Accra', iana: 'Africa/Accra', country: 'Ghana', countryCode: 'GH', population: 2700000 },
+  { name: 'Dakar', iana: 'Africa/Dakar', country: 'Senegal', countryCode: 'SN', population: 3400000 },
+  { name: 'Abidjan', iana: 'Africa/Abidjan', country: "Côte d'Ivoire", countryCode: 'CI', population: 5700000 },
+  { name: 'Casablanca', iana: 'Africa/Casablanca', country: 'Morocco', countryCode: 'MA', population: 3800000 },
+  { name: 'Algiers', iana: 'Africa/Algiers', country: 'Algeria', countryCode: 'DZ', population: 2900000 },
+  { name: 'Tunis', iana: 'Africa/Tunis', country: 'Tunisia', countryCode: 'TN', population: 2400000 },
+  { name: 'Luanda', iana: 'Africa/Luanda', country: 'Angola', countryCode: 'AO', population: 9300000 },
+  { name: 'Harare', iana: 'Africa/Harare', country: 'Zimbabwe', countryCode: 'ZW', population: 1600000 },
+  { name: 'Port Louis', iana: 'Indian/Mauritius', country: 'Mauritius', countryCode: 'MU', population: 150000, aliases: ['Mauritius'] },
+
+  // Oceania
+  { name: 'Sydney', iana: 'Australia/Sydney', country: 'Australia', countryCode: 'AU', population: 5300000, label: 'Australia Eastern', aliases: ['SYD'] },
+  { name: 'Melbourne', iana: 'Australia/Melbourne', country: 'Australia', countryCode: 'AU', population: 5200000, label: 'Australia Eastern', aliases: ['MEL'] },
+  { name: 'Brisbane', iana: 'Australia/Brisbane', country: 'Australia', countryCode: 'AU', population: 2600000, label: 'Australia Eastern (no DST)' },
+  { name: 'Canberra', iana: 'Australia/Sydney', country: 'Australia', countryCode: 'AU', population: 470000, label: 'Australia Eastern' },
+  { name: 'Adelaide', iana: 'Australia/Adelaide', country: 'Australia', countryCode: 'AU', population: 1400000, label: 'Australia Central' },
+  { name: 'Darwin', iana: 'Australia/Darwin', country: 'Australia', countryCode: 'AU', population: 150000, label: 'Australia Central (no DST)' },
+  { name: 'Perth', iana: 'Australia/Perth', country: 'Australia', countryCode: 'AU', population: 2200000, label: 'Australia Western' },
+  { name: 'Hobart', iana: 'Australia/Hobart', country: 'Australia', countryCode: 'AU', population: 250000, label: 'Australia Eastern' },
+  { name: 'Auckland', iana: 'Pacific/Auckland', country: 'New Zealand', countryCode: 'NZ', population: 1700000, aliases: ['AKL'] },
+  { name: 'Wellington', iana: 'Pacific/Auckland', country: 'New Zealand', countryCode: 'NZ', population: 440000 },
+  { name: 'Suva', iana: 'Pacific/Fiji', country: 'Fiji', countryCode: 'FJ', population: 180000, aliases: ['Fiji'] },
+  { name: 'Port Moresby', iana: 'Pacific/Port_Moresby', country: 'Papua New Guinea', countryCode: 'PG', population: 400000 },
+  { name: 'Apia', iana: 'Pacific/Apia', country: 'Samoa', countryCode: 'WS', population: 40000 },
+  { name: 'Chatham Islands', iana: 'Pacific/Chatham', country: 'New Zealand', countryCode: 'NZ', population: 600 },
+
+  // Universal
+  { name: 'UTC', iana: 'UTC', country: 'Coordinated Universal Time', countryCode: '', population: 0, aliases: ['GMT', 'Zulu', 'Universal'] },
+];
@@ -0,0 +1,598 @@
+// Public holidays per country, bundled so the grid works offline.
+// `fixed` holds holidays that fall on the same date every year (MM-DD);
+// `dated` holds movable and substitute holidays for specific years (YYYY-MM-DD).
+// Movable holidays currently cover 2025 and 2026.
+export interface CountryHolidays {
+  fixed: Record<string, string>;
+  dated: Record<string, string>;
+}
+
+export const countryHolidays: Record<string, CountryHolidays> = {
+  'United States': {
+    fixed: {
+      '01-01': "New Year's Day",
+      '06-19': 'Juneteenth',
+      '07-04': 'Independence Day',
+      '11-11': 'Veterans Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-01-20': 'Martin Luther King Jr. Day',
+      '2025-02-17': "Presidents' Day",
+      '2025-05-26': 'Memorial Day',
+      '2025-09-01': 'Labor Day',
+      '2025-10-13': 'Columbus Day',
+      '2025-11-27': 'Thanksgiving Day',
+      '2026-01-19': 'Martin Luther King Jr. Day',
+      '2026-02-16': "Presidents' Day",
+      '2026-05-25': 'Memorial Day',
+      '2026-07-03': 'Independence Day (observed)',
+      '2026-09-07': 'Labor Day',
+      '2026-10-12': 'Columbus Day',
+      '2026-11-26': 'Thanksgiving Day',
+    },
+  },
+  Canada: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '07-01': 'Canada Day',
+      '09-30': 'National Day for Truth and Reconciliation',
+      '11-11': 'Remembrance Day',
+      '12-25': 'Christmas Day',
+      '12-26': 'Boxing Day',
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-05-19': 'Victoria Day',
+      '2025-09-01': 'Labour Day',
+      '2025-10-13': 'Thanksgiving',
+      '2026-04-03': 'Good Friday',
+      '2026-05-18': 'Victoria Day',
+      '2026-09-07': 'Labour Day',
+      '2026-10-12': 'Thanksgiving',
+      '2026-12-28': 'Boxing Day (observed)',
+    },
+  },
+  Mexico: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-01': 'Labour Day',
+      '09-16': 'Independence Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-02-03': 'Constitution Day',
+      '2025-03-17': "Benito Juárez's Birthday",
+      '2025-11-17': 'Revolution Day',
+      '2026-02-02': 'Constitution Day',
+      '2026-03-16': "Benito Juárez's Birthday",
+      '2026-11-16': 'Revolution Day',
+    },
+  },
+  Brazil: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '04-21': 'Tiradentes',
+      '05-01': 'Labour Day',
+      '09-07': 'Independence Day',
+      '10-12': 'Our Lady of Aparecida',
+      '11-02': "All Souls' Day",
+      '11-15': 'Republic Day',
+      '11-20': 'Black Consciousness Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-03-03': 'Carnival',
+      '2025-03-04': 'Carnival',
+      '2025-04-18': 'Good Friday',
+      '2025-06-19': 'Corpus Christi',
+      '2026-02-16': 'Carnival',
+      '2026-02-17': 'Carnival',
+      '2026-04-03': 'Good Friday',
+      '2026-06-04': 'Corpus Christi',
+    },
+  },
+  'United Kingdom': {
+    fixed: {
+      '01-01': "New Year's Day",
+      '12-25': 'Christmas Day',
+      '12-26': 'Boxing Day',
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-05': 'Early May Bank Holiday',
+      '2025-05-26': 'Spring Bank Holiday',
+      '2025-08-25': 'Summer Bank Holiday',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-04': 'Early May Bank Holiday',
+      '2026-05-25': 'Spring Bank Holiday',
+      '2026-08-31': 'Summer Bank Holiday',
+      '2026-12-28': 'Boxing Day (substitute day)',
+    },
+  },
+  Germany: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-01': 'Labour Day',
+      '10-03': 'German Unity Day',
+      '12-25': 'Christmas Day',
+      '12-26': "St. Stephen's Day",
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-29': 'Ascension Day',
+      '2025-06-09': 'Whit Monday',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-14': 'Ascension Day',
+      '2026-05-25': 'Whit Monday',
+    },
+  },
+  France: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-01': 'Labour Day',
+      '05-08': 'Victory in Europe Day',
+      '07-14': 'Bastille Day',
+      '08-15': 'Assumption Day',
+      '11-01': "All Saints' Day",
+      '11-11': 'Armistice Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-04-21': 'Easter Monday',
+      '2025-05-29': 'Ascension Day',
+      '2025-06-09': 'Whit Monday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-14': 'Ascension Day',
+      '2026-05-25': 'Whit Monday',
+    },
+  },
+  Netherlands: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-05': 'Liberation Day',
+      '12-25': 'Christmas Day',
+      '12-26': 'Second Day of Christmas',
+    },
+    dated: {
+      '2025-04-21': 'Easter Monday',
+      '2025-04-26': "King's Day",
+      '2025-05-29': 'Ascension Day',
+      '2025-06-09': 'Whit Monday',
+      '2026-04-06': 'Easter Monday',
+      '2026-04-27': "King's Day",
+      '2026-05-14': 'Ascension Day',
+      '2026-05-25': 'Whit Monday',
+    },
+  },
+  Spain: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '01-06': 'Epiphany',
+      '05-01': 'Labour Day',
+      '08-15': 'Assumption Day',
+      '10-12': 'National Day',
+      '11-01': "All Saints' Day",
+      '12-06': 'Constitution Day',
+      '12-08': 'Immaculate Conception',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2026-04-03': 'Good Friday',
+    },
+  },
+  Italy: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '01-06': 'Epiphany',
+      '04-25': 'Liberation Day',
+      '05-01': 'Labour Day',
+      '06-02': 'Republic Day',
+      '08-15': 'Ferragosto',
+      '11-01': "All Saints' Day",
+      '12-08': 'Immaculate Conception',
+      '12-25': 'Christmas Day',
+      '12-26': "St. Stephen's Day",
+    },
+    dated: {
+      '2025-04-21': 'Easter Monday',
+      '2026-04-06': 'Easter Monday',
+    },
+  },
+  Switzerland: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '08-01': 'Swiss National Day',
+      '12-25': 'Christmas Day',
+      '12-26': "St. Stephen's Day",
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-29': 'Ascension Day',
+      '2025-06-09': 'Whit Monday',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-14': 'Ascension Day',
+      '2026-05-25': 'Whit Monday',
+    },
+  },
+  Sweden: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '01-06': 'Epiphany',
+      '05-01': 'May Day',
+      '06-06': 'National Day',
+      '12-24': 'Christmas Eve',
+      '12-25': 'Christmas Day',
+      '12-26': 'Boxing Day',
+      '12-31': "New Year's Eve",
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-29': 'Ascension Day',
+      '2025-06-20': 'Midsummer Eve',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-14': 'Ascension Day',
+      '2026-06-19': 'Midsummer Eve',
+    },
+  },
+  'South Africa': {
+    fixed: {
+      '01-01': "New Year's Day",
+      '03-21': 'Human Rights Day',
+      '04-27': 'Freedom Day',
+      '05-01': "Workers' Day",
+      '06-16': 'Youth Day',
+      '08-09': "National Women's Day",
+      '09-24': 'Heritage Day',
+      '12-16': 'Day of Reconciliation',
+      '12-25': 'Christmas Day',
+      '12-26': 'Day of Goodwill',
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Family Day',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Family Day',
+      '2026-04-28': 'Freedom Day (observed)',
+      '2026-08-10': "National Women's Day (observed)",
+    },
+  },
+  'United Arab Emirates': {
+    fixed: {
+      '01-01': "New Year's Day",
+      '12-02': 'National Day',
+      '12-03': 'National Day',
+    },
+    dated: {
+      '2025-03-31': 'Eid al-Fitr',
+      '2025-04-01': 'Eid al-Fitr',
+      '2025-06-05': 'Arafat Day',
+      '2025-06-06': 'Eid al-Adha',
+      '2026-03-20': 'Eid al-Fitr',
+      '2026-03-21': 'Eid al-Fitr',
+      '2026-05-26': 'Arafat Day',
+      '2026-05-27': 'Eid al-Adha',
+    },
+  },
+  Pakistan: {
+    fixed: {
+      '02-05': 'Kashmir Solidarity Day',
+      '03-23': 'Pakistan Day',
+      '05-01': 'Labour Day',
+      '08-14': 'Independence Day',
+      '11-09': 'Iqbal Day',
+      '12-25': 'Quaid-e-Azam Day',
+    },
+    dated: {
+      '2025-03-31': 'Eid al-Fitr',
+      '2025-04-01': 'Eid al-Fitr',
+      '2025-04-02': 'Eid al-Fitr',
+      '2025-06-07': 'Eid al-Adha',
+      '2025-06-08': 'Eid al-Adha',
+      '2026-03-21': 'Eid al-Fitr',
+      '2026-03-22': 'Eid al-Fitr',
+      '2026-03-23': 'Eid al-Fitr',
+      '2026-05-27': 'Eid al-Adha',
+      '2026-05-28': 'Eid al-Adha',
+    },
+  },
+  India: {
+    fixed: {
+      '01-26': 'Republic Day',
+      '08-15': 'Independence Day',
+      '10-02': 'Gandhi Jayanti',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-03-14': 'Holi',
+      '2025-03-31': 'Eid al-Fitr',
+      '2025-04-18': 'Good Friday',
+      '2025-10-20': 'Diwali',
+      '2026-03-04': 'Holi',
+      '2026-03-21': 'Eid al-Fitr',
+      '2026-04-03': 'Good Friday',
+      '2026-10-20': 'Dussehra',
+      '2026-11-08': 'Diwali',
+    },
+  },
+  'Sri Lanka': {
+    fixed: {
+      '02-04': 'Independence Day',
+      '04-13': 'Sinhala and Tamil New Year Eve',
+      '04-14': 'Sinhala and Tamil New Year',
+      '05-01': 'May Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-01-13': 'Duruthu Full Moon Poya Day',
+      '2025-01-14': 'Tamil Thai Pongal Day',
+      '2025-02-12': 'Navam Full Moon Poya Day',
+      '2025-03-13': 'Medin Full Moon Poya Day',
+      '2025-03-31': 'Id-Ul-Fitr',
+      '2025-04-12': 'Bak Full Moon Poya Day',
+      '2025-04-18': 'Good Friday',
+      '2025-05-12': 'Vesak Full Moon Poya Day',
+      '2025-05-13': 'Day following Vesak Full Moon Poya Day',
+      '2025-06-07': 'Id-Ul-Alha',
+      '2025-06-10': 'Poson Full Moon Poya Day',
+      '2025-07-10': 'Esala Full Moon Poya Day',
+      '2025-08-08': 'Nikini Full Moon Poya Day',
+      '2025-09-07': 'Binara Full Moon Poya Day',
+      '2025-10-06': 'Vap Full Moon Poya Day',
+      '2025-10-20': 'Deepavali',
+      '2025-11-05': 'Il Full Moon Poya Day',
+      '2025-12-04': 'Unduvap Full Moon Poya Day',
+      '2026-01-03': 'Duruthu Full Moon Poya Day',
+      '2026-01-15': 'Tamil Thai Pongal Day',
+      '2026-02-01': 'Navam Full Moon Poya Day',
+      '2026-03-02': 'Medin Full Moon Poya Day',
+      '2026-03-21': 'Id-Ul-Fitr',
+      '2026-04-01': 'Bak Full Moon Poya Day',
+      '2026-04-03': 'Good Friday',
+      '2026-05-01': 'Vesak Full Moon Poya Day',
+      '2026-05-02': 'Day following Vesak Full Moon Poya Day',
+      '2026-05-28': 'Id-Ul-Alha',
+      '2026-05-30': 'Adhi Poson Full Moon Poya Day',
+      '2026-06-29': 'Poson Full Moon Poya Day',
+      '2026-07-29': 'Esala Full Moon Poya Day',
+      '2026-08-27': 'Nikini Full Moon Poya Day',
+      '2026-09-26': 'Binara Full Moon Poya Day',
+      '2026-10-25': 'Vap Full Moon Poya Day',
+      '2026-11-08': 'Deepavali',
+      '2026-11-24': 'Il Full Moon Poya Day',
+      '2026-12-23': 'Unduvap Full Moon Poya Day',
+    },
+  },
+  Singapore: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-01': 'Labour Day',
+      '08-09': 'National Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-01-29': 'Chinese New Year',
+      '2025-01-30': 'Chinese New Year',
+      '2025-03-31': 'Hari Raya Puasa',
+      '2025-04-18': 'Good Friday',
+      '2025-05-12': 'Vesak Day',
+      '2025-06-07': 'Hari Raya Haji',
+      '2025-10-20': 'Deepavali',
+      '2026-02-17': 'Chinese New Year',
+      '2026-02-18': 'Chinese New Year',
+      '2026-03-21': 'Hari Raya Puasa',
+      '2026-04-03': 'Good Friday',
+      '2026-05-27': 'Hari Raya Haji',
+      '2026-06-01': 'Vesak Day (observed)',
+      '2026-08-10': 'National Day (observed)',
+      '2026-11-09': 'Deepavali (observed)',
+    },
+  },
+  Malaysia: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-01': 'Labour Day',
+      '08-31': 'National Day',
+      '09-16': 'Malaysia Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-01-29': 'Chinese New Year',
+      '2025-01-30': 'Chinese New Year',
+      '2025-03-31': 'Hari Raya Aidilfitri',
+      '2025-04-01': 'Hari Raya Aidilfitri',
+      '2025-05-12': 'Wesak Day',
+      '2025-06-07': 'Hari Raya Haji',
+      '2025-10-20': 'Deepavali',
+      '2026-02-17': 'Chinese New Year',
+      '2026-02-18': 'Chinese New Year',
+      '2026-03-21': 'Hari Raya Aidilfitri',
+      '2026-03-22': 'Hari Raya Aidilfitri',
+      '2026-05-27': 'Hari Raya Haji',
+      '2026-05-31': 'Wesak Day',
+      '2026-11-08': 'Deepavali',
+    },
+  },
+  'Hong Kong': {
+    fixed: {
+      '01-01': 'The first day of January',
+      '05-01': 'Labour Day',
+      '07-01': 'HKSAR Establishment Day',
+      '10-01': 'National Day',
+      '12-25': 'Christmas Day',
+      '12-26': 'The first weekday after Christmas Day',
+    },
+    dated: {
+      '2025-01-29': 'Lunar New Year',
+      '2025-01-30': 'Lunar New Year',
+      '2025-01-31': 'Lunar New Year',
+      '2025-04-04': 'Ching Ming Festival',
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-05': "Buddha's Birthday",
+      '2025-05-31': 'Tuen Ng Festival',
+      '2025-10-07': 'Day following Mid-Autumn Festival',
+      '2025-10-29': 'Chung Yeung Festival',
+      '2026-02-17': 'Lunar New Year',
+      '2026-02-18': 'Lunar New Year',
+      '2026-02-19': 'Lunar New Year',
+      '2026-04-03': 'Good Friday',
+      '2026-04-04': 'Day following Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-04-07': 'Day following Ching Ming Festival',
+      '2026-05-25': "Day following Buddha's Birthday",
+      '2026-06-19': 'Tuen Ng Festival',
+      '2026-09-26': 'Day following Mid-Autumn Festival',
+      '2026-10-19': 'Day following Chung Yeung Festival',
+    },
+  },
+  China: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '05-01': 'Labour Day',
+      '10-01': 'National Day',
+      '10-02': 'National Day',
+      '10-03': 'National Day',
+    },
+    dated: {
+      '2025-01-28': 'Spring Festival',
+      '2025-01-29': 'Spring Festival',
+      '2025-01-30': 'Spring Festival',
+      '2025-01-31': 'Spring Festival',
+      '2025-02-03': 'Spring Festival',
+      '2025-02-04': 'Spring Festival',
+      '2025-04-04': 'Qingming Festival',
+      '2025-05-02': 'Labour Day',
+      '2025-05-05': 'Labour Day',
+      '2025-06-02': 'Dragon Boat Festival',
+      '2025-10-06': 'Mid-Autumn Festival',
+      '2025-10-07': 'National Day',
+      '2025-10-08': 'National Day',
+      '2026-02-16': 'Spring Festival',
+      '2026-02-17': 'Spring Festival',
+      '2026-02-18': 'Spring Festival',
+      '2026-02-19': 'Spring Festival',
+      '2026-02-20': 'Spring Festival',
+      '2026-02-23': 'Spring Festival',
+      '2026-04-06': 'Qingming Festival',
+      '2026-05-04': 'Labour Day',
+      '2026-05-05': 'Labour Day',
+      '2026-06-19': 'Dragon Boat Festival',
+      '2026-09-25': 'Mid-Autumn Festival',
+      '2026-10-05': 'National Day',
+      '2026-10-06': 'National Day',
+      '2026-10-07': 'National Day',
+    },
+  },
+  Japan: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '02-11': 'National Foundation Day',
+      '02-23': "Emperor's Birthday",
+      '04-29': 'Showa Day',
+      '05-03': 'Constitution Memorial Day',
+      '05-04': 'Greenery Day',
+      '05-05': "Children's Day",
+      '08-11': 'Mountain Day',
+      '11-03': 'Culture Day',
+      '11-23': 'Labor Thanksgiving Day',
+    },
+    dated: {
+      '2025-01-13': 'Coming of Age Day',
+      '2025-02-24': "Emperor's Birthday (substitute)",
+      '2025-03-20': 'Vernal Equinox Day',
+      '2025-05-06': 'Greenery Day (substitute)',
+      '2025-07-21': 'Marine Day',
+      '2025-09-15': 'Respect for the Aged Day',
+      '2025-09-23': 'Autumnal Equinox Day',
+      '2025-10-13': 'Sports Day',
+      '2025-11-24': 'Labor Thanksgiving Day (substitute)',
+      '2026-01-12': 'Coming of Age Day',
+      '2026-03-20': 'Vernal Equinox Day',
+      '2026-05-06': 'Constitution Memorial Day (substitute)',
+      '2026-07-20': 'Marine Day',
+      '2026-09-21': 'Respect for the Aged Day',
+      '2026-09-22': "Citizens' Holiday",
+      '2026-09-23': 'Autumnal Equinox Day',
+      '2026-10-12': 'Sports Day',
+    },
+  },
+  'South Korea': {
+    fixed: {
+      '01-01': "New Year's Day",
+      '03-01': 'Independence Movement Day',
+      '05-05': "Children's Day",
+      '06-06': 'Memorial Day',
+      '08-15': 'Liberation Day',
+      '10-03': 'National Foundation Day',
+      '10-09': 'Hangul Day',
+      '12-25': 'Christmas Day',
+    },
+    dated: {
+      '2025-01-28': 'Seollal',
+      '2025-01-29': 'Seollal',
+      '2025-01-30': 'Seollal',
+      '2025-05-06': "Buddha's Birthday (substitute)",
+      '2025-10-06': 'Chuseok',
+      '2025-10-07': 'Chuseok',
+      '2025-10-08': 'Chuseok (substitute)',
+      '2026-02-16': 'Seollal',
+      '2026-02-17': 'Seollal',
+      '2026-02-18': 'Seollal',
+      '2026-05-25': "Buddha's Birthday (substitute)",
+      '2026-09-24': 'Chuseok',
+      '2026-09-25': 'Chuseok',
+    },
+  },
+  Australia: {
+    fixed: {
+      '01-01': "New Year's Day",
+      '01-26': 'Australia Day',
+      '04-25': 'Anzac Day',
+      '12-25': 'Christmas Day',
+      '12-26': 'Boxing Day',
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-06-09': "King's Birthday",
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-06-08': "King's Birthday",
+      '2026-12-28': 'Boxing Day (additional day)',
+    },
+  },
+  'New Zealand': {
+    fixed: {
+      '01-01': "New Year's Day",
+      '01-02': "Day after New Year's Day",
+      '02-06': 'Waitangi Day',
+      '04-25': 'Anzac Day',
+      '12-25': 'Christmas Day',
+      '12-26': 'Boxing Day',
+    },
+    dated: {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-06-02': "King's Birthday",
+      '2025-06-20': 'Matariki',
+      '2025-10-27': 'Labour Day',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-04-27': 'Anzac Day (observed)',
+      '2026-06-01': "King's Birthday",
+      '2026-07-10': 'Matariki',
+      '2026-10-26': 'Labour Day',
+      '2026-12-28': 'Boxing Day (observed)',
+    },
+  },
+};
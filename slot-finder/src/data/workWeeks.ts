@@ -0,0 +1,26 @@
+// Working days per country where they differ from Monday–Friday
+// 0 = Sunday ... 6 = Saturday. Entries are ordered oldest first; an entry
+// applies to dates before its `until` date (YYYY-MM-DD), the last one has none.
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export const countryWorkWeeks: Record<string, { days: number[]; until?: string }[]> = {
+  // Moved from a Friday–Saturday weekend to Saturday–Sunday in 2022
+  'United Arab Emirates': [
+    { days: [0, 1, 2, 3, 4], until: '2022-01-01' },
+    { days: [1, 2, 3, 4, 5] },
+  ],
+  'Saudi Arabia': [{ days: [0, 1, 2, 3, 4] }],
+  Kuwait: [{ days: [0, 1, 2, 3, 4] }],
+  Qatar: [{ days: [0, 1, 2, 3, 4] }],
+  Bahrain: [{ days: [0, 1, 2, 3, 4] }],
+  Oman: [{ days: [0, 1, 2, 3, 4] }],
+  Jordan: [{ days: [0, 1, 2, 3, 4] }],
+  Iraq: [{ days: [0, 1, 2, 3, 4] }],
+  Egypt: [{ days: [0, 1, 2, 3, 4] }],
+  Algeria: [{ days: [0, 1, 2, 3, 4] }],
+  Israel: [{ days: [0, 1, 2, 3, 4] }],
+  Bangladesh: [{ days: [0, 1, 2, 3, 4] }],
+  Iran: [{ days: [6, 0, 1, 2, 3] }],
+  Afghanistan: [{ days: [6, 0, 1, 2, 3] }],
+  Nepal: [{ days: [0, 1, 2, 3, 4, 5] }],
+};
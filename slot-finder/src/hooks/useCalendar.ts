@@ -1,8 +1,13 @@
-import { useState, useCallback } from 'react';
-import { MeetingDetails } from '../types';
+import { useState, useCallback, useRef } from 'react';
+import { MeetingDetails, SendUpdates } from '../types';
 import { useAuthContext } from '../context/AuthContext';
+import { useCalendarFeeds } from '../context/CalendarFeedsContext';
+import { useCalendars, AccountBusy } from '../context/CalendarsContext';
+import { CalendarApiError } from '../lib/calendarProvider';
+import type { CalendarAuth, CalendarProviderId, CreateEventOptions, ProviderEvent } from '../lib/calendarProvider';
+import { getCalendarProvider } from '../lib/calendarProviders';
 
-interface GoogleCalendarEvent {
+export interface CalendarEvent {
   id: string;
   summary: string;
   description?: string;
@@ -16,134 +21,105 @@ interface GoogleCalendarEvent {
   };
   attendees?: Array<{ email: string; displayName?: string }>;
   status: string;
-  source: 'google' | 'local';
+  source: CalendarProviderId | 'feed' | 'local';
+  calendarId?: string; // Calendar the event was loaded from
+  color?: string; // Feed events carry their feed's color
 }
 
+const toCalendarEvent = (event: ProviderEvent, calendarId: string, source: CalendarProviderId): CalendarEvent => ({
+  id: event.id,
+  summary: event.summary || 'Untitled Event',
+  description: event.description,
+  start: event.start as CalendarEvent['start'],
+  end: event.end as CalendarEvent['end'],
+  attendees: event.attendees,
+  status: event.status || 'confirmed',
+  source,
+  calendarId,
+});
+
+// Busy blocks from another signed-in account; only times are shared, never titles
+const ACCOUNT_BUSY_COLOR = '#9e9e9e';
+
+const accountBusyToCalendarEvents = ({ account, busy }: AccountBusy): CalendarEvent[] =>
+  busy.map((interval, index) => ({
+    id: `${account.id}-busy-${index}`,
+    summary: `Busy · ${account.user.email}`,
+    start: { dateTime: interval.start.toISOString(), timeZone: 'UTC' },
+    end: { dateTime: interval.end.toISOString(), timeZone: 'UTC' },
+    status: 'confirmed',
+    source: account.provider,
+    calendarId: `account:${account.id}`,
+    color: ACCOUNT_BUSY_COLOR,
+  }));
+
 export function useCalendar() {
   const [isCreating, setIsCreating] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [events, setEvents] = useState<GoogleCalendarEvent[]>([]);
-  const { token, refreshToken: refreshAuthToken } = useAuthContext();
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const { token, refreshToken, provider, accounts, activeAccountId, getAccountAuth, hasAccess, requestAccess } =
+    useAuthContext();
+  // Overlays stay empty until the account allows reading its calendars
+  const canReadEvents = hasAccess('readEvents');
+  const { loadFeedEvents } = useCalendarFeeds();
+  const { loadOtherAccountsBusy } = useCalendars();
 
-  // Helper function to get current token
-  const getCurrentToken = async (): Promise<string> => {
-    if (!token) {
-      throw new Error('No authentication token available');
+  // Read the latest token without making every callback depend on it
+  const authRef = useRef({ token, refreshToken, provider, accounts, activeAccountId, getAccountAuth });
+  authRef.current = { token, refreshToken, provider, accounts, activeAccountId, getAccountAuth };
+
+  const getAuth = useCallback((): CalendarAuth => {
+    if (!authRef.current.token) {
+      throw new CalendarApiError('No authentication token available', 'unauthorized');
     }
-    return token;
-  };
+    return { token: authRef.current.token, refreshToken: authRef.current.refreshToken };
+  }, []);
 
-  // Helper function to make API calls with automatic token refresh
-  const apiCallWithTokenRefresh = async (url: string, options: RequestInit): Promise<Response> => {
-    try {
-      let currentToken = await getCurrentToken();
-      
-      // First attempt with current token
-      const headers = {
-        ...options.headers,
-        'Authorization': `Bearer ${currentToken}`,
-        'Content-Type': 'application/json'
-      };
-      
-      let response = await fetch(url, { ...options, headers });
-      
-      // If unauthorized, try to refresh token and retry once
-      if (response.status === 401) {
-        console.log('Token expired, attempting to refresh...');
-        try {
-          const newToken = await refreshAuthToken();
-          if (!newToken) throw new Error('Failed to refresh token');
-          
-          // Retry with fresh token
-          const refreshedHeaders = {
-            ...options.headers,
-            'Authorization': `Bearer ${newToken}`,
-            'Content-Type': 'application/json'
-          };
-          response = await fetch(url, { ...options, headers: refreshedHeaders });
-        } catch (refreshError) {
-          console.error('Failed to refresh token:', refreshError);
-          throw new Error('Authentication failed. Please sign in again.');
-        }
-      }
-      
-      return response;
-    } catch (error) {
-      console.error('API call failed:', error);
-      throw error;
+  // Auth and provider of the account that created an event, which may no
+  // longer be the active one; events from before accounts were recorded
+  // belong to the active account
+  const getEventAuth = useCallback(async (accountId?: string) => {
+    const { activeAccountId, accounts, getAccountAuth } = authRef.current;
+    if (!accountId || accountId === activeAccountId) {
+      return { auth: getAuth(), provider: authRef.current.provider };
     }
-  };
 
-  const createEvent = async (meetingDetails: MeetingDetails) => {
+    const account = accounts.find(candidate => candidate.id === accountId);
+    const auth = account && (await getAccountAuth(accountId));
+    if (!account || !auth) {
+      throw new CalendarApiError('The account that created this event is signed out', 'unauthorized');
+    }
+    return { auth, provider: account.provider };
+  }, [getAuth]);
+
+  const createEvent = async (
+    meetingDetails: MeetingDetails,
+    calendarId: string = 'primary',
+    options: Omit<CreateEventOptions, 'calendarId'> = {}
+  ) => {
     setIsCreating(true);
-    
+
     try {
-      const event = {
-        summary: meetingDetails.title,
-        description: meetingDetails.description,
-        start: {
-          dateTime: meetingDetails.startTime,
-          timeZone: meetingDetails.timezone,
-        },
-        end: {
-          dateTime: meetingDetails.endTime,
-          timeZone: meetingDetails.timezone,
-        },
-        attendees: meetingDetails.attendees.map(email => ({ email })),
-        conferenceData: {
-          createRequest: {
-            requestId: `meet-${Date.now()}`,
-            conferenceSolutionKey: {
-              type: 'hangoutsMeet'
-            }
-          }
-        },
-        reminders: {
-          useDefault: false,
-          overrides: [
-            { method: 'email', minutes: 24 * 60 },
-            { method: 'popup', minutes: 10 }
-          ]
-        }
-      };
+      // Write access is only asked for the first time a meeting is created
+      if (!(await requestAccess('writeEvents'))) {
+        throw new CalendarApiError('Calendar write access was not allowed', 'consent_required');
+      }
 
-      const response = await apiCallWithTokenRefresh('https://www.googleapis.com/calendar/v3/calendars/primary/events?conferenceDataVersion=1', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(event),
-      });
+      const created = await getCalendarProvider(provider).createEvent(getAuth(), meetingDetails, { ...options, calendarId });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error?.message || 'Failed to create event');
+      // Show success notification, but not for every hold of a proposal
+      if (!options.tentative) {
+        chrome.notifications?.create({
+          type: 'basic',
+          iconUrl: 'icons/icon48.png',
+          title: 'Meeting Created',
+          message: `"${meetingDetails.title}" has been added to your calendar`
+        });
       }
 
-      const createdEvent = await response.json();
-      
-      // Show success notification
-      chrome.notifications?.create({
-        type: 'basic',
-        iconUrl: 'icons/icon48.png',
-        title: 'Meeting Created',
-        message: `"${meetingDetails.title}" has been added to your calendar`
-      });
-
-      // Add the created event to local state
-      const localEvent: GoogleCalendarEvent = {
-        id: createdEvent.id,
-        summary: createdEvent.summary,
-        description: createdEvent.description,
-        start: createdEvent.start,
-        end: createdEvent.end,
-        attendees: createdEvent.attendees,
-        status: createdEvent.status,
-        source: 'google'
-      };
-      setEvents(prev => [...prev, localEvent]);
-      
-      return createdEvent;
+      setEvents(prev => [...prev, toCalendarEvent(created.event, calendarId, provider)]);
+      // Recorded with the event so later changes use the same account
+      return { ...created, accountId: activeAccountId || undefined };
     } catch (error) {
       console.error('Failed to create calendar event:', error);
       throw error;
@@ -152,91 +128,82 @@ export function useCalendar() {
     }
   };
 
-  const fetchEvents = useCallback(async (startDate: Date, endDate: Date) => {
+  const updateEvent = async (
+    eventId: string,
+    changes: Partial<MeetingDetails>,
+    calendarId: string = 'primary',
+    sendUpdates: SendUpdates = 'all',
+    accountId?: string
+  ) => {
+    try {
+      const { auth, provider: eventProvider } = await getEventAuth(accountId);
+      const updatedEvent = await getCalendarProvider(eventProvider).updateEvent(
+        auth,
+        eventId,
+        changes,
+        calendarId,
+        sendUpdates
+      );
+
+      setEvents(prev => prev.map(event =>
+        event.id === eventId && (event.calendarId || 'primary') === calendarId
+          ? toCalendarEvent(updatedEvent, calendarId, eventProvider)
+          : event
+      ));
+
+      return updatedEvent;
+    } catch (error) {
+      console.error('Failed to update calendar event:', error);
+      throw error;
+    }
+  };
+
+  const fetchEvents = useCallback(async (startDate: Date, endDate: Date, calendarIds: string[] = ['primary']) => {
     setIsLoading(true);
     
     try {
-      // Check authentication first
-      let token;
-      if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-        const result = await chrome.storage.local.get(['google_access_token']);
-        token = result.google_access_token;
-      } else {
-        // Fallback for development
-        token = localStorage.getItem('google_access_token');
-      }
+      const { token } = authRef.current;
+      // Feeds are read whether or not an account is signed in; signed out,
+      // they are all the grid shows besides local meetings
+      const feedEventsPromise = loadFeedEvents(startDate, endDate);
 
-      if (!token || token === 'dev-token') {
-        // Return mock events for development/unauthenticated users
-        const mockEvents: GoogleCalendarEvent[] = [
-          {
-            id: 'mock-1',
-            summary: 'Team Standup',
-            description: 'Daily team standup meeting',
-            start: {
-              dateTime: new Date(startDate.getTime() + 9 * 60 * 60 * 1000).toISOString(), // 9 AM
-              timeZone: 'UTC'
-            },
-            end: {
-              dateTime: new Date(startDate.getTime() + 9.5 * 60 * 60 * 1000).toISOString(), // 9:30 AM
-              timeZone: 'UTC'
-            },
-            attendees: [{ email: 'team@company.com' }],
-            status: 'confirmed',
-            source: 'google'
-          },
-          {
-            id: 'mock-2',
-            summary: 'Project Review',
-            description: 'Weekly project review meeting',
-            start: {
-              dateTime: new Date(startDate.getTime() + 14 * 60 * 60 * 1000).toISOString(), // 2 PM
-              timeZone: 'UTC'
-            },
-            end: {
-              dateTime: new Date(startDate.getTime() + 15 * 60 * 60 * 1000).toISOString(), // 3 PM
-              timeZone: 'UTC'
-            },
-            attendees: [{ email: 'manager@company.com' }],
-            status: 'confirmed',
-            source: 'google'
-          }
-        ];
-        setEvents(mockEvents);
-        return mockEvents;
+      if (!token || !canReadEvents) {
+        const feedEvents = await feedEventsPromise;
+        setEvents(feedEvents);
+        return feedEvents;
       }
 
-      // Fetch real Google Calendar events
+      // Fetch real events from every selected calendar
+      const auth = getAuth();
+      const { provider } = authRef.current;
+      const calendarService = getCalendarProvider(provider);
       const timeMin = startDate.toISOString();
       const timeMax = endDate.toISOString();
-      
-      const response = await fetch(
-        `https://www.googleapis.com/calendar/v3/calendars/primary/events?timeMin=${timeMin}&timeMax=${timeMax}&singleEvents=true&orderBy=startTime`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
+
+      const accountBusyPromise = loadOtherAccountsBusy(startDate, endDate);
+      const results = await Promise.allSettled(
+        calendarIds.map(async (calendarId) =>
+          (await calendarService.listEvents(auth, calendarId, timeMin, timeMax)).map(event =>
+            toCalendarEvent(event, calendarId, provider)
+          )
+        )
       );
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch calendar events');
+      // One unreadable calendar shouldn't hide the others
+      const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (calendarIds.length > 0 && failed.length === calendarIds.length) {
+        throw failed[0].reason;
       }
+      failed.forEach(result => console.warn(result.reason));
 
-      const data = await response.json();
-      const googleEvents: GoogleCalendarEvent[] = data.items.map((item: any) => ({
-        id: item.id,
-        summary: item.summary || 'Untitled Event',
-        description: item.description,
-        start: item.start,
-        end: item.end,
-        attendees: item.attendees,
-        status: item.status,
-        source: 'google' as const
-      }));
+      const calendarEvents = [
+        ...results.flatMap(result => (result.status === 'fulfilled' ? result.value : [])),
+        ...(await accountBusyPromise).flatMap(accountBusyToCalendarEvents),
+        ...(await feedEventsPromise),
+      ];
 
-      setEvents(googleEvents);
-      return googleEvents;
+      setEvents(calendarEvents);
+      return calendarEvents;
     } catch (error) {
       console.error('Failed to fetch calendar events:', error);
       setEvents([]); // Clear events on error
@@ -244,7 +211,7 @@ export function useCalendar() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [getAuth, canReadEvents, loadFeedEvents, loadOtherAccountsBusy]);
 
   const getEventsForTimeSlot = useCallback((time: Date) => {
     return events.filter(event => {
@@ -260,46 +227,34 @@ export function useCalendar() {
     });
   }, [events]);
 
-  const deleteEvent = useCallback(async (eventId: string) => {
+  const deleteEvent = useCallback(async (
+    eventId: string,
+    calendarId: string = 'primary',
+    sendUpdates: SendUpdates = 'all',
+    accountId?: string
+  ) => {
     try {
-      let token;
-      if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-        const result = await chrome.storage.local.get(['google_access_token']);
-        token = result.google_access_token;
-      } else {
-        token = localStorage.getItem('google_access_token');
-      }
-
-      if (!token || token === 'dev-token') {
-        // For development/mock events, just remove from local state
+      const { token } = authRef.current;
+      if (!token) {
+        // Signed out, only local state has the event
         setEvents(prev => prev.filter(event => event.id !== eventId));
         return;
       }
 
-      const response = await fetch(
-        `https://www.googleapis.com/calendar/v3/calendars/primary/events/${eventId}`,
-        {
-          method: 'DELETE',
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to delete calendar event');
-      }
+      const { auth, provider: eventProvider } = await getEventAuth(accountId);
+      await getCalendarProvider(eventProvider).deleteEvent(auth, eventId, calendarId, sendUpdates);
 
       // Remove from local state
-      setEvents(prev => prev.filter(event => event.id !== eventId));
+      setEvents(prev => prev.filter(event => !(event.id === eventId && (event.calendarId || 'primary') === calendarId)));
     } catch (error) {
       console.error('Failed to delete calendar event:', error);
       throw error;
     }
-  }, []);
+  }, [getEventAuth]);
 
   return {
     createEvent,
+    updateEvent,
     fetchEvents,
     deleteEvent,
     getEventsForTimeSlot,
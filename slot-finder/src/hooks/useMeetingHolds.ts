@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import moment from 'moment-timezone';
+import { MeetingHold, MeetingPoll } from '../types';
+import { useMeetings } from '../context/MeetingsContext';
+import { useCalendars } from '../context/CalendarsContext';
+import { useCalendar } from './useCalendar';
+
+// How long holds stay on the calendar unless the user picks otherwise
+export const DEFAULT_HOLD_HOURS = 72;
+
+/**
+ * Tentative "HOLD" events on the user's own calendar for each option of a
+ * proposal, so nothing else gets booked over them while attendees answer
+ */
+export function useMeetingHolds() {
+  const { holds, addHold, removeHold } = useMeetings();
+  const { targetCalendarId } = useCalendars();
+  const { createEvent, deleteEvent } = useCalendar();
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  // Options that already have a hold are skipped, so trying again after a
+  // failure only fills in the missing ones. A hold never outlives its slot.
+  const placeHolds = async (poll: MeetingPoll, expiresAt: Date) => {
+    setIsPlacing(true);
+    try {
+      for (const option of poll.options) {
+        if (holds.some(hold => hold.proposalId === poll.id && hold.optionId === option.id)) continue;
+
+        const created = await createEvent(
+          {
+            title: `HOLD: ${poll.title}`,
+            description: `Held while attendees choose between ${poll.options.length} proposed times. Released once one is booked.`,
+            startTime: moment(option.start).tz(poll.timezone).format(),
+            endTime: moment(option.end).tz(poll.timezone).format(),
+            attendees: [],
+            timezone: poll.timezone,
+          },
+          targetCalendarId,
+          { tentative: true }
+        );
+
+        addHold({
+          proposalId: poll.id,
+          optionId: option.id,
+          eventId: created.id,
+          calendarId: targetCalendarId,
+          accountId: created.accountId,
+          start: option.start,
+          end: option.end,
+          expiresAt: new Date(Math.min(expiresAt.getTime(), option.end.getTime())),
+        });
+      }
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  // Holds never had attendees, so nobody needs an email about them. Each is
+  // released through the account that placed it, even after switching.
+  const releaseHolds = async (toRelease: MeetingHold[]) => {
+    setIsReleasing(true);
+    try {
+      for (const hold of toRelease) {
+        await deleteEvent(hold.eventId, hold.calendarId, 'none', hold.accountId);
+        removeHold(hold.id);
+      }
+    } finally {
+      setIsReleasing(false);
+    }
+  };
+
+  return {
+    holds,
+    placeHolds,
+    releaseHolds,
+    isPlacing,
+    isReleasing,
+  };
+}
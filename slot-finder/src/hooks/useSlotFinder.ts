@@ -0,0 +1,104 @@
+import { useState, useCallback } from 'react';
+import { CandidateSlot, BusyInterval } from '../types';
+import { useAuthContext } from '../context/AuthContext';
+import { useZones } from '../context/ZonesContext';
+import { useUI } from '../context/UIContext';
+import { useCalendarFeeds } from '../context/CalendarFeedsContext';
+import { useCalendars } from '../context/CalendarsContext';
+import { getCalendarErrorMessage } from '../lib/calendarProvider';
+import { getCalendarProvider } from '../lib/calendarProviders';
+import { findAvailableSlots } from '../utils/slotFinder';
+
+export interface SlotSearchRequest {
+  attendees: string[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  durationMinutes: number;
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+}
+
+export function useSlotFinder() {
+  const { token, isSignedIn, refreshToken, provider, requestAccess } = useAuthContext();
+  const { zones } = useZones();
+  const { setSuggestedSlots } = useUI();
+  const { feeds, loadFeedBusy } = useCalendarFeeds();
+  const { loadOtherAccountsBusy } = useCalendars();
+  const [slots, setSlots] = useState<CandidateSlot[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Attendees whose calendars are not shared with the signed-in user
+  const [unavailableCalendars, setUnavailableCalendars] = useState<string[]>([]);
+
+  const findSlots = useCallback(async (request: SlotSearchRequest) => {
+    const hasFeeds = feeds.some(feed => feed.enabled);
+    if ((!isSignedIn || !token) && !hasFeeds) {
+      setError('Sign in to search attendee availability');
+      return [];
+    }
+
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const attendees = request.attendees.filter(email => email.trim() !== '');
+      const calendarIds = ['primary', ...attendees];
+      const timeMin = request.rangeStart.toISOString();
+      const timeMax = request.rangeEnd.toISOString();
+
+      // Searching is the first point free/busy is needed, so it's asked for here
+      const canQuery = !!token && (await requestAccess('freeBusy'));
+
+      // Signed out, or without free/busy access, only the feeds are known and
+      // attendees count as unreadable
+      const [freeBusy, feedBusy, accountBusy] = await Promise.all([
+        token && canQuery
+          ? getCalendarProvider(provider).queryFreeBusy({ token, refreshToken }, timeMin, timeMax, calendarIds)
+          : { busy: {}, errors: Object.fromEntries(attendees.map(email => [email, 'notSignedIn'])) },
+        loadFeedBusy(request.rangeStart, request.rangeEnd),
+        loadOtherAccountsBusy(request.rangeStart, request.rangeEnd),
+      ]);
+
+      const busy: BusyInterval[] = [
+        ...Object.values(freeBusy.busy).flat(),
+        ...feedBusy,
+        ...accountBusy.flatMap(({ busy }) => busy),
+      ];
+      const results = findAvailableSlots({
+        zones,
+        busy,
+        rangeStart: request.rangeStart,
+        rangeEnd: request.rangeEnd,
+        durationMinutes: request.durationMinutes,
+        workingHoursStart: request.workingHoursStart,
+        workingHoursEnd: request.workingHoursEnd,
+      });
+
+      setUnavailableCalendars(Object.keys(freeBusy.errors));
+      setSlots(results);
+      setSuggestedSlots(results);
+      return results;
+    } catch (err) {
+      console.error('Slot search failed:', err);
+      setError(getCalendarErrorMessage(err, 'Failed to check availability. Please try again.'));
+      return [];
+    } finally {
+      setIsSearching(false);
+    }
+  }, [isSignedIn, token, refreshToken, provider, requestAccess, feeds, loadFeedBusy, loadOtherAccountsBusy, zones, setSuggestedSlots]);
+
+  const clearSlots = useCallback(() => {
+    setSlots([]);
+    setUnavailableCalendars([]);
+    setSuggestedSlots([]);
+  }, [setSuggestedSlots]);
+
+  return {
+    slots,
+    isSearching,
+    error,
+    unavailableCalendars,
+    findSlots,
+    clearSlots,
+  };
+}
@@ -0,0 +1,114 @@
+import { handleAuthRequest, handleChromeSignOut } from "../authBroker";
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const account = (expiry: number) => ({
+  id: "google:ana@example.com",
+  provider: "google",
+  user: { id: "1", name: "Ana", email: "ana@example.com", picture: "" },
+  accessToken: "old-token",
+  refreshToken: "refresh-1",
+  expiry,
+});
+
+describe("authBroker", () => {
+  const fetchMock = vi.fn();
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = {};
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.mocked(chrome.storage.local.get).mockImplementation((async (key: string) =>
+      key in stored ? { [key]: stored[key] } : {}) as never);
+    vi.mocked(chrome.storage.local.set).mockImplementation((async (items: Record<string, string>) => {
+      Object.assign(stored, items);
+    }) as never);
+    vi.mocked(chrome.storage.local.remove).mockImplementation((async (key: string) => {
+      delete stored[key];
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should hand out a valid token without refreshing it", async () => {
+    stored.auth_accounts = JSON.stringify([account(Date.now() + 60 * 60 * 1000)]);
+
+    const response = await handleAuthRequest({ type: "auth:getToken" });
+
+    expect(response).toMatchObject({ ok: true, token: "old-token" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should refresh once for concurrent requests and keep the rotated refresh token", async () => {
+    stored.auth_accounts = JSON.stringify([account(Date.now() + 60 * 1000)]);
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, { access_token: "new-token", refresh_token: "refresh-2", expires_in: 3600 })
+    );
+
+    const responses = await Promise.all([
+      handleAuthRequest({ type: "auth:getToken" }),
+      handleAuthRequest({ type: "auth:getToken", accountId: "google:ana@example.com" }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(responses.map((response) => response.ok && response.token)).toEqual(["new-token", "new-token"]);
+    expect(JSON.parse(stored.auth_accounts)[0]).toMatchObject({ accessToken: "new-token", refreshToken: "refresh-2" });
+  });
+
+  it("should sign out of an account whose refresh is rejected", async () => {
+    stored.auth_accounts = JSON.stringify([account(Date.now() - 1000)]);
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { error: "invalid_grant" }));
+
+    const response = await handleAuthRequest({ type: "auth:getToken" });
+
+    expect(response).toMatchObject({ ok: true, token: null, state: { accounts: [], activeAccountId: null } });
+  });
+
+  it("should keep the account when the refresh fails for a passing reason", async () => {
+    stored.auth_accounts = JSON.stringify([account(Date.now() - 1000)]);
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch")).mockResolvedValueOnce(jsonResponse(503, {}));
+
+    const offline = await handleAuthRequest({ type: "auth:getToken" });
+    const serverError = await handleAuthRequest({ type: "auth:getToken" });
+
+    for (const response of [offline, serverError]) {
+      expect(response).toMatchObject({ ok: true, token: null, state: { activeAccountId: "google:ana@example.com" } });
+    }
+    expect(JSON.parse(stored.auth_accounts)).toHaveLength(1);
+  });
+
+  it("should only sign out of the Chrome profile's own accounts when it signs out", async () => {
+    const hour = Date.now() + 60 * 60 * 1000;
+    stored.auth_accounts = JSON.stringify([
+      { ...account(hour), refreshToken: null, chromeIdentity: true },
+      { ...account(hour), id: "google:ana@work.example.com", user: { id: "2", name: "Ana", email: "ana@work.example.com", picture: "" } },
+      { ...account(hour), id: "microsoft:ana@example.com", provider: "microsoft" },
+    ]);
+
+    await handleChromeSignOut("1");
+
+    expect(JSON.parse(stored.auth_accounts).map((saved: { id: string }) => saved.id)).toEqual([
+      "google:ana@work.example.com",
+      "microsoft:ana@example.com",
+    ]);
+  });
+
+  it("should move the single account of older versions into per-account storage", async () => {
+    Object.assign(stored, {
+      google_access_token: "legacy-token",
+      google_refresh_token: "legacy-refresh",
+      google_token_expiry: String(Date.now() + 60 * 60 * 1000),
+      google_user: JSON.stringify({ id: "1", name: "Ana", email: "Ana@example.com", picture: "" }),
+    });
+
+    const response = await handleAuthRequest({ type: "auth:getState" });
+
+    expect(response).toMatchObject({ ok: true, state: { accounts: [{ id: "google:ana@example.com" }] } });
+    expect(stored.google_access_token).toBeUndefined();
+    expect(JSON.parse(stored.auth_accounts)[0].refreshToken).toBe("legacy-refresh");
+  });
+});
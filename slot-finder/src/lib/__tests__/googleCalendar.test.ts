@@ -0,0 +1,120 @@
+import { calendarFetch, createEvent, toEventId } from "../googleCalendar";
+import { getErrorCode, CalendarApiError } from "../calendarProvider";
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const noDelay = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe("googleCalendar service", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should map statuses and reasons to error codes", () => {
+    expect(getErrorCode(401)).toBe("unauthorized");
+    expect(getErrorCode(403, "rateLimitExceeded")).toBe("rate_limited");
+    expect(getErrorCode(403, "forbiddenForNonOrganizer")).toBe("forbidden");
+    expect(getErrorCode(409)).toBe("conflict");
+    expect(getErrorCode(503)).toBe("server");
+    expect(getErrorCode(400)).toBe("invalid_request");
+  });
+
+  it("should retry server errors and give up after the policy's retries", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(503, {})).mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+    await expect(calendarFetch({ token: "t" }, "/x", {}, noDelay)).resolves.toEqual({ ok: true });
+
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => jsonResponse(500, { error: { message: "Backend Error" } }));
+    await expect(calendarFetch({ token: "t" }, "/x", {}, noDelay)).rejects.toMatchObject({ code: "server", status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should refresh an expired token once", async () => {
+    const refreshToken = vi.fn().mockResolvedValue("fresh");
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, {})).mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    await calendarFetch({ token: "stale", refreshToken }, "/x", {}, noDelay);
+
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe("Bearer fresh");
+  });
+
+  it("should only send a content type with a body", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, {}));
+
+    await calendarFetch({ token: "t" }, "/x", {}, noDelay);
+    await calendarFetch({ token: "t" }, "/x", { method: "POST", body: "{}" }, noDelay);
+
+    // A GET without one stays a simple request, with no CORS preflight
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty("Content-Type");
+    expect(fetchMock.mock.calls[1][1].headers["Content-Type"]).toBe("application/json");
+  });
+
+  it("should not retry permission errors", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(403, { error: { message: "Forbidden", errors: [{ reason: "forbidden" }] } }));
+
+    const error = (await calendarFetch({ token: "t" }, "/x", {}, noDelay).catch((err) => err)) as CalendarApiError;
+    expect(error).toBeInstanceOf(CalendarApiError);
+    expect(error.code).toBe("forbidden");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return the existing event when a creation is repeated", async () => {
+    const requestId = "6F9619FF-8B86-D011-B42D-00C04FC964FF";
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(409, { error: { message: "The requested identifier already exists." } }))
+      .mockResolvedValueOnce(
+        jsonResponse(200, { id: toEventId(requestId), start: {}, end: {}, hangoutLink: "https://meet.google.com/abc" })
+      );
+
+    const created = await createEvent(
+      { token: "t" },
+      {
+        title: "Sync",
+        description: "",
+        startTime: "2025-11-04T09:00:00-05:00",
+        endTime: "2025-11-04T09:30:00-05:00",
+        attendees: [],
+        timezone: "America/New_York",
+      },
+      { requestId }
+    );
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.id).toBe("6f9619ff8b86d011b42d00c04fc964ff");
+    expect(body.conferenceData.createRequest.requestId).toBe(requestId);
+    expect(body.start.timeZone).toBe("America/New_York");
+    expect(fetchMock.mock.calls[1][0]).toContain(`/events/${body.id}`);
+    expect(created.meetingUrl).toBe("https://meet.google.com/abc");
+  });
+
+  it("should create a hold as tentative without a Meet link", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { id: "hold1", status: "tentative", start: {}, end: {} }));
+
+    const created = await createEvent(
+      { token: "t" },
+      {
+        title: "HOLD: Sync",
+        description: "",
+        startTime: "2025-11-04T09:00:00-05:00",
+        endTime: "2025-11-04T09:30:00-05:00",
+        attendees: [],
+        timezone: "America/New_York",
+      },
+      { tentative: true }
+    );
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.status).toBe("tentative");
+    expect(body.conferenceData).toBeUndefined();
+    expect(created.event.status).toBe("tentative");
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  createEvent,
+  microsoftCalendarProvider,
+  toProviderEvent,
+  toGraphRecurrence,
+  toUtcIso,
+} from "../microsoftCalendar";
+import { getGrantedAccess } from "../calendarProvider";
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("microsoftCalendar service", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should read Graph UTC wall times as instants", () => {
+    expect(toUtcIso("2025-11-04T14:00:00.0000000")).toBe("2025-11-04T14:00:00.000Z");
+
+    const event = toProviderEvent({
+      id: "AAMk",
+      subject: "Planning",
+      start: { dateTime: "2025-11-04T14:00:00.0000000", timeZone: "UTC" },
+      end: { dateTime: "2025-11-04T15:00:00.0000000", timeZone: "UTC" },
+      isCancelled: true,
+      onlineMeeting: { joinUrl: "https://teams.microsoft.com/l/meetup-join/abc" },
+    });
+    expect(event.start.dateTime).toBe("2025-11-04T14:00:00.000Z");
+    expect(event.status).toBe("cancelled");
+    expect(event.meetingUrl).toBe("https://teams.microsoft.com/l/meetup-join/abc");
+  });
+
+  it("should create a Teams meeting in the event time zone", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(201, {
+        id: "AAMk",
+        start: { dateTime: "2025-11-04T14:00:00.0000000", timeZone: "UTC" },
+        end: { dateTime: "2025-11-04T14:30:00.0000000", timeZone: "UTC" },
+        onlineMeeting: { joinUrl: "https://teams.microsoft.com/l/meetup-join/abc" },
+      })
+    );
+
+    const created = await createEvent(
+      { token: "t" },
+      {
+        title: "Sync",
+        description: "",
+        startTime: "2025-11-04T09:00:00-05:00",
+        endTime: "2025-11-04T09:30:00-05:00",
+        attendees: ["ana@example.com"],
+        timezone: "America/New_York",
+      },
+      { requestId: "req-1" }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe("https://graph.microsoft.com/v1.0/me/calendar/events");
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.start).toEqual({ dateTime: "2025-11-04T09:00:00", timeZone: "America/New_York" });
+    expect(body.attendees[0].emailAddress.address).toBe("ana@example.com");
+    expect(body.onlineMeetingProvider).toBe("teamsForBusiness");
+    expect(body.transactionId).toBe("req-1");
+    expect(created.meetingUrl).toBe("https://teams.microsoft.com/l/meetup-join/abc");
+  });
+
+  it("should convert weekly rules to Graph recurrence and reject others", () => {
+    const recurrence = toGraphRecurrence(
+      ["RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=6"],
+      "2025-11-04T09:00:00-05:00",
+      "America/New_York"
+    );
+    expect(recurrence.pattern).toEqual({
+      type: "weekly",
+      interval: 2,
+      daysOfWeek: ["tuesday"],
+      firstDayOfWeek: "monday",
+    });
+    expect(recurrence.range).toMatchObject({ type: "numbered", numberOfOccurrences: 6, startDate: "2025-11-04" });
+
+    expect(() => toGraphRecurrence(["RRULE:FREQ=MONTHLY;BYDAY=1MO"], "2025-11-04T09:00:00-05:00", "UTC")).toThrow();
+  });
+
+  it("should only allow what the granted scopes cover", () => {
+    const { oauth } = microsoftCalendarProvider;
+
+    // Read-only consent, with the resource prefix Graph adds
+    expect(
+      getGrantedAccess(oauth, ["openid", "User.Read", "https://graph.microsoft.com/Calendars.Read"])
+    ).toEqual({ freeBusy: true, readEvents: true, writeEvents: false });
+    expect(getGrantedAccess(oauth, ["openid", "User.Read"])).toEqual({
+      freeBusy: false,
+      readEvents: false,
+      writeEvents: false,
+    });
+    // Accounts from before scopes were recorded keep full access
+    expect(getGrantedAccess(oauth)).toEqual({ freeBusy: true, readEvents: true, writeEvents: true });
+  });
+});
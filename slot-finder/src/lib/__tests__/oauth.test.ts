@@ -0,0 +1,74 @@
+import {
+  createAuthorizationRequest,
+  createCodeChallenge,
+  exchangeAuthorizationCode,
+  readAuthorizationResponse,
+} from "../oauth";
+
+const oauth = {
+  clientId: "client-1",
+  authorizeUrl: "https://accounts.example.com/authorize",
+  tokenUrl: "https://accounts.example.com/token",
+  scopes: { profile: ["openid"], busy: ["calendar.readonly"], events: ["calendar.events"] },
+  accessScopes: { freeBusy: ["calendar.readonly"], readEvents: ["calendar.readonly"], writeEvents: ["calendar.events"] },
+};
+const scopes = ["openid", "calendar.readonly"];
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const toIdToken = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims)).replace(/=+$/, "")}.signature`;
+
+describe("oauth", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should derive the S256 code challenge from the verifier", async () => {
+    // SHA-256 of "abc" from FIPS 180-2, base64url without padding
+    expect(await createCodeChallenge("abc")).toBe("ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0");
+  });
+
+  it("should send the challenge, state and nonce but never the verifier", async () => {
+    const request = await createAuthorizationRequest(oauth, "https://ext.chromiumapp.org/oauth2", scopes);
+    const params = new URL(request.url).searchParams;
+
+    expect(params.get("code_challenge")).toBe(await createCodeChallenge(request.codeVerifier));
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("state")).toBe(request.state);
+    expect(params.get("nonce")).toBe(request.nonce);
+    expect(request.url).not.toContain(request.codeVerifier);
+  });
+
+  it("should reject a redirect for another sign-in or a refused consent", async () => {
+    const request = await createAuthorizationRequest(oauth, "https://ext.chromiumapp.org/oauth2", scopes);
+    const redirect = "https://ext.chromiumapp.org/oauth2";
+
+    expect(readAuthorizationResponse(`${redirect}?code=abc&state=${request.state}`, request)).toBe("abc");
+    expect(() => readAuthorizationResponse(`${redirect}?code=abc&state=other`, request)).toThrow(/did not match/);
+    expect(() => readAuthorizationResponse(`${redirect}?error=access_denied&state=${request.state}`, request)).toThrow(
+      /access_denied/
+    );
+  });
+
+  it("should redeem the code with the verifier and check the ID token nonce", async () => {
+    const request = await createAuthorizationRequest(oauth, "https://ext.chromiumapp.org/oauth2", scopes);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: "a", expires_in: 3600, id_token: toIdToken({ nonce: request.nonce }) }))
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: "b", expires_in: 3600, id_token: toIdToken({ nonce: "replayed" }) }));
+
+    await expect(exchangeAuthorizationCode(oauth, "abc", request)).resolves.toMatchObject({ access_token: "a" });
+    expect(new URLSearchParams(fetchMock.mock.calls[0][1].body).get("code_verifier")).toBe(request.codeVerifier);
+    expect(new URLSearchParams(fetchMock.mock.calls[0][1].body).has("client_secret")).toBe(false);
+
+    await expect(exchangeAuthorizationCode(oauth, "abc", request)).rejects.toThrow(/did not match/);
+  });
+});
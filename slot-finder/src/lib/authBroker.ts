@@ -0,0 +1,559 @@
+import { AccountProfile, CalendarAccess, CalendarProviderId, ScopeTier, getGrantedAccess, getTierScopes } from './calendarProvider';
+import { getCalendarProvider } from './calendarProviders';
+import { createAuthorizationRequest, exchangeAuthorizationCode, readAuthorizationResponse, TokenResponse } from './oauth';
+import { config } from '../config';
+
+/**
+ * Token broker run by the background service worker. Refresh tokens never
+ * leave it: the side panel, popup and options page ask it for access tokens
+ * over chrome.runtime messaging, and it refreshes them shortly before they
+ * expire. Outside the extension (vite dev server) pages call it directly.
+ */
+
+// Every signed-in account with its own tokens, and the one in use
+const ACCOUNTS_KEY = 'auth_accounts';
+const ACTIVE_ACCOUNT_KEY = 'auth_active_account';
+
+// Single-account keys written before several accounts could sign in; moved
+// into ACCOUNTS_KEY the first time they are found
+const LEGACY_KEYS = {
+  accessToken: 'google_access_token',
+  refreshToken: 'google_refresh_token',
+  expiry: 'google_token_expiry',
+  user: 'google_user',
+  provider: 'auth_provider',
+};
+
+// Tokens are refreshed this long before they expire
+const REFRESH_AHEAD_MS = 5 * 60 * 1000;
+const REFRESH_ALARM_PREFIX = 'auth-refresh:';
+// A refresh that failed for a passing reason, e.g. offline, is retried after this
+const REFRESH_RETRY_MS = 60 * 1000;
+
+// Chrome doesn't say when its tokens expire; they last an hour
+const CHROME_IDENTITY_TOKEN_SECONDS = 3600;
+
+// Broadcast to every open page after the accounts or their tokens change
+export const AUTH_CHANGED = 'auth:changed';
+
+// Signed-in account as pages see it, without its tokens
+export interface AuthAccount {
+  id: string;
+  provider: CalendarProviderId;
+  user: AccountProfile;
+  access: Record<CalendarAccess, boolean>; // What its granted scopes allow
+}
+
+export interface AuthState {
+  accounts: AuthAccount[];
+  activeAccountId: string | null;
+}
+
+export type AuthRequest =
+  | { type: 'auth:getState' }
+  | { type: 'auth:getToken'; accountId?: string; forceRefresh?: boolean } // Active account unless given
+  | { type: 'auth:signIn'; provider: CalendarProviderId }
+  | { type: 'auth:grantScopes'; tier: ScopeTier; accountId?: string } // Active account unless given
+  | { type: 'auth:switchAccount'; accountId: string }
+  | { type: 'auth:removeAccount'; accountId: string }
+  | { type: 'auth:signOut' };
+
+export type AuthResponse =
+  | { ok: true; state: AuthState; token?: string | null }
+  | { ok: false; error: string };
+
+interface StoredAccount extends Omit<AuthAccount, 'access'> {
+  accessToken: string;
+  refreshToken: string | null;
+  expiry: number; // Epoch ms, a minute before the provider's expiry
+  chromeIdentity?: boolean; // Token from chrome.identity.getAuthToken, refreshed by Chrome
+  grantedScopes?: string[]; // Missing for accounts signed in before scopes were asked for in tiers
+}
+
+interface AccountStore {
+  accounts: StoredAccount[];
+  activeAccountId: string | null;
+}
+
+export const isExtensionContext = () => typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+
+const storage = {
+  get: async (key: string): Promise<string | null> => {
+    if (typeof chrome !== 'undefined' && chrome.storage?.local) {
+      const result = await chrome.storage.local.get(key);
+      return (result[key] as string) || null;
+    }
+    return localStorage.getItem(key);
+  },
+  set: async (key: string, value: string): Promise<void> => {
+    if (typeof chrome !== 'undefined' && chrome.storage?.local) {
+      await chrome.storage.local.set({ [key]: value });
+    } else {
+      localStorage.setItem(key, value);
+    }
+  },
+  remove: async (key: string): Promise<void> => {
+    if (typeof chrome !== 'undefined' && chrome.storage?.local) {
+      await chrome.storage.local.remove(key);
+    } else {
+      localStorage.removeItem(key);
+    }
+  },
+};
+
+// Signing in to the same account again replaces it instead of adding a copy
+const toAccountId = (providerId: CalendarProviderId, user: AccountProfile) => `${providerId}:${user.email.toLowerCase()}`;
+
+const toExpiry = (expiresIn: number) => Date.now() + expiresIn * 1000 - 60000; // 1 minute buffer
+
+const toAuthState = ({ accounts, activeAccountId }: AccountStore): AuthState => ({
+  accounts: accounts.map(({ id, provider, user, grantedScopes }) => ({
+    id,
+    provider,
+    user,
+    access: getGrantedAccess(getCalendarProvider(provider).oauth, grantedScopes),
+  })),
+  activeAccountId,
+});
+
+// Google sign-in through the Chrome profile, when the manifest's oauth2
+// block has a real client ID and the build allows it
+const canUseChromeIdentity = () => {
+  if (!config.useChromeIdentity || typeof chrome === 'undefined' || !chrome.identity?.getAuthToken) return false;
+  const clientId = chrome.runtime.getManifest?.().oauth2?.client_id;
+  return !!clientId && !clientId.startsWith('YOUR_');
+};
+
+// Granular permissions let the user untick scopes, so the granted list can
+// be shorter than the one asked for
+const getChromeIdentityToken = async (interactive: boolean, scopes: string[]) => {
+  const { token, grantedScopes } = await chrome.identity.getAuthToken({
+    interactive,
+    scopes,
+    enableGranularPermissions: true,
+  });
+  if (!token) throw new Error('Chrome did not return a Google token');
+  return { token, grantedScopes: grantedScopes || scopes };
+};
+
+const canRefresh = (account: StoredAccount) => !!account.refreshToken || !!account.chromeIdentity;
+
+const fetchProfile = (accessToken: string, providerId: CalendarProviderId): Promise<AccountProfile> =>
+  getCalendarProvider(providerId).fetchProfile(accessToken);
+
+// Store reads and writes run one at a time, so a refresh finishing during a
+// sign-in can't write back a list without the new account
+let pending: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+// The single account of an older version, saved under ACCOUNTS_KEY
+const migrateLegacyAccount = async (): Promise<StoredAccount[]> => {
+  const accessToken = await storage.get(LEGACY_KEYS.accessToken);
+  if (!accessToken) return [];
+
+  console.log('Moving the signed-in account to per-account storage...');
+  const providerId = ((await storage.get(LEGACY_KEYS.provider)) || 'google') as CalendarProviderId;
+  const storedUser = await storage.get(LEGACY_KEYS.user);
+  const refreshToken = await storage.get(LEGACY_KEYS.refreshToken);
+  const expiry = Number(await storage.get(LEGACY_KEYS.expiry)) || 0;
+
+  let user: AccountProfile | null = storedUser ? JSON.parse(storedUser) : null;
+  if (!user && Date.now() < expiry) {
+    user = await fetchProfile(accessToken, providerId).catch(() => null);
+  }
+
+  const accounts: StoredAccount[] = user
+    ? [{ id: toAccountId(providerId, user), provider: providerId, user, accessToken, refreshToken, expiry }]
+    : [];
+  await storage.set(ACCOUNTS_KEY, JSON.stringify(accounts));
+  await Promise.all(Object.values(LEGACY_KEYS).map(key => storage.remove(key)));
+  return accounts;
+};
+
+// Fall back to another account when the active one is gone or was never set
+const resolveActiveAccountId = (accounts: StoredAccount[], activeAccountId: string | null) =>
+  accounts.some(account => account.id === activeAccountId) ? activeAccountId : accounts[0]?.id || null;
+
+const readStore = async (): Promise<AccountStore> => {
+  const saved = await storage.get(ACCOUNTS_KEY);
+  const accounts: StoredAccount[] = saved ? JSON.parse(saved) : await migrateLegacyAccount();
+  return { accounts, activeAccountId: resolveActiveAccountId(accounts, await storage.get(ACTIVE_ACCOUNT_KEY)) };
+};
+
+const getStore = () => runExclusive(readStore);
+
+// Page-side listeners when there is no background worker to broadcast
+const changeListeners = new Set<(state: AuthState) => void>();
+
+export const addAuthChangeListener = (listener: (state: AuthState) => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+const notifyAuthChanged = (state: AuthState) => {
+  changeListeners.forEach(listener => listener(state));
+  if (isExtensionContext()) {
+    chrome.runtime.sendMessage({ type: AUTH_CHANGED, state }).catch(() => {
+      // No page is open to hear it
+    });
+  }
+};
+
+// One alarm per account with a refresh token, a few minutes before expiry.
+// Alarms outlive the service worker, which Chrome stops when idle.
+const scheduleRefreshes = async (accounts: StoredAccount[]) => {
+  if (typeof chrome === 'undefined' || !chrome.alarms) return;
+
+  const alarms = await chrome.alarms.getAll();
+  await Promise.all(
+    alarms
+      .filter(alarm => alarm.name.startsWith(REFRESH_ALARM_PREFIX))
+      .filter(alarm => !accounts.some(account => alarm.name === REFRESH_ALARM_PREFIX + account.id))
+      .map(alarm => chrome.alarms.clear(alarm.name))
+  );
+
+  accounts
+    .filter(canRefresh)
+    .forEach(account =>
+      chrome.alarms.create(REFRESH_ALARM_PREFIX + account.id, {
+        when: Math.max(Date.now() + 30 * 1000, account.expiry - REFRESH_AHEAD_MS),
+      })
+    );
+};
+
+const updateStore = (update: (store: AccountStore) => AccountStore | Promise<AccountStore>) =>
+  runExclusive(async () => {
+    const next = await update(await readStore());
+    const activeAccountId = resolveActiveAccountId(next.accounts, next.activeAccountId);
+    const store = { accounts: next.accounts, activeAccountId };
+
+    await storage.set(ACCOUNTS_KEY, JSON.stringify(store.accounts));
+    if (activeAccountId) {
+      await storage.set(ACTIVE_ACCOUNT_KEY, activeAccountId);
+    } else {
+      await storage.remove(ACTIVE_ACCOUNT_KEY);
+    }
+
+    await scheduleRefreshes(store.accounts);
+    notifyAuthChanged(toAuthState(store));
+    return store;
+  });
+
+// The provider no longer accepts the account's grant; only signing in again helps
+class RefreshRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshRejectedError';
+  }
+}
+
+// Chrome's messages when the profile signed out or the user revoked access
+const CHROME_IDENTITY_REVOKED = /not granted|revoked|not signed in/i;
+
+// Exchange a refresh token for a new access token; Microsoft also rotates
+// the refresh token
+const requestTokenRefresh = async (account: StoredAccount) => {
+  if (account.chromeIdentity) {
+    // Drop the cached token so Chrome mints a new one instead of returning it
+    await chrome.identity.removeCachedAuthToken({ token: account.accessToken });
+    const { token, grantedScopes } = await getChromeIdentityToken(
+      false,
+      account.grantedScopes || getCalendarProvider('google').oauth.scopes.profile
+    ).catch(error => {
+      throw CHROME_IDENTITY_REVOKED.test(error?.message || '') ? new RefreshRejectedError(error.message) : error;
+    });
+    return { accessToken: token, refreshToken: null, expiry: toExpiry(CHROME_IDENTITY_TOKEN_SECONDS), grantedScopes };
+  }
+
+  const { oauth } = getCalendarProvider(account.provider);
+  const response = await fetch(oauth.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: oauth.clientId,
+      grant_type: 'refresh_token',
+      refresh_token: account.refreshToken || '',
+    }),
+  });
+
+  if (!response.ok) {
+    // invalid_grant and bad client errors come back as 400 or 401; anything
+    // else, like a 5xx, may work on the next try
+    const message = `Failed to refresh token (${response.status})`;
+    throw response.status === 400 || response.status === 401 ? new RefreshRejectedError(message) : new Error(message);
+  }
+
+  const data = await response.json();
+  return {
+    accessToken: data.access_token as string,
+    refreshToken: (data.refresh_token as string | undefined) || account.refreshToken,
+    expiry: toExpiry(data.expires_in),
+    grantedScopes: data.scope ? (data.scope as string).split(' ') : account.grantedScopes,
+  };
+};
+
+// Sign out of one account, revoking its token where the provider allows it
+const removeAccount = async (accountId: string) => {
+  const account = (await getStore()).accounts.find(candidate => candidate.id === accountId);
+  if (!account) return;
+
+  if (account.provider !== 'google') {
+    // Microsoft has no revocation endpoint for a single token
+    console.log('Skipping token revocation for', account.provider);
+  } else if (typeof chrome !== 'undefined' && chrome.identity) {
+    try {
+      console.log('Revoking token...');
+      if (account.chromeIdentity) {
+        await chrome.identity.removeCachedAuthToken({ token: account.accessToken });
+      }
+      await fetch(`https://accounts.google.com/o/oauth2/revoke?token=${account.accessToken}`);
+    } catch (error) {
+      console.warn('Failed to revoke token:', error);
+    }
+  }
+
+  await updateStore(store => ({ ...store, accounts: store.accounts.filter(candidate => candidate.id !== accountId) }));
+};
+
+// Refreshes in flight by account id. Every caller asking while one runs gets
+// the same result, so a rotated refresh token is never spent twice.
+const refreshing = new Map<string, Promise<string | null>>();
+
+const refreshAccount = (accountId: string): Promise<string | null> => {
+  const inFlight = refreshing.get(accountId);
+  if (inFlight) return inFlight;
+
+  const refresh = (async () => {
+    const account = (await getStore()).accounts.find(candidate => candidate.id === accountId);
+    if (!account || !canRefresh(account)) return null;
+
+    try {
+      const tokens = await requestTokenRefresh(account);
+      await updateStore(store => ({
+        ...store,
+        accounts: store.accounts.map(candidate => (candidate.id === accountId ? { ...candidate, ...tokens } : candidate)),
+      }));
+      return tokens.accessToken;
+    } catch (error) {
+      if (error instanceof RefreshRejectedError) {
+        console.error('Token refresh was rejected, signing out of', account.user.email, error);
+        await removeAccount(accountId);
+        return null;
+      }
+      // Offline or the provider is down: keep the account and try again soon
+      console.warn('Token refresh failed, retrying later for', account.user.email, error);
+      if (typeof chrome !== 'undefined' && chrome.alarms) {
+        chrome.alarms.create(REFRESH_ALARM_PREFIX + accountId, { when: Date.now() + REFRESH_RETRY_MS });
+      }
+      return null;
+    }
+  })().finally(() => refreshing.delete(accountId));
+
+  refreshing.set(accountId, refresh);
+  return refresh;
+};
+
+// Valid access token for an account, refreshed first when it is about to
+// expire. An expired account that can't be refreshed is signed out.
+const getAccessToken = async (accountId?: string, forceRefresh = false): Promise<string | null> => {
+  const store = await getStore();
+  const account = store.accounts.find(candidate => candidate.id === (accountId || store.activeAccountId));
+  if (!account) return null;
+
+  const isExpired = Date.now() >= account.expiry;
+  if (canRefresh(account) && (forceRefresh || Date.now() >= account.expiry - REFRESH_AHEAD_MS)) {
+    const token = await refreshAccount(account.id);
+    if (token || forceRefresh || isExpired) return token;
+    // Refreshing ahead failed, but the current token still works unless the
+    // refresh was rejected and the account signed out
+    return (await getStore()).accounts.some(candidate => candidate.id === account.id) ? account.accessToken : null;
+  }
+  if (isExpired) {
+    await removeAccount(account.id);
+    return null;
+  }
+  return forceRefresh ? null : account.accessToken;
+};
+
+interface Authorization {
+  tokens: TokenResponse;
+  grantedScopes: string[];
+  chromeIdentity: boolean;
+}
+
+// Ask the provider for `scopes`, through the Chrome profile for Google when
+// possible and a PKCE authorization-code flow otherwise
+const authorize = async (
+  providerId: CalendarProviderId,
+  scopes: string[],
+  loginHint?: string
+): Promise<Authorization> => {
+  const { name, oauth } = getCalendarProvider(providerId);
+  if (!oauth.clientId) {
+    throw new Error(`${name} sign-in isn't configured for this build`);
+  }
+
+  if (providerId === 'google' && canUseChromeIdentity()) {
+    const { token, grantedScopes } = await getChromeIdentityToken(true, scopes);
+    return { tokens: { access_token: token, expires_in: CHROME_IDENTITY_TOKEN_SECONDS }, grantedScopes, chromeIdentity: true };
+  }
+
+  // Outside the extension there is no redirect to come back to; the app
+  // runs signed out there, with local meetings and calendar feeds only
+  if (typeof chrome === 'undefined' || !chrome.identity) {
+    throw new Error(`Sign in to ${name} from the installed extension`);
+  }
+
+  const request = await createAuthorizationRequest(
+    oauth,
+    chrome.identity.getRedirectURL('oauth2'),
+    scopes,
+    loginHint ? { login_hint: loginHint } : {}
+  );
+  const responseUrl = await new Promise<string>((resolve, reject) => {
+    chrome.identity.launchWebAuthFlow({ url: request.url, interactive: true }, responseUrl => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve(responseUrl || '');
+      }
+    });
+  });
+
+  const tokens = await exchangeAuthorizationCode(oauth, readAuthorizationResponse(responseUrl, request), request);
+  return { tokens, grantedScopes: tokens.scope ? tokens.scope.split(' ') : scopes, chromeIdentity: false };
+};
+
+const toStoredAccount = (
+  providerId: CalendarProviderId,
+  user: AccountProfile,
+  { tokens, grantedScopes, chromeIdentity }: Authorization
+): StoredAccount => ({
+  id: toAccountId(providerId, user),
+  provider: providerId,
+  user,
+  accessToken: tokens.access_token,
+  refreshToken: tokens.refresh_token || null,
+  expiry: toExpiry(tokens.expires_in),
+  grantedScopes,
+  ...(chromeIdentity && { chromeIdentity }),
+});
+
+// Sign in to an account and make it the active one, asking only for the
+// profile. Accounts already signed in stay signed in.
+const signIn = async (providerId: CalendarProviderId) => {
+  const authorization = await authorize(providerId, getCalendarProvider(providerId).oauth.scopes.profile);
+  const account = toStoredAccount(
+    providerId,
+    await fetchProfile(authorization.tokens.access_token, providerId),
+    authorization
+  );
+
+  await updateStore(store => ({
+    accounts: [...store.accounts.filter(existing => existing.id !== account.id), account],
+    activeAccountId: account.id,
+  }));
+};
+
+// Ask a signed-in account for another tier of scopes. The user may grant
+// only part of it; pages read what was granted from the account's access.
+const grantScopes = async (tier: ScopeTier, accountId?: string) => {
+  const store = await getStore();
+  const account = store.accounts.find(candidate => candidate.id === (accountId || store.activeAccountId));
+  if (!account) throw new Error('Sign in before allowing calendar access');
+
+  const { oauth } = getCalendarProvider(account.provider);
+  const scopes = Array.from(new Set([...(account.grantedScopes || []), ...getTierScopes(oauth, tier)]));
+  const authorization = await authorize(account.provider, scopes, account.user.email);
+
+  // The consent screen lets the user pick any account; only accept the one asked for
+  const user = await fetchProfile(authorization.tokens.access_token, account.provider);
+  const granted = toStoredAccount(account.provider, user, authorization);
+  if (granted.id !== account.id) {
+    throw new Error(`Access was granted for ${user.email}; choose ${account.user.email} to continue`);
+  }
+
+  await updateStore(latest => ({
+    ...latest,
+    accounts: latest.accounts.map(candidate =>
+      candidate.id === account.id
+        ? { ...granted, refreshToken: granted.refreshToken || candidate.refreshToken }
+        : candidate
+    ),
+  }));
+};
+
+export const handleAuthRequest = async (request: AuthRequest): Promise<AuthResponse> => {
+  try {
+    switch (request.type) {
+      case 'auth:getToken': {
+        const token = await getAccessToken(request.accountId, request.forceRefresh);
+        return { ok: true, state: toAuthState(await getStore()), token };
+      }
+      case 'auth:signIn':
+        await signIn(request.provider);
+        break;
+      case 'auth:grantScopes':
+        await grantScopes(request.tier, request.accountId);
+        break;
+      case 'auth:switchAccount':
+        await updateStore(store => ({ ...store, activeAccountId: request.accountId }));
+        break;
+      case 'auth:removeAccount':
+        await removeAccount(request.accountId);
+        break;
+      case 'auth:signOut':
+        for (const account of (await getStore()).accounts) {
+          await removeAccount(account.id);
+        }
+        break;
+    }
+    return { ok: true, state: toAuthState(await getStore()) };
+  } catch (error) {
+    console.error(`Auth request ${request.type} failed:`, error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Authentication failed' };
+  }
+};
+
+// The Chrome profile signed out of a Google account: sign out of the accounts
+// whose tokens Chrome issued for it. Other accounts keep their own tokens.
+// Chrome reports the Gaia id, which is also Google's userinfo id.
+export const handleChromeSignOut = async (profileAccountId: string) => {
+  const accounts = (await getStore()).accounts.filter(
+    account => account.chromeIdentity && account.user.id === profileAccountId
+  );
+  for (const account of accounts) {
+    await removeAccount(account.id);
+  }
+};
+
+const isAuthRequest = (message: unknown): message is AuthRequest => {
+  const type = (message as { type?: unknown } | null)?.type;
+  return typeof type === 'string' && type.startsWith('auth:') && type !== AUTH_CHANGED;
+};
+
+// Answer auth requests from the extension's own pages and keep tokens fresh
+export const startAuthBroker = () => {
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (!isAuthRequest(message) || sender.id !== chrome.runtime.id) return false;
+    handleAuthRequest(message).then(sendResponse);
+    return true; // Respond asynchronously
+  });
+
+  chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name.startsWith(REFRESH_ALARM_PREFIX)) {
+      refreshAccount(alarm.name.slice(REFRESH_ALARM_PREFIX.length));
+    }
+  });
+
+  // Alarms survive restarts, but tokens may have been written by an older
+  // version that never scheduled any
+  getStore().then(store => scheduleRefreshes(store.accounts));
+};
@@ -0,0 +1,36 @@
+import {
+  AUTH_CHANGED,
+  AuthRequest,
+  AuthState,
+  addAuthChangeListener,
+  handleAuthRequest,
+  isExtensionContext,
+} from './authBroker';
+
+type AuthResult = { state: AuthState; token?: string | null };
+
+/**
+ * Page side of the auth broker: sends a request to the background service
+ * worker, or handles it in the page when running outside the extension
+ */
+export const sendAuthRequest = async (request: AuthRequest): Promise<AuthResult> => {
+  const response = isExtensionContext()
+    ? await chrome.runtime.sendMessage(request)
+    : await handleAuthRequest(request);
+
+  if (!response) throw new Error('The background service worker did not respond');
+  if (!response.ok) throw new Error(response.error);
+  return response;
+};
+
+// Called with the new state whenever any page or the broker itself changes
+// the accounts or refreshes a token
+export const subscribeToAuthChanges = (listener: (state: AuthState) => void) => {
+  if (!isExtensionContext()) return addAuthChangeListener(listener);
+
+  const onMessage = (message: { type?: string; state?: AuthState }) => {
+    if (message?.type === AUTH_CHANGED && message.state) listener(message.state);
+  };
+  chrome.runtime.onMessage.addListener(onMessage);
+  return () => chrome.runtime.onMessage.removeListener(onMessage);
+};
@@ -0,0 +1,125 @@
+import { CalendarFeed } from '../types';
+import { CalendarApiError, getErrorCode } from './calendarProvider';
+import { parseICalendar, ICalendar } from '../utils/ical';
+
+/**
+ * Calendar feeds
+ * Reads ICS subscriptions and CalDAV calendars (Fastmail, Nextcloud, iCloud)
+ * as iCalendar data
+ */
+
+const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+
+// CalDAV app passwords are kept in session storage, never with the saved
+// feed list: pages' localStorage is readable by any script running there,
+// while session storage is only open to the extension and is cleared when
+// the browser closes. Outside the extension they only last as long as the page.
+const PASSWORD_KEY_PREFIX = 'feed_password:';
+const pagePasswords = new Map<string, string>();
+
+const hasSessionStorage = () => typeof chrome !== 'undefined' && !!chrome.storage?.session;
+
+export const getFeedPassword = async (feedId: string): Promise<string | null> => {
+  if (!hasSessionStorage()) return pagePasswords.get(feedId) || null;
+  const key = PASSWORD_KEY_PREFIX + feedId;
+  return ((await chrome.storage.session.get(key))[key] as string | undefined) || null;
+};
+
+export const saveFeedPassword = async (feedId: string, password: string): Promise<void> => {
+  if (!hasSessionStorage()) {
+    pagePasswords.set(feedId, password);
+    return;
+  }
+  await chrome.storage.session.set({ [PASSWORD_KEY_PREFIX + feedId]: password });
+};
+
+export const removeFeedPassword = async (feedId: string): Promise<void> => {
+  if (!hasSessionStorage()) {
+    pagePasswords.delete(feedId);
+    return;
+  }
+  await chrome.storage.session.remove(PASSWORD_KEY_PREFIX + feedId);
+};
+
+// webcal:// is the same feed over https
+export const normalizeFeedUrl = (url: string): string => url.trim().replace(/^webcal:\/\//i, 'https://');
+
+// btoa only takes Latin-1, and passwords may not be
+const toBasicAuth = (username: string, password: string) => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+const toCalDavTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const feedFetch = async (url: string, init: RequestInit = {}): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(normalizeFeedUrl(url), init);
+  } catch {
+    throw new CalendarApiError('Could not reach the calendar feed', 'network');
+  }
+  if (!response.ok) {
+    throw new CalendarApiError(`Calendar feed request failed (${response.status})`, getErrorCode(response.status), response.status);
+  }
+  return response.text();
+};
+
+/**
+ * Events of a CalDAV calendar between two instants. The server filters by
+ * time but returns recurring events whole, so they still need expanding.
+ */
+const fetchCalDav = async (feed: CalendarFeed, rangeStart: Date, rangeEnd: Date, password: string): Promise<ICalendar> => {
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="${CALDAV_NS}">
+  <d:prop><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${toCalDavTime(rangeStart)}" end="${toCalDavTime(rangeEnd)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+  const xml = await feedFetch(feed.url, {
+    method: 'REPORT',
+    headers: {
+      Depth: '1',
+      'Content-Type': 'application/xml; charset=utf-8',
+      ...(feed.username && { Authorization: toBasicAuth(feed.username, password) }),
+    },
+    body,
+  });
+
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const calendarData = Array.from(document.getElementsByTagNameNS(CALDAV_NS, 'calendar-data'));
+  return parseICalendar(calendarData.map(node => node.textContent || '').join('\r\n'));
+};
+
+/**
+ * Read a feed's events. ICS feeds are always downloaded whole; CalDAV asks
+ * for the range only, with the feed's app password when it has a username.
+ */
+export const fetchFeedCalendar = async (
+  feed: CalendarFeed,
+  rangeStart: Date,
+  rangeEnd: Date,
+  password = ''
+): Promise<ICalendar> => {
+  if (feed.kind === 'caldav') return fetchCalDav(feed, rangeStart, rangeEnd, password);
+  return parseICalendar(await feedFetch(feed.url));
+};
+
+/**
+ * Ask for access to the feed's host; extension pages can only read other
+ * sites they have been granted
+ */
+export const requestFeedAccess = async (url: string): Promise<boolean> => {
+  if (typeof chrome === 'undefined' || !chrome.permissions) return true;
+  try {
+    return await chrome.permissions.request({ origins: [`${new URL(normalizeFeedUrl(url)).origin}/*`] });
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,280 @@
+import { MeetingDetails, BusyInterval, CalendarListEntry, SendUpdates } from '../types';
+
+/**
+ * Calendar providers
+ * What the app needs from a calendar backend, plus the request helper,
+ * retry policy and errors every provider shares
+ */
+
+export type CalendarProviderId = 'google' | 'microsoft';
+
+export type CalendarErrorCode =
+  | 'unauthorized' // Token missing, expired and not refreshable, or revoked
+  | 'forbidden'
+  | 'consent_required' // The user hasn't allowed the scopes this needs
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server'
+  | 'network'
+  | 'invalid_request';
+
+export class CalendarApiError extends Error {
+  code: CalendarErrorCode;
+  status?: number;
+  reason?: string; // The provider's own error reason, e.g. "rateLimitExceeded"
+
+  constructor(message: string, code: CalendarErrorCode, status?: number, reason?: string) {
+    super(message);
+    this.name = 'CalendarApiError';
+    this.code = code;
+    this.status = status;
+    this.reason = reason;
+  }
+
+  get isRetryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'server' || this.code === 'network';
+  }
+}
+
+export interface CalendarAuth {
+  token: string;
+  refreshToken?: () => Promise<string | null>;
+}
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Doubled on every retry
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Event as every provider reports it, times as ISO strings with an offset
+export interface ProviderEvent {
+  id: string;
+  summary: string;
+  description?: string;
+  start: { dateTime?: string; date?: string; timeZone?: string }; // date only for all-day events
+  end: { dateTime?: string; date?: string; timeZone?: string };
+  attendees?: Array<{ email: string; displayName?: string }>;
+  status: string; // "confirmed", "tentative" or "cancelled"
+  meetingUrl?: string;
+}
+
+export interface CreateEventOptions {
+  calendarId?: string;
+  // Reused when retrying the same creation so the provider never makes a
+  // second event or meeting link for it
+  requestId?: string;
+  // A hold: marked tentative and created without a meeting link
+  tentative?: boolean;
+}
+
+export interface CreatedEvent {
+  id: string;
+  meetingUrl: string;
+  event: ProviderEvent;
+}
+
+export interface FreeBusyResult {
+  busy: Record<string, BusyInterval[]>;
+  errors: Record<string, string>; // Calendars that could not be read, keyed by id
+}
+
+// Scopes asked for together, each tier only once a feature needs it:
+// profile at sign-in, busy when calendars are shown, events on the first
+// meeting created
+export type ScopeTier = 'profile' | 'busy' | 'events';
+
+// What an account can do with the scopes it actually granted; consent can be
+// partial, so this is checked per feature rather than per tier
+export type CalendarAccess = 'freeBusy' | 'readEvents' | 'writeEvents';
+
+// Tier that grants each access
+export const ACCESS_TIERS: Record<CalendarAccess, Exclude<ScopeTier, 'profile'>> = {
+  freeBusy: 'busy',
+  readEvents: 'busy',
+  writeEvents: 'events',
+};
+
+export interface OAuthConfig {
+  clientId: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: Record<ScopeTier, string[]>;
+  accessScopes: Record<CalendarAccess, string[]>; // Any one of them allows the access
+  authParams?: Record<string, string>; // Extra authorize parameters, e.g. for refresh tokens
+}
+
+// Scopes to ask for when adding a tier; profile scopes are always included
+// so the ID token and refresh token keep coming back
+export const getTierScopes = (oauth: OAuthConfig, tier: ScopeTier) =>
+  Array.from(new Set([...oauth.scopes.profile, ...oauth.scopes[tier]]));
+
+// Granted scopes come back as full URLs from Google and sometimes with a
+// resource prefix from Microsoft ("https://graph.microsoft.com/Calendars.Read").
+// Accounts from before scopes were tracked granted everything up front.
+export const getGrantedAccess = (oauth: OAuthConfig, grantedScopes?: string[]): Record<CalendarAccess, boolean> => {
+  const isGranted = (scope: string) =>
+    !grantedScopes || grantedScopes.some(granted => granted === scope || granted.endsWith(`/${scope}`));
+  return {
+    freeBusy: oauth.accessScopes.freeBusy.some(isGranted),
+    readEvents: oauth.accessScopes.readEvents.some(isGranted),
+    writeEvents: oauth.accessScopes.writeEvents.some(isGranted),
+  };
+};
+
+export interface AccountProfile {
+  id: string;
+  name: string;
+  email: string;
+  picture: string;
+}
+
+export interface CalendarProvider {
+  id: CalendarProviderId;
+  name: string; // e.g. "Google Calendar"
+  conferencingName: string; // Video meetings created with events, e.g. "Google Meet"
+  webUrl: string; // The provider's calendar in the browser
+  oauth: OAuthConfig;
+  fetchProfile: (token: string) => Promise<AccountProfile>;
+  listCalendars: (auth: CalendarAuth) => Promise<CalendarListEntry[]>;
+  listEvents: (auth: CalendarAuth, calendarId: string, timeMin: string, timeMax: string) => Promise<ProviderEvent[]>;
+  queryFreeBusy: (auth: CalendarAuth, timeMin: string, timeMax: string, calendarIds: string[]) => Promise<FreeBusyResult>;
+  createEvent: (auth: CalendarAuth, meeting: MeetingDetails, options?: CreateEventOptions) => Promise<CreatedEvent>;
+  updateEvent: (
+    auth: CalendarAuth,
+    eventId: string,
+    changes: Partial<MeetingDetails>,
+    calendarId?: string,
+    sendUpdates?: SendUpdates
+  ) => Promise<ProviderEvent>;
+  deleteEvent: (auth: CalendarAuth, eventId: string, calendarId?: string, sendUpdates?: SendUpdates) => Promise<void>;
+}
+
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Map an HTTP status and the provider's error reason to an error code
+ */
+export const getErrorCode = (status: number, reason?: string): CalendarErrorCode => {
+  if (status === 401) return 'unauthorized';
+  if (status === 429 || (status === 403 && reason && RATE_LIMIT_REASONS.includes(reason))) return 'rate_limited';
+  if (status === 403) return 'forbidden';
+  if (status === 404 || status === 410) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status >= 500) return 'server';
+  return 'invalid_request';
+};
+
+// Google and Graph both answer { error: { message } }; Google puts its
+// reason in error.errors, Graph uses a string error.code
+const toApiError = async (response: Response): Promise<CalendarApiError> => {
+  let message = `Calendar request failed (${response.status})`;
+  let reason: string | undefined;
+  try {
+    const body = await response.json();
+    message = body.error?.message || message;
+    reason = body.error?.errors?.[0]?.reason || (typeof body.error?.code === 'string' ? body.error.code : undefined);
+  } catch {
+    // Not every error response has a JSON body
+  }
+  return new CalendarApiError(message, getErrorCode(response.status, reason), response.status, reason);
+};
+
+const getRetryDelay = (response: Response | null, attempt: number, policy: RetryPolicy) => {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, policy.maxDelayMs);
+  return Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+};
+
+/**
+ * Turn a failed calendar call into a message for the user
+ */
+export const getCalendarErrorMessage = (error: unknown, fallback: string): string => {
+  if (!(error instanceof CalendarApiError)) return fallback;
+
+  switch (error.code) {
+    case 'unauthorized':
+      return 'Your session has expired. Please sign in again.';
+    case 'forbidden':
+      return "You don't have permission to change this calendar.";
+    case 'consent_required':
+      return 'Allow calendar access to add this meeting to your calendar.';
+    case 'not_found':
+      return 'This event no longer exists in your calendar.';
+    case 'rate_limited':
+      return 'Your calendar is busy right now. Please try again in a minute.';
+    case 'network':
+      return 'Could not reach your calendar. Please check your internet connection and try again.';
+    default:
+      return fallback;
+  }
+};
+
+/**
+ * Call a calendar API and return the parsed JSON body. An expired token is
+ * refreshed once; rate limits, server errors and network failures are
+ * retried with backoff.
+ */
+export const fetchWithRetry = async <T>(
+  auth: CalendarAuth,
+  url: string,
+  init: RequestInit = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> => {
+  let token = auth.token;
+  let hasRefreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | null = null;
+    let error: CalendarApiError;
+
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          ...init.headers,
+          // Only requests with a body need it; on reads it would force a CORS preflight
+          ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+          Authorization: `Bearer ${token}`,
+        },
+      });
+    } catch (networkError) {
+      console.warn('Calendar request could not be sent:', networkError);
+    }
+
+    if (response?.ok) {
+      // Deletes answer 204 with no body
+      return (response.status === 204 ? undefined : await response.json()) as T;
+    }
+
+    error = response
+      ? await toApiError(response)
+      : new CalendarApiError('Could not reach the calendar', 'network');
+
+    // An expired token is refreshed once and doesn't count as a retry
+    if (error.code === 'unauthorized' && !hasRefreshed && auth.refreshToken) {
+      hasRefreshed = true;
+      const newToken = await auth.refreshToken();
+      if (newToken) {
+        token = newToken;
+        attempt--;
+        continue;
+      }
+      error = new CalendarApiError('Authentication failed. Please sign in again.', 'unauthorized', 401);
+    }
+
+    if (!error.isRetryable || attempt >= policy.maxRetries) {
+      throw error;
+    }
+    await sleep(getRetryDelay(response, attempt, policy));
+  }
+};
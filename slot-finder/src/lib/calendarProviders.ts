@@ -0,0 +1,18 @@
+import { CalendarProvider, CalendarProviderId } from './calendarProvider';
+import { googleCalendarProvider } from './googleCalendar';
+import { microsoftCalendarProvider } from './microsoftCalendar';
+
+/**
+ * Calendar providers the app can sign in with
+ */
+export const CALENDAR_PROVIDERS: Record<CalendarProviderId, CalendarProvider> = {
+  google: googleCalendarProvider,
+  microsoft: microsoftCalendarProvider,
+};
+
+export const getCalendarProvider = (id?: CalendarProviderId | null): CalendarProvider =>
+  (id && CALENDAR_PROVIDERS[id]) || googleCalendarProvider;
+
+// Providers this build has an OAuth client for
+export const getConfiguredProviders = (): CalendarProvider[] =>
+  Object.values(CALENDAR_PROVIDERS).filter(provider => !!provider.oauth.clientId);
@@ -1,98 +1,271 @@
-import { MeetingDetails } from '../types';
+import { MeetingDetails, CalendarListEntry, SendUpdates } from '../types';
+import { config } from '../config';
+import {
+  CalendarAuth,
+  CalendarApiError,
+  CalendarProvider,
+  CreateEventOptions,
+  CreatedEvent,
+  FreeBusyResult,
+  ProviderEvent,
+  RetryPolicy,
+  AccountProfile,
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+} from './calendarProvider';
 
-export const createCalendarEvent = async (
-  token: string,
-  meeting: Omit<MeetingDetails, 'id' | 'status'>
-) => {
+/**
+ * Google Calendar provider
+ * Calendar API v3 calls, with Google Meet links on created events
+ */
+
+const API_BASE = 'https://www.googleapis.com/calendar/v3';
+
+// Event as the Calendar API returns it
+export interface GoogleEventResource {
+  id: string;
+  summary?: string;
+  description?: string;
+  start: { dateTime?: string; date?: string; timeZone?: string };
+  end: { dateTime?: string; date?: string; timeZone?: string };
+  attendees?: Array<{ email: string; displayName?: string; responseStatus?: string }>;
+  status?: string;
+  recurrence?: string[];
+  hangoutLink?: string;
+  conferenceData?: { entryPoints?: Array<{ entryPointType?: string; uri: string }> };
+}
+
+/**
+ * Call the Calendar API at a path under its base URL
+ */
+export const calendarFetch = <T>(
+  auth: CalendarAuth,
+  path: string,
+  init: RequestInit = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> => fetchWithRetry<T>(auth, `${API_BASE}${path}`, init, policy);
+
+/**
+ * Build a Calendar event id from a request id. Event ids may only use the
+ * characters a-v and 0-9, which covers a UUID without its dashes.
+ */
+export const toEventId = (requestId: string): string => requestId.toLowerCase().replace(/[^a-v0-9]/g, '');
+
+const getMeetingUrl = (event: GoogleEventResource) =>
+  event.hangoutLink || event.conferenceData?.entryPoints?.find(entry => entry.entryPointType === 'video')?.uri || '';
+
+const toProviderEvent = (event: GoogleEventResource): ProviderEvent => ({
+  id: event.id,
+  summary: event.summary || 'Untitled Event',
+  description: event.description,
+  start: event.start,
+  end: event.end,
+  attendees: event.attendees?.map(({ email, displayName }) => ({ email, displayName })),
+  status: event.status || 'confirmed',
+  meetingUrl: getMeetingUrl(event) || undefined,
+});
+
+/**
+ * Create an event with a Google Meet link, or a tentative hold without one.
+ * Retrying with the same requestId returns the event the first attempt made
+ * instead of a duplicate.
+ */
+export const createEvent = async (
+  auth: CalendarAuth,
+  meeting: MeetingDetails,
+  { calendarId = 'primary', requestId = window.crypto.randomUUID(), tentative = false }: CreateEventOptions = {}
+): Promise<CreatedEvent> => {
+  const eventId = toEventId(requestId);
+  const eventsPath = `/calendars/${encodeURIComponent(calendarId)}/events`;
+  const body = {
+    id: eventId,
+    summary: meeting.title,
+    description: meeting.description,
+    start: { dateTime: meeting.startTime, timeZone: meeting.timezone },
+    end: { dateTime: meeting.endTime, timeZone: meeting.timezone },
+    attendees: meeting.attendees.map(email => ({ email })),
+    ...(meeting.recurrence && { recurrence: meeting.recurrence }),
+    ...(tentative
+      ? { status: 'tentative', reminders: { useDefault: false } }
+      : {
+          conferenceData: {
+            createRequest: {
+              requestId,
+              conferenceSolutionKey: { type: 'hangoutsMeet' },
+            },
+          },
+          reminders: { useDefault: true },
+        }),
+  };
+
+  let event: GoogleEventResource;
   try {
-    // Format the event according to Google Calendar API
-    const event = {
-      summary: meeting.title,
-      description: meeting.description,
-      start: {
-        dateTime: meeting.startTime,
-        timeZone: 'UTC', // You might want to make this configurable
-      },
-      end: {
-        dateTime: meeting.endTime,
-        timeZone: 'UTC',
-      },
-      attendees: meeting.attendees.map((email) => ({ email })),
-      conferenceData: {
-        createRequest: {
-          requestId: window.crypto.randomUUID(),
-          conferenceSolutionKey: { type: 'hangoutsMeet' },
-        },
-      },
-      reminders: {
-        useDefault: true,
-      },
-    };
-
-    const response = await fetch(
-      'https://www.googleapis.com/calendar/v3/calendars/primary/events?conferenceDataVersion=1',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(event),
-      }
-    );
+    event = await calendarFetch<GoogleEventResource>(auth, `${eventsPath}?conferenceDataVersion=1`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    // An earlier attempt that timed out on our side already created it
+    if (!(error instanceof CalendarApiError && error.code === 'conflict')) throw error;
+    event = await calendarFetch<GoogleEventResource>(auth, `${eventsPath}/${eventId}`);
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('Failed to create calendar event:', error);
-      throw new Error('Failed to create calendar event');
-    }
+  return { id: event.id, meetingUrl: getMeetingUrl(event), event: toProviderEvent(event) };
+};
 
-    const data = await response.json();
-    return {
-      id: data.id,
-      meetingUrl: data.hangoutLink || data.conferenceData?.entryPoints?.[0]?.uri || '',
-      calendarEvent: data,
-    };
+/**
+ * Change some fields of an event, leaving the rest as they are
+ */
+export const updateEvent = async (
+  auth: CalendarAuth,
+  eventId: string,
+  changes: Partial<MeetingDetails>,
+  calendarId: string = 'primary',
+  sendUpdates: SendUpdates = 'all'
+): Promise<ProviderEvent> => {
+  const patch = {
+    ...(changes.title !== undefined && { summary: changes.title }),
+    ...(changes.description !== undefined && { description: changes.description }),
+    ...(changes.startTime && { start: { dateTime: changes.startTime, timeZone: changes.timezone } }),
+    ...(changes.endTime && { end: { dateTime: changes.endTime, timeZone: changes.timezone } }),
+    ...(changes.attendees && { attendees: changes.attendees.map(email => ({ email })) }),
+  };
+
+  const event = await calendarFetch<GoogleEventResource>(
+    auth,
+    `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}?sendUpdates=${sendUpdates}`,
+    { method: 'PATCH', body: JSON.stringify(patch) }
+  );
+  return toProviderEvent(event);
+};
+
+export const deleteEvent = async (
+  auth: CalendarAuth,
+  eventId: string,
+  calendarId: string = 'primary',
+  sendUpdates: SendUpdates = 'all'
+): Promise<void> => {
+  try {
+    await calendarFetch<void>(
+      auth,
+      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}?sendUpdates=${sendUpdates}`,
+      { method: 'DELETE' }
+    );
   } catch (error) {
-    console.error('Error creating calendar event:', error);
-    throw error;
+    // Already gone is what we wanted
+    if (!(error instanceof CalendarApiError && error.code === 'not_found')) throw error;
   }
 };
 
-export const checkCalendarAvailability = async (
-  token: string,
+/**
+ * List the events of one calendar between two instants, recurring events
+ * expanded into their occurrences
+ */
+export const listEvents = async (
+  auth: CalendarAuth,
+  calendarId: string,
+  timeMin: string,
+  timeMax: string
+): Promise<ProviderEvent[]> => {
+  const params = new URLSearchParams({ timeMin, timeMax, singleEvents: 'true', orderBy: 'startTime' });
+  const data = await calendarFetch<{ items?: GoogleEventResource[] }>(
+    auth,
+    `/calendars/${encodeURIComponent(calendarId)}/events?${params}`
+  );
+  return (data.items || []).map(toProviderEvent);
+};
+
+export const listCalendars = async (auth: CalendarAuth): Promise<CalendarListEntry[]> => {
+  const data = await calendarFetch<{ items?: Array<CalendarListEntry & { summaryOverride?: string }> }>(
+    auth,
+    '/users/me/calendarList?minAccessRole=freeBusyReader'
+  );
+
+  // Primary first, then alphabetically
+  return (data.items || [])
+    .map((item) => ({
+      id: item.id,
+      summary: item.summaryOverride || item.summary,
+      backgroundColor: item.backgroundColor || '#4285f4',
+      primary: item.primary,
+      accessRole: item.accessRole,
+    }))
+    .sort((a, b) => Number(!!b.primary) - Number(!!a.primary) || a.summary.localeCompare(b.summary));
+};
+
+export const queryFreeBusy = async (
+  auth: CalendarAuth,
   timeMin: string,
   timeMax: string,
-  timeZone: string = 'UTC'
-) => {
-  try {
-    const response = await fetch(
-      `https://www.googleapis.com/calendar/v3/freeBusy`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          timeMin,
-          timeMax,
-          timeZone,
-          items: [{ id: 'primary' }],
-        }),
-      }
-    );
+  calendarIds: string[]
+): Promise<FreeBusyResult> => {
+  const data = await calendarFetch<{
+    calendars?: Record<string, { busy?: Array<{ start: string; end: string }>; errors?: Array<{ reason: string }> }>;
+  }>(auth, '/freeBusy', {
+    method: 'POST',
+    body: JSON.stringify({
+      timeMin,
+      timeMax,
+      timeZone: 'UTC',
+      items: calendarIds.map((id) => ({ id })),
+    }),
+  });
+
+  const result: FreeBusyResult = { busy: {}, errors: {} };
 
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('Failed to check calendar availability:', error);
-      throw new Error('Failed to check calendar availability');
+  Object.entries(data.calendars || {}).forEach(([id, { busy = [], errors = [] }]) => {
+    if (errors.length > 0) {
+      result.errors[id] = errors[0].reason;
     }
+    result.busy[id] = busy.map((interval) => ({
+      start: new Date(interval.start),
+      end: new Date(interval.end),
+    }));
+  });
 
-    const data = await response.json();
-    return data.calendars?.primary?.busy || [];
-  } catch (error) {
-    console.error('Error checking calendar availability:', error);
-    throw error;
-  }
+  return result;
+};
+
+export const fetchProfile = async (token: string): Promise<AccountProfile> => {
+  return fetchWithRetry<AccountProfile>({ token }, 'https://www.googleapis.com/oauth2/v2/userinfo');
+};
+
+export const googleCalendarProvider: CalendarProvider = {
+  id: 'google',
+  name: 'Google Calendar',
+  conferencingName: 'Google Meet',
+  webUrl: 'https://calendar.google.com',
+  oauth: {
+    clientId: config.googleClientId,
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    scopes: {
+      profile: [
+        'openid', // Returns an ID token carrying the sign-in nonce
+        'https://www.googleapis.com/auth/userinfo.profile',
+        'https://www.googleapis.com/auth/userinfo.email',
+      ],
+      busy: ['https://www.googleapis.com/auth/calendar.freebusy', 'https://www.googleapis.com/auth/calendar.readonly'],
+      events: ['https://www.googleapis.com/auth/calendar.events'],
+    },
+    accessScopes: {
+      freeBusy: [
+        'https://www.googleapis.com/auth/calendar.freebusy',
+        'https://www.googleapis.com/auth/calendar.readonly',
+        'https://www.googleapis.com/auth/calendar',
+      ],
+      // The calendar list needs more than calendar.events
+      readEvents: ['https://www.googleapis.com/auth/calendar.readonly', 'https://www.googleapis.com/auth/calendar'],
+      writeEvents: ['https://www.googleapis.com/auth/calendar.events', 'https://www.googleapis.com/auth/calendar'],
+    },
+    // Tokens from a later grant carry the earlier ones too
+    authParams: { access_type: 'offline', prompt: 'consent', include_granted_scopes: 'true' },
+  },
+  fetchProfile,
+  listCalendars,
+  listEvents,
+  queryFreeBusy,
+  createEvent,
+  updateEvent,
+  deleteEvent,
 };
@@ -0,0 +1,326 @@
+import moment from 'moment-timezone';
+import { MeetingDetails, CalendarListEntry } from '../types';
+import { config } from '../config';
+import {
+  CalendarAuth,
+  CalendarApiError,
+  CalendarProvider,
+  CreateEventOptions,
+  CreatedEvent,
+  FreeBusyResult,
+  ProviderEvent,
+  AccountProfile,
+  fetchWithRetry,
+} from './calendarProvider';
+
+/**
+ * Microsoft 365 / Outlook provider
+ * Microsoft Graph calendar calls, with Teams links on created events
+ */
+
+const GRAPH_BASE = 'https://graph.microsoft.com/v1.0';
+
+// Ask Graph for every time in UTC so they can be read as instants
+const UTC_HEADERS = { Prefer: 'outlook.timezone="UTC"' };
+
+interface GraphDateTime {
+  dateTime: string; // Wall time without an offset, e.g. 2025-11-04T14:00:00.0000000
+  timeZone: string;
+}
+
+// Event as Graph returns it
+export interface GraphEvent {
+  id: string;
+  subject?: string;
+  bodyPreview?: string;
+  body?: { contentType: 'text' | 'html'; content: string };
+  start: GraphDateTime;
+  end: GraphDateTime;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: string;
+  attendees?: Array<{ emailAddress: { address: string; name?: string } }>;
+  onlineMeeting?: { joinUrl?: string } | null;
+}
+
+interface GraphCalendar {
+  id: string;
+  name: string;
+  hexColor?: string;
+  canEdit?: boolean;
+  isDefaultCalendar?: boolean;
+}
+
+const graphFetch = <T>(auth: CalendarAuth, path: string, init: RequestInit = {}): Promise<T> =>
+  fetchWithRetry<T>(auth, path.startsWith('https://') ? path : `${GRAPH_BASE}${path}`, init);
+
+// The default calendar goes by "primary" like Google's, so saved selections
+// and meeting records work the same for both providers
+const calendarPath = (calendarId: string) =>
+  calendarId === 'primary' ? '/me/calendar' : `/me/calendars/${encodeURIComponent(calendarId)}`;
+
+/**
+ * Read a Graph UTC wall time (up to 7 fractional digits) as an ISO instant
+ */
+export const toUtcIso = (dateTime: string): string => new Date(`${dateTime.slice(0, 23)}Z`).toISOString();
+
+// Graph takes wall times in a named zone rather than offsets
+const toGraphDateTime = (iso: string, timeZone: string = 'UTC'): GraphDateTime => ({
+  dateTime: moment(iso).tz(timeZone).format('YYYY-MM-DDTHH:mm:ss'),
+  timeZone,
+});
+
+export const toProviderEvent = (event: GraphEvent): ProviderEvent => ({
+  id: event.id,
+  summary: event.subject || 'Untitled Event',
+  description: event.body?.contentType === 'text' ? event.body.content : event.bodyPreview,
+  start: event.isAllDay ? { date: event.start.dateTime.slice(0, 10) } : { dateTime: toUtcIso(event.start.dateTime), timeZone: 'UTC' },
+  end: event.isAllDay ? { date: event.end.dateTime.slice(0, 10) } : { dateTime: toUtcIso(event.end.dateTime), timeZone: 'UTC' },
+  attendees: event.attendees?.map(({ emailAddress }) => ({ email: emailAddress.address, displayName: emailAddress.name })),
+  status: event.isCancelled ? 'cancelled' : event.showAs === 'tentative' ? 'tentative' : 'confirmed',
+  meetingUrl: event.onlineMeeting?.joinUrl || undefined,
+});
+
+const RRULE_DAYS: Record<string, string> = {
+  MO: 'monday', TU: 'tuesday', WE: 'wednesday', TH: 'thursday', FR: 'friday', SA: 'saturday', SU: 'sunday',
+};
+
+/**
+ * Turn a daily or weekly RRULE into Graph's recurrence pattern and range.
+ * Other rules have no direct Graph equivalent and are rejected.
+ */
+export const toGraphRecurrence = (recurrence: string[], startIso: string, timeZone: string) => {
+  const rule = recurrence.find(line => line.startsWith('RRULE:'));
+  const parts = Object.fromEntries(
+    (rule || '').replace('RRULE:', '').split(';').filter(Boolean).map(part => part.split('='))
+  ) as Record<string, string>;
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') {
+    throw new CalendarApiError(`Outlook can't repeat events with "${rule || 'no rule'}"`, 'invalid_request');
+  }
+
+  const start = moment(startIso).tz(timeZone);
+  const daysOfWeek = parts.BYDAY
+    ? parts.BYDAY.split(',').map(day => RRULE_DAYS[day])
+    : [start.locale('en').format('dddd').toLowerCase()];
+
+  return {
+    pattern: {
+      type: parts.FREQ === 'DAILY' ? 'daily' : 'weekly',
+      interval: Number(parts.INTERVAL || 1),
+      ...(parts.FREQ === 'WEEKLY' && { daysOfWeek, firstDayOfWeek: 'monday' }),
+    },
+    range: {
+      startDate: start.format('YYYY-MM-DD'),
+      recurrenceTimeZone: timeZone,
+      ...(parts.COUNT
+        ? { type: 'numbered', numberOfOccurrences: Number(parts.COUNT) }
+        : parts.UNTIL
+          ? { type: 'endDate', endDate: moment.utc(parts.UNTIL, 'YYYYMMDD[T]HHmmss[Z]').tz(timeZone).format('YYYY-MM-DD') }
+          : { type: 'noEnd' }),
+    },
+  };
+};
+
+/**
+ * Create an event with a Teams link, or a tentative hold without one. Graph
+ * drops a repeated POST with the same transactionId, so retrying with the
+ * same requestId is safe.
+ */
+export const createEvent = async (
+  auth: CalendarAuth,
+  meeting: MeetingDetails,
+  { calendarId = 'primary', requestId = window.crypto.randomUUID(), tentative = false }: CreateEventOptions = {}
+): Promise<CreatedEvent> => {
+  const body = {
+    subject: meeting.title,
+    body: { contentType: 'text', content: meeting.description },
+    start: toGraphDateTime(meeting.startTime, meeting.timezone),
+    end: toGraphDateTime(meeting.endTime, meeting.timezone),
+    attendees: meeting.attendees.map(address => ({ emailAddress: { address }, type: 'required' })),
+    ...(meeting.recurrence && { recurrence: toGraphRecurrence(meeting.recurrence, meeting.startTime, meeting.timezone) }),
+    ...(tentative
+      ? { showAs: 'tentative', isOnlineMeeting: false, isReminderOn: false }
+      : { isOnlineMeeting: true, onlineMeetingProvider: 'teamsForBusiness' }),
+    transactionId: requestId,
+  };
+
+  const event = await graphFetch<GraphEvent>(auth, `${calendarPath(calendarId)}/events`, {
+    method: 'POST',
+    headers: UTC_HEADERS,
+    body: JSON.stringify(body),
+  });
+
+  return { id: event.id, meetingUrl: event.onlineMeeting?.joinUrl || '', event: toProviderEvent(event) };
+};
+
+/**
+ * Change some fields of an event, leaving the rest as they are. Exchange
+ * always emails attendees about changes, so there is no sendUpdates choice.
+ */
+export const updateEvent = async (
+  auth: CalendarAuth,
+  eventId: string,
+  changes: Partial<MeetingDetails>,
+  calendarId: string = 'primary'
+): Promise<ProviderEvent> => {
+  const patch = {
+    ...(changes.title !== undefined && { subject: changes.title }),
+    ...(changes.description !== undefined && { body: { contentType: 'text', content: changes.description } }),
+    ...(changes.startTime && { start: toGraphDateTime(changes.startTime, changes.timezone) }),
+    ...(changes.endTime && { end: toGraphDateTime(changes.endTime, changes.timezone) }),
+    ...(changes.attendees && {
+      attendees: changes.attendees.map(address => ({ emailAddress: { address }, type: 'required' })),
+    }),
+  };
+
+  const event = await graphFetch<GraphEvent>(auth, `${calendarPath(calendarId)}/events/${encodeURIComponent(eventId)}`, {
+    method: 'PATCH',
+    headers: UTC_HEADERS,
+    body: JSON.stringify(patch),
+  });
+  return toProviderEvent(event);
+};
+
+export const deleteEvent = async (auth: CalendarAuth, eventId: string, calendarId: string = 'primary'): Promise<void> => {
+  try {
+    await graphFetch<void>(auth, `${calendarPath(calendarId)}/events/${encodeURIComponent(eventId)}`, { method: 'DELETE' });
+  } catch (error) {
+    // Already gone is what we wanted
+    if (!(error instanceof CalendarApiError && error.code === 'not_found')) throw error;
+  }
+};
+
+/**
+ * List the events of one calendar between two instants, recurring events
+ * expanded into their occurrences
+ */
+export const listEvents = async (
+  auth: CalendarAuth,
+  calendarId: string,
+  timeMin: string,
+  timeMax: string
+): Promise<ProviderEvent[]> => {
+  const params = new URLSearchParams({
+    startDateTime: timeMin,
+    endDateTime: timeMax,
+    $top: '250',
+    $orderby: 'start/dateTime',
+  });
+  const events: GraphEvent[] = [];
+  let nextPage: string | undefined = `${calendarPath(calendarId)}/calendarView?${params}`;
+
+  while (nextPage) {
+    const page: { value?: GraphEvent[]; '@odata.nextLink'?: string } = await graphFetch(auth, nextPage, {
+      headers: UTC_HEADERS,
+    });
+    events.push(...(page.value || []));
+    nextPage = page['@odata.nextLink'];
+  }
+
+  return events.map(toProviderEvent);
+};
+
+export const listCalendars = async (auth: CalendarAuth): Promise<CalendarListEntry[]> => {
+  const data = await graphFetch<{ value?: GraphCalendar[] }>(auth, '/me/calendars?$top=100');
+
+  // Default first, then alphabetically
+  return (data.value || [])
+    .map((calendar): CalendarListEntry => ({
+      id: calendar.id,
+      summary: calendar.name,
+      backgroundColor: calendar.hexColor || '#0078d4',
+      primary: calendar.isDefaultCalendar,
+      accessRole: calendar.isDefaultCalendar ? 'owner' : calendar.canEdit ? 'writer' : 'reader',
+    }))
+    .sort((a, b) => Number(!!b.primary) - Number(!!a.primary) || a.summary.localeCompare(b.summary));
+};
+
+/**
+ * Busy times of the user and other people, by email address. Graph has no
+ * "primary" alias here, so it is swapped for the signed-in user's address.
+ */
+export const queryFreeBusy = async (
+  auth: CalendarAuth,
+  timeMin: string,
+  timeMax: string,
+  calendarIds: string[]
+): Promise<FreeBusyResult> => {
+  let ownAddress = '';
+  if (calendarIds.includes('primary')) {
+    const me = await graphFetch<{ mail?: string; userPrincipalName: string }>(auth, '/me?$select=mail,userPrincipalName');
+    ownAddress = me.mail || me.userPrincipalName;
+  }
+  const schedules = calendarIds.map(id => (id === 'primary' ? ownAddress : id));
+
+  const data = await graphFetch<{
+    value?: Array<{
+      scheduleId: string;
+      scheduleItems?: Array<{ status: string; start: GraphDateTime; end: GraphDateTime }>;
+      error?: { message: string; responseCode?: string };
+    }>;
+  }>(auth, '/me/calendar/getSchedule', {
+    method: 'POST',
+    headers: UTC_HEADERS,
+    body: JSON.stringify({
+      schedules,
+      startTime: { dateTime: new Date(timeMin).toISOString().slice(0, 19), timeZone: 'UTC' },
+      endTime: { dateTime: new Date(timeMax).toISOString().slice(0, 19), timeZone: 'UTC' },
+      availabilityViewInterval: 15,
+    }),
+  });
+
+  const result: FreeBusyResult = { busy: {}, errors: {} };
+
+  (data.value || []).forEach(({ scheduleId, scheduleItems = [], error }) => {
+    const index = schedules.findIndex(address => address.toLowerCase() === scheduleId.toLowerCase());
+    const id = index >= 0 ? calendarIds[index] : scheduleId;
+
+    if (error) {
+      result.errors[id] = error.responseCode || error.message;
+    }
+    result.busy[id] = scheduleItems
+      .filter(item => item.status !== 'free')
+      .map(item => ({ start: new Date(toUtcIso(item.start.dateTime)), end: new Date(toUtcIso(item.end.dateTime)) }));
+  });
+
+  return result;
+};
+
+export const fetchProfile = async (token: string): Promise<AccountProfile> => {
+  const me = await graphFetch<{ id: string; displayName: string; mail?: string; userPrincipalName: string }>(
+    { token },
+    '/me'
+  );
+  return { id: me.id, name: me.displayName, email: me.mail || me.userPrincipalName, picture: '' };
+};
+
+export const microsoftCalendarProvider: CalendarProvider = {
+  id: 'microsoft',
+  name: 'Outlook',
+  conferencingName: 'Microsoft Teams',
+  webUrl: 'https://outlook.office.com/calendar',
+  oauth: {
+    clientId: config.microsoftClientId,
+    authorizeUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+    tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+    scopes: {
+      profile: ['openid', 'profile', 'email', 'offline_access', 'User.Read'],
+      busy: ['Calendars.Read', 'Calendars.Read.Shared'],
+      events: ['Calendars.ReadWrite'],
+    },
+    accessScopes: {
+      freeBusy: ['Calendars.Read', 'Calendars.ReadWrite'],
+      readEvents: ['Calendars.Read', 'Calendars.ReadWrite'],
+      writeEvents: ['Calendars.ReadWrite'],
+    },
+    authParams: { prompt: 'select_account', response_mode: 'query' },
+  },
+  fetchProfile,
+  listCalendars,
+  listEvents,
+  queryFreeBusy,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+};
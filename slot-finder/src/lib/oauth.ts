@@ -0,0 +1,118 @@
+import { OAuthConfig } from './calendarProvider';
+
+/**
+ * Authorization-code flow with PKCE (RFC 7636). The code verifier takes the
+ * place of a client secret: only whoever started the flow can redeem the
+ * code, so the extension ships nothing but the public client ID. State ties
+ * the redirect to the request that was sent, and the nonce ties the ID token
+ * to it.
+ */
+
+// One sign-in attempt, kept until its redirect comes back
+export interface AuthorizationRequest {
+  url: string;
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  id_token?: string;
+  scope?: string; // Granted scopes, space separated
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Unguessable URL-safe string, 43 characters for the default 32 bytes
+export const createRandomString = (byteLength = 32) => toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const createCodeChallenge = async (codeVerifier: string) =>
+  toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))));
+
+// `extraParams` add to the provider's own, e.g. a login_hint so a later
+// grant goes to the account that is already signed in
+export const createAuthorizationRequest = async (
+  oauth: OAuthConfig,
+  redirectUri: string,
+  scopes: string[],
+  extraParams: Record<string, string> = {}
+): Promise<AuthorizationRequest> => {
+  const state = createRandomString();
+  const nonce = createRandomString();
+  const codeVerifier = createRandomString();
+  const params = new URLSearchParams({
+    client_id: oauth.clientId,
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    scope: scopes.join(' '),
+    state,
+    nonce,
+    code_challenge: await createCodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    ...oauth.authParams,
+    ...extraParams,
+  });
+  return { url: `${oauth.authorizeUrl}?${params}`, redirectUri, state, nonce, codeVerifier };
+};
+
+// Authorization code from the provider's redirect, once it is known to
+// answer this request
+export const readAuthorizationResponse = (responseUrl: string, request: AuthorizationRequest): string => {
+  const params = new URL(responseUrl).searchParams;
+
+  const error = params.get('error');
+  if (error) {
+    throw new Error(params.get('error_description') || `Sign-in was not completed (${error})`);
+  }
+  if (params.get('state') !== request.state) {
+    throw new Error('Sign-in response did not match this sign-in; please try again');
+  }
+
+  const code = params.get('code');
+  if (!code) throw new Error('Authorization code not found');
+  return code;
+};
+
+// Claims of an ID token. The signature isn't checked: the token comes
+// straight from the token endpoint over TLS, which OpenID Connect allows.
+export const decodeIdTokenClaims = (idToken: string): Record<string, unknown> => {
+  const payload = idToken.split('.')[1];
+  if (!payload) throw new Error('Malformed ID token');
+
+  const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+};
+
+export const exchangeAuthorizationCode = async (
+  oauth: OAuthConfig,
+  code: string,
+  request: AuthorizationRequest
+): Promise<TokenResponse> => {
+  const response = await fetch(oauth.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      code,
+      client_id: oauth.clientId,
+      redirect_uri: request.redirectUri,
+      grant_type: 'authorization_code',
+      code_verifier: request.codeVerifier,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to exchange code for tokens');
+  }
+
+  const tokens: TokenResponse = await response.json();
+  // Providers only return an ID token, and so the nonce, for openid scopes
+  if (tokens.id_token && decodeIdTokenClaims(tokens.id_token).nonce !== request.nonce) {
+    throw new Error('Sign-in response did not match this sign-in; please try again');
+  }
+  return tokens;
+};
@@ -1,5 +1,26 @@
 import moment from 'moment';
 
+// Working schedule for a zone, overriding the global working hours
+export interface WorkingSchedule {
+  start: number; // 24-hour format, fractional hours allowed (9.5 = 09:30)
+  end: number;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  lunchBreak?: { start: number; end: number };
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD in the country's local calendar
+  name: string;
+  country: string;
+}
+
+export interface DstTransition {
+  iana: string;
+  at: Date; // Instant the clocks change
+  offsetBefore: number; // UTC offset in minutes, east positive
+  offsetAfter: number;
+}
+
 // Enhanced TimeZone interface with home country support
 export interface TimeZone {
   id: string;
@@ -11,6 +32,7 @@ export interface TimeZone {
   flag?: string; // Country flag emoji or URL
   flagEmoji?: string; // Emoji for the flag (for UI)
   countryCode?: string; // ISO country code (for UI)
+  workSchedule?: WorkingSchedule; // Per-zone working hours, days and lunch break
 }
 
 // Meeting interface for tracking scheduled meetings
@@ -22,6 +44,100 @@ export interface Meeting {
   timezone: string; // IANA timezone
   attendees: string[];
   color?: string; // Color for the meeting indicator
+  seriesId?: string; // Shared by every occurrence of a recurring series
+  description?: string;
+  googleEventId?: string; // Google Calendar event created for this meeting
+  calendarId?: string; // Calendar holding googleEventId
+  accountId?: string; // Signed-in account that created googleEventId; missing on older meetings
+}
+
+// How an attendee answered one option of a poll
+export type PollAnswer = 'yes' | 'maybe' | 'no';
+
+// Candidate time offered in a poll
+export interface PollOption {
+  id: string;
+  start: Date;
+  end: Date;
+}
+
+export interface PollResponse {
+  attendee: string; // Email, or a name when answered outside email
+  answers: Record<string, PollAnswer>; // Keyed by option id; unanswered options are missing
+}
+
+// Several candidate times offered to attendees before one is booked
+export interface MeetingPoll {
+  id: string;
+  title: string;
+  description: string;
+  timezone: string; // IANA zone the options and the final event are written in
+  attendees: string[];
+  options: PollOption[];
+  responses: PollResponse[];
+  status: 'open' | 'decided' | 'cancelled';
+  createdAt: Date;
+  decidedOptionId?: string;
+  meetingId?: string; // Meeting created from the winning option
+}
+
+// Tentative event placed on the user's own calendar for one option of a
+// proposal, so nothing else gets booked there while attendees decide
+export interface MeetingHold {
+  id: string;
+  proposalId: string; // Poll the held option belongs to
+  optionId: string;
+  eventId: string;
+  calendarId: string;
+  accountId?: string; // Signed-in account the hold was placed with; missing on older holds
+  start: Date;
+  end: Date;
+  expiresAt: Date; // Released on its own after this, if nothing was booked first
+}
+
+// Busy interval returned by a free/busy query
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+// Meeting or calendar event placed on the grid at its absolute instants
+export interface GridEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  source: 'meeting' | 'calendar';
+  calendarId?: string;
+  color?: string; // Calendar color for calendar events
+}
+
+// Candidate meeting slot produced by the slot finder
+export interface CandidateSlot {
+  start: Date;
+  end: Date;
+  score: number; // Higher is better
+  pain: number; // Total inconvenience across zones, lower is better
+  zonesInWorkingHours: string[]; // Zone ids where the slot is inside working hours
+}
+
+// How convenient a local time is for a participant
+export type HourComfort = 'core' | 'shoulder' | 'late' | 'sleep';
+
+// Inconvenience of a meeting time for a single zone
+export interface ZonePainScore {
+  zoneId: string;
+  localTime: Date;
+  comfort: HourComfort;
+  pain: number;
+}
+
+// Meeting time graded across all participant zones
+export interface ScoredMeetingTime {
+  time: Date;
+  totalPain: number;
+  maxPain: number; // Pain of the worst-off zone
+  zones: ZonePainScore[];
 }
 
 // Time period indicators
@@ -46,6 +162,30 @@ export interface MeetingDetails {
   endTime: string;
   attendees: string[];
   timezone: string;
+  recurrence?: string[]; // RFC 5545 RRULE lines
+}
+
+// Who Google emails when an event changes
+export type SendUpdates = 'all' | 'externalOnly' | 'none';
+
+// Entry of the signed-in user's Google calendar list
+export interface CalendarListEntry {
+  id: string;
+  summary: string;
+  backgroundColor: string;
+  primary?: boolean;
+  accessRole: 'owner' | 'writer' | 'reader' | 'freeBusyReader';
+}
+
+// Calendar read from outside the signed-in account, e.g. Fastmail or Nextcloud
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  kind: 'ics' | 'caldav'; // Read-only ICS subscription or a CalDAV calendar collection
+  url: string;
+  username?: string; // CalDAV only; its app password is kept apart, see getFeedPassword
+  color: string;
+  enabled: boolean; // Shown on the grid and counted as busy
 }
 
 export interface GoogleUser {
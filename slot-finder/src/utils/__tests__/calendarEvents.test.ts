@@ -0,0 +1,52 @@
+import { calendarEventsToGridEvents, getEventBands } from "../calendarEvents";
+import type { CalendarEvent } from "../../hooks/useCalendar";
+
+const event = (id: string, start: string, end: string, status = "confirmed"): CalendarEvent => ({
+  id,
+  summary: `Event ${id}`,
+  start: { dateTime: start, timeZone: "America/New_York" },
+  end: { dateTime: end, timeZone: "America/New_York" },
+  status,
+  source: "google",
+});
+
+describe("calendarEvents", () => {
+  it("should keep timed events at their absolute instants", () => {
+    const gridEvents = calendarEventsToGridEvents([
+      event("a", "2025-11-04T09:00:00-05:00", "2025-11-04T09:30:00-05:00"),
+      event("b", "2025-11-04T10:00:00-05:00", "2025-11-04T11:00:00-05:00", "cancelled"),
+      { ...event("c", "", ""), start: { date: "2025-11-04" }, end: { date: "2025-11-05" } } as unknown as CalendarEvent,
+    ]);
+
+    expect(gridEvents).toHaveLength(1);
+    expect(gridEvents[0].start.toISOString()).toBe("2025-11-04T14:00:00.000Z");
+    expect(gridEvents[0].source).toBe("calendar");
+  });
+
+  it("should color events by their calendar", () => {
+    const colors: Record<string, string> = { primary: "#4285f4", team: "#f4511e" };
+    const gridEvents = calendarEventsToGridEvents(
+      [
+        { ...event("a", "2025-11-04T14:00:00Z", "2025-11-04T15:00:00Z"), calendarId: "primary" },
+        { ...event("a", "2025-11-04T14:00:00Z", "2025-11-04T15:00:00Z"), calendarId: "team" },
+      ],
+      (calendarId) => colors[calendarId || "primary"]
+    );
+
+    expect(gridEvents.map((gridEvent) => [gridEvent.calendarId, gridEvent.color])).toEqual([
+      ["primary", "#4285f4"],
+      ["team", "#f4511e"],
+    ]);
+  });
+
+  it("should place events inside a cell", () => {
+    const [gridEvent] = calendarEventsToGridEvents([event("a", "2025-11-04T14:15:00Z", "2025-11-04T15:30:00Z")]);
+    const cellStart = new Date("2025-11-04T14:00:00Z");
+
+    expect(getEventBands([gridEvent], cellStart, new Date("2025-11-04T15:00:00Z"))).toEqual([
+      { event: gridEvent, left: 25, width: 75 },
+    ]);
+    expect(getEventBands([gridEvent], new Date("2025-11-04T15:00:00Z"), new Date("2025-11-04T16:00:00Z"))[0]).toMatchObject({ left: 0, width: 50 });
+    expect(getEventBands([gridEvent], new Date("2025-11-04T16:00:00Z"), new Date("2025-11-04T17:00:00Z"))).toEqual([]);
+  });
+});
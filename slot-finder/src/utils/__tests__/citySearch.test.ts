@@ -0,0 +1,48 @@
+import { searchCities, normalizeSearchText, getFlagEmoji } from "../citySearch";
+
+const topResult = (query: string) => searchCities(query)[0];
+
+describe("citySearch", () => {
+  it("should find cities by nickname and former name", () => {
+    expect(topResult("NYC")).toMatchObject({ name: "New York", iana: "America/New_York", matchedAlias: "NYC" });
+    expect(topResult("Bangalore")).toMatchObject({ name: "Bengaluru", iana: "Asia/Kolkata" });
+    expect(topResult("Bengaluru")?.name).toBe("Bengaluru");
+    expect(topResult("Saigon")?.iana).toBe("Asia/Ho_Chi_Minh");
+  });
+
+  it("should rank the most common city first for abbreviations", () => {
+    expect(topResult("PST")?.iana).toBe("America/Los_Angeles");
+    expect(topResult("EST")?.iana).toBe("America/New_York");
+    expect(topResult("IST")?.iana).toBe("Asia/Kolkata");
+
+    const cet = searchCities("CET");
+    expect(cet.length).toBeGreaterThan(3);
+    expect(cet.every(result => result.abbreviations.includes("CET"))).toBe(true);
+  });
+
+  it("should cover zones outside the usual short list", () => {
+    expect(topResult("Kathmandu")?.iana).toBe("Asia/Kathmandu");
+    expect(topResult("Nairobi")?.iana).toBe("Africa/Nairobi");
+    expect(topResult("Honolulu")?.iana).toBe("Pacific/Honolulu");
+    expect(topResult("Reykjavik")?.iana).toBe("Atlantic/Reykjavik");
+    // Only reachable through the tz database
+    expect(topResult("Liechtenstein")?.iana).toBe("Europe/Vaduz");
+  });
+
+  it("should prefer larger cities for country searches", () => {
+    expect(topResult("India")?.name).toBe("Delhi");
+    const brazil = searchCities("sao paulo");
+    expect(brazil[0].name).toBe("São Paulo");
+  });
+
+  it("should normalize accents and separators", () => {
+    expect(normalizeSearchText("São_Paulo")).toBe("sao paulo");
+    expect(normalizeSearchText("  America/New_York ")).toBe("america new york");
+    expect(searchCities("   ")).toEqual([]);
+  });
+
+  it("should build flag emoji from country codes", () => {
+    expect(getFlagEmoji("JP")).toBe("🇯🇵");
+    expect(getFlagEmoji("")).toBe("🌍");
+  });
+});
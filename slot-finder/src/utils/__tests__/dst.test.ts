@@ -0,0 +1,56 @@
+import moment from "moment-timezone";
+import {
+  getDstTransitions,
+  getDayDstTransitions,
+  getNextDstTransition,
+  hasFractionalOffset,
+  formatUtcOffset,
+  describeDstTransition,
+  findSeriesDstCrossings,
+} from "../dst";
+import { TimeZone } from "../../types";
+
+const zones: TimeZone[] = [
+  { id: "zone_colombo", name: "Colombo", iana: "Asia/Colombo", label: "Sri Lanka", country: "Sri Lanka", isHome: true },
+  { id: "zone_london", name: "London", iana: "Europe/London", label: "United Kingdom", country: "United Kingdom" },
+];
+
+describe("dst", () => {
+  it("should find the exact instants clocks change", () => {
+    const transitions = getDstTransitions("Europe/London", new Date("2025-01-01T00:00:00Z"), new Date("2026-01-01T00:00:00Z"));
+
+    expect(transitions.map(transition => transition.at.toISOString())).toEqual([
+      "2025-03-30T01:00:00.000Z",
+      "2025-10-26T01:00:00.000Z",
+    ]);
+    expect(transitions[0]).toMatchObject({ offsetBefore: 0, offsetAfter: 60 });
+    expect(describeDstTransition(transitions[1])).toBe("Clocks go back 1h (UTC+01:00 → UTC+00:00)");
+  });
+
+  it("should report transitions on a local day and upcoming ones", () => {
+    expect(getDayDstTransitions("Europe/London", moment.tz("2025-03-30", "Europe/London"))).toHaveLength(1);
+    expect(getDayDstTransitions("Europe/London", moment.tz("2025-03-31", "Europe/London"))).toHaveLength(0);
+    expect(getDayDstTransitions("Asia/Colombo", moment.tz("2025-03-30", "Asia/Colombo"))).toHaveLength(0);
+    expect(getNextDstTransition("Europe/London", 14, new Date("2025-03-20T00:00:00Z"))?.offsetAfter).toBe(60);
+    expect(getNextDstTransition("Europe/London", 5, new Date("2025-03-20T00:00:00Z"))).toBeUndefined();
+  });
+
+  it("should flag half-hour and 45-minute offsets", () => {
+    expect(hasFractionalOffset("Asia/Kolkata")).toBe(true);
+    expect(hasFractionalOffset("Asia/Kathmandu")).toBe(true);
+    expect(hasFractionalOffset("Asia/Tokyo")).toBe(false);
+    expect(formatUtcOffset(345)).toBe("UTC+05:45");
+    expect(formatUtcOffset(-210)).toBe("UTC-03:30");
+  });
+
+  it("should report how a weekly series shifts across a clock change", () => {
+    const starts = [0, 1, 2, 3].map(week =>
+      moment.tz("2025-03-17 14:00", "Asia/Colombo").add(week, "weeks").toDate()
+    );
+
+    const crossings = findSeriesDstCrossings(zones, starts, "Asia/Colombo");
+
+    expect(crossings).toHaveLength(1);
+    expect(crossings[0]).toMatchObject({ zoneId: "zone_london", occurrenceIndex: 2, localShiftMinutes: 60 });
+  });
+});
@@ -0,0 +1,52 @@
+import moment from "moment-timezone";
+import { getHolidaysOnDate, getZoneHoliday, getUpcomingHolidays } from "../holidays";
+import { isZoneWorkingTime } from "../workingHours";
+import { findAvailableSlots } from "../slotFinder";
+import { TimeZone } from "../../types";
+
+const mumbai: TimeZone = { id: "zone_mumbai", name: "Mumbai", iana: "Asia/Kolkata", label: "India", country: "India" };
+const london: TimeZone = { id: "zone_london", name: "London", iana: "Europe/London", label: "United Kingdom", country: "United Kingdom" };
+
+describe("holidays", () => {
+  it("should combine fixed and dated holidays", () => {
+    expect(getHolidaysOnDate("India", "2025-10-20").map(holiday => holiday.name)).toEqual(["Diwali"]);
+    expect(getHolidaysOnDate("India", "2026-01-26").map(holiday => holiday.name)).toEqual(["Republic Day"]);
+    expect(getHolidaysOnDate("Atlantis", "2025-01-01")).toEqual([]);
+  });
+
+  it("should cover movable holidays in 2026", () => {
+    expect(getHolidaysOnDate("Sri Lanka", "2026-05-01").map(holiday => holiday.name)).toContain("Vesak Full Moon Poya Day");
+    expect(getHolidaysOnDate("United Arab Emirates", "2026-03-21").map(holiday => holiday.name)).toEqual(["Eid al-Fitr"]);
+  });
+
+  it("should match holidays against the zone's local date", () => {
+    // 20:00 UTC on Oct 19 is already Oct 20 in India
+    expect(getZoneHoliday(mumbai, new Date("2025-10-19T20:00:00Z"))?.name).toBe("Diwali");
+    expect(getZoneHoliday(london, new Date("2025-10-19T20:00:00Z"))).toBeUndefined();
+  });
+
+  it("should treat holidays as non-working time", () => {
+    // Easter Monday 2025, 10:00 in London
+    expect(isZoneWorkingTime(london, new Date("2025-04-21T09:00:00Z"))).toBe(false);
+    expect(isZoneWorkingTime(london, new Date("2025-04-22T09:00:00Z"))).toBe(true);
+  });
+
+  it("should exclude holidays from suggested slots", () => {
+    const slots = findAvailableSlots({
+      zones: [london],
+      busy: [],
+      rangeStart: moment.tz("2025-04-21 00:00", "Europe/London").toDate(),
+      rangeEnd: moment.tz("2025-04-23 00:00", "Europe/London").toDate(),
+      durationMinutes: 60,
+      requireAllZones: true,
+    });
+
+    expect(slots.length).toBeGreaterThan(0);
+    expect(slots.every(slot => moment(slot.start).tz("Europe/London").format("YYYY-MM-DD") === "2025-04-22")).toBe(true);
+  });
+
+  it("should list upcoming holidays in order", () => {
+    const upcoming = getUpcomingHolidays(london, 7, new Date("2025-12-22T12:00:00Z"));
+    expect(upcoming.map(holiday => holiday.date)).toEqual(["2025-12-25", "2025-12-26"]);
+  });
+});
@@ -0,0 +1,200 @@
+import moment from "moment-timezone";
+import { parseICalendar, expandICalendar, parseRRule, expandRRule, buildICalendar } from "../ical";
+
+const calendar = (...lines: string[]) => ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+// A zone only the feed defines, following US daylight saving rules at -05:00/-04:00
+const customZone = [
+  "BEGIN:VTIMEZONE",
+  "TZID:Eastern Standard Time",
+  "BEGIN:STANDARD",
+  "DTSTART:16010101T020000",
+  "TZOFFSETFROM:-0400",
+  "TZOFFSETTO:-0500",
+  "RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11",
+  "END:STANDARD",
+  "BEGIN:DAYLIGHT",
+  "DTSTART:16010101T020000",
+  "TZOFFSETFROM:-0500",
+  "TZOFFSETTO:-0400",
+  "RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3",
+  "END:DAYLIGHT",
+  "END:VTIMEZONE",
+];
+
+describe("ical", () => {
+  it("should unfold lines, unescape text and read zoned times", () => {
+    const { events } = parseICalendar(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:a@example.com",
+        "SUMMARY:Design review\\, part 2",
+        "DESCRIPTION:Agenda:\\n- mocks",
+        " \\n- copy",
+        "DTSTART;TZID=Europe/Berlin:20251104T090000",
+        "DTEND;TZID=Europe/Berlin:20251104T100000",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT15M",
+        "END:VALARM",
+        "END:VEVENT"
+      )
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].summary).toBe("Design review, part 2");
+    expect(events[0].description).toBe("Agenda:\n- mocks\n- copy");
+
+    const [occurrence] = expandICalendar(
+      { events, timezones: {} },
+      new Date("2025-11-04T00:00:00Z"),
+      new Date("2025-11-05T00:00:00Z")
+    );
+    expect(occurrence.start.toISOString()).toBe("2025-11-04T08:00:00.000Z");
+    expect(occurrence.end.toISOString()).toBe("2025-11-04T09:00:00.000Z");
+  });
+
+  it("should keep weekly occurrences at the same wall time across a DST change", () => {
+    const parsed = parseICalendar(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:standup",
+        "SUMMARY:Standup",
+        "DTSTART;TZID=America/New_York:20251027T093000",
+        "DURATION:PT15M",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=6",
+        "EXDATE;TZID=America/New_York:20251029T093000",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:standup",
+        "RECURRENCE-ID;TZID=America/New_York:20251103T093000",
+        "SUMMARY:Standup (moved)",
+        "DTSTART;TZID=America/New_York:20251103T110000",
+        "DTEND;TZID=America/New_York:20251103T111500",
+        "END:VEVENT"
+      )
+    );
+
+    const occurrences = expandICalendar(parsed, new Date("2025-10-01T00:00:00Z"), new Date("2025-12-01T00:00:00Z"));
+
+    expect(occurrences.map((occurrence) => occurrence.start.toISOString())).toEqual([
+      "2025-10-27T13:30:00.000Z", // EDT
+      "2025-11-03T16:00:00.000Z", // Moved occurrence, EST
+      "2025-11-05T14:30:00.000Z",
+      "2025-11-10T14:30:00.000Z",
+      "2025-11-12T14:30:00.000Z",
+    ]);
+    expect(occurrences[1].summary).toBe("Standup (moved)");
+  });
+
+  it("should read times in a zone defined by the feed's VTIMEZONE", () => {
+    const parsed = parseICalendar(
+      calendar(
+        ...customZone,
+        "BEGIN:VEVENT",
+        "UID:b",
+        "DTSTART;TZID=Eastern Standard Time:20250710T090000",
+        "DTEND;TZID=Eastern Standard Time:20250710T100000",
+        "RRULE:FREQ=MONTHLY;INTERVAL=6",
+        "END:VEVENT"
+      )
+    );
+
+    const occurrences = expandICalendar(parsed, new Date("2025-07-01T00:00:00Z"), new Date("2026-02-01T00:00:00Z"));
+
+    expect(occurrences.map((occurrence) => occurrence.start.toISOString())).toEqual([
+      "2025-07-10T13:00:00.000Z",
+      "2026-01-10T14:00:00.000Z",
+    ]);
+  });
+
+  it("should expand monthly rules with ordinal weekdays and skip short months", () => {
+    const start = moment.utc("2025-01-31T10:00:00");
+    const end = moment.utc("2025-06-30T00:00:00");
+
+    expect(expandRRule(parseRRule("FREQ=MONTHLY"), start, end).map((date) => date.format("MM-DD"))).toEqual([
+      "01-31",
+      "03-31",
+      "05-31",
+    ]);
+    expect(
+      expandRRule(parseRRule("FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20250401T000000Z"), start, end).map((date) => date.format("MM-DD"))
+    ).toEqual(["01-31", "02-28", "03-28"]);
+  });
+
+  it("should mark cancelled and free events", () => {
+    const parsed = parseICalendar(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:c",
+        "DTSTART:20251104T150000Z",
+        "DTEND:20251104T160000Z",
+        "STATUS:CANCELLED",
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:d",
+        "DTSTART;VALUE=DATE:20251104",
+        "END:VEVENT"
+      )
+    );
+
+    const occurrences = expandICalendar(parsed, new Date("2025-11-04T00:00:00Z"), new Date("2025-11-05T00:00:00Z"), "UTC");
+
+    expect(occurrences.find((occurrence) => occurrence.uid === "c")).toMatchObject({ status: "cancelled", transparent: true });
+    expect(occurrences.find((occurrence) => occurrence.uid === "d")).toMatchObject({ isAllDay: true });
+  });
+
+  it("should write an event that reads back at the same instants", () => {
+    const ics = buildICalendar(
+      {
+        title: "Kickoff; Berlin, New York",
+        description: "Agenda\n- intros",
+        startTime: "2025-10-30T15:00:00Z",
+        endTime: "2025-10-30T16:00:00Z",
+        attendees: ["ana@example.com"],
+        timezone: "Europe/Berlin",
+        recurrence: ["RRULE:FREQ=WEEKLY;COUNT=2"],
+      },
+      { uid: "kickoff@example.com", now: new Date("2025-10-01T00:00:00Z") }
+    );
+
+    expect(ics).toContain("DTSTART;TZID=Europe/Berlin:20251030T160000");
+    expect(ics.split("\r\n").every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+
+    // Read back through the VTIMEZONE only, as a reader without tz data would
+    const parsed = parseICalendar(ics.replace(/TZID(:|=)Europe\/Berlin/g, "TZID$1Berlin Time"));
+    expect(parsed.events[0].summary).toBe("Kickoff; Berlin, New York");
+    expect(parsed.events[0].description).toBe("Agenda\n- intros");
+
+    const occurrences = expandICalendar(parsed, new Date("2025-10-01T00:00:00Z"), new Date("2025-12-01T00:00:00Z"));
+    expect(occurrences.map((occurrence) => occurrence.start.toISOString())).toEqual([
+      "2025-10-30T15:00:00.000Z", // CET, after the October change
+      "2025-11-06T15:00:00.000Z",
+    ]);
+  });
+
+  it("should only list attendees in an invitation with an organizer", () => {
+    const meeting = {
+      title: "Sync",
+      description: "",
+      startTime: "2025-10-30T15:00:00Z",
+      endTime: "2025-10-30T16:00:00Z",
+      attendees: ["ana@example.com"],
+      timezone: "UTC",
+    };
+
+    const published = buildICalendar(meeting, { uid: "sync@example.com" });
+    expect(published).toContain("METHOD:PUBLISH");
+    expect(published).not.toContain("ATTENDEE");
+    expect(published).not.toContain("ORGANIZER");
+
+    // Unfolded, since the attendee line is longer than 75 octets
+    const invitation = buildICalendar(meeting, { uid: "sync@example.com", organizer: "lee@example.com" }).replace(
+      /\r\n /g,
+      ""
+    );
+    expect(invitation).toContain("METHOD:REQUEST");
+    expect(invitation).toContain("ORGANIZER:mailto:lee@example.com");
+    expect(invitation).toContain("ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:ana@example.com");
+  });
+});
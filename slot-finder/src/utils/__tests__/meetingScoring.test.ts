@@ -0,0 +1,63 @@
+import { getHourComfort, rankMeetingTimes, scoreMeetingTime } from "../meetingScoring";
+import { TimeZone } from "../../types";
+
+const colombo: TimeZone = {
+  id: "zone_colombo",
+  name: "Colombo",
+  iana: "Asia/Colombo",
+  label: "Sri Lanka",
+  country: "Sri Lanka",
+};
+
+const newYork: TimeZone = {
+  id: "zone_new_york",
+  name: "New York",
+  iana: "America/New_York",
+  label: "US Eastern",
+  country: "United States",
+};
+
+describe("meetingScoring", () => {
+  describe("getHourComfort", () => {
+    it("should grade hours relative to the working day", () => {
+      expect(getHourComfort(10)).toBe("core");
+      expect(getHourComfort(8)).toBe("shoulder");
+      expect(getHourComfort(18.5)).toBe("shoulder");
+      expect(getHourComfort(21)).toBe("late");
+      expect(getHourComfort(6.5)).toBe("late");
+      expect(getHourComfort(2)).toBe("sleep");
+      expect(getHourComfort(23)).toBe("sleep");
+    });
+
+    it("should honor custom working hours", () => {
+      expect(getHourComfort(19, 11, 20)).toBe("core");
+      expect(getHourComfort(10, 11, 20)).toBe("shoulder");
+    });
+  });
+
+  describe("scoreMeetingTime", () => {
+    it("should report pain per zone", () => {
+      // 13:00 UTC is 18:30 in Colombo and 09:00 in New York
+      const scored = scoreMeetingTime(new Date("2025-03-10T13:00:00Z"), [colombo, newYork]);
+
+      expect(scored.zones.map(zone => zone.comfort)).toEqual(["shoulder", "core"]);
+      expect(scored.totalPain).toBe(1);
+      expect(scored.maxPain).toBe(1);
+    });
+  });
+
+  describe("rankMeetingTimes", () => {
+    it("should put the time with the smallest worst-case pain first", () => {
+      const candidates = [
+        new Date("2025-03-10T02:00:00Z"), // Colombo 07:30, New York 22:00
+        new Date("2025-03-10T13:00:00Z"), // Colombo 18:30, New York 09:00
+        new Date("2025-03-10T18:00:00Z"), // Colombo 23:30, New York 14:00
+      ];
+
+      const ranked = rankMeetingTimes(candidates, [colombo, newYork]);
+
+      expect(ranked[0].time.toISOString()).toBe("2025-03-10T13:00:00.000Z");
+      expect(ranked[ranked.length - 1].time.toISOString()).toBe("2025-03-10T18:00:00.000Z");
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { formatPollText, parsePollReply, tallyPoll, getPollWinner } from "../polls";
+import { parseICalendar, buildPollICalendar } from "../ical";
+import { MeetingPoll, TimeZone } from "../../types";
+
+const zones: TimeZone[] = [
+  { id: "zone_berlin", name: "Berlin", iana: "Europe/Berlin", label: "Germany", country: "Germany", isHome: true },
+  { id: "zone_new_york", name: "New York", iana: "America/New_York", label: "US Eastern", country: "United States" },
+];
+
+const poll: MeetingPoll = {
+  id: "poll_1",
+  title: "Roadmap review",
+  description: "",
+  timezone: "Europe/Berlin",
+  attendees: ["ana@example.com", "ben@example.com"],
+  options: [
+    { id: "a", start: new Date("2025-11-04T15:00:00Z"), end: new Date("2025-11-04T16:00:00Z") },
+    { id: "b", start: new Date("2025-11-05T15:00:00Z"), end: new Date("2025-11-05T16:00:00Z") },
+    { id: "c", start: new Date("2025-11-06T22:30:00Z"), end: new Date("2025-11-06T23:30:00Z") },
+  ],
+  responses: [],
+  status: "open",
+  createdAt: new Date("2025-10-30T00:00:00Z"),
+};
+
+describe("polls", () => {
+  it("should list every option in every zone with reply instructions", () => {
+    const text = formatPollText(poll, zones);
+
+    expect(text).toContain("1. Tue, Nov 4 16:00–17:00 Berlin · Tue, Nov 4 10:00–11:00 New York");
+    expect(text).toContain("3. Thu, Nov 6 23:30–Fri 00:30 Berlin");
+    expect(text.split("\n").slice(-3)).toEqual(["1 yes", "2 maybe", "3 no"]);
+  });
+
+  it("should read answers from a reply and ignore the quoted summary", () => {
+    const reply = parsePollReply(
+      [
+        "From: Ana Lima <ana@example.com>",
+        "1: Yes",
+        "#2 - n",
+        "2, 3 maybe",
+        "",
+        "> 1 no",
+        "On Thu, Oct 30, 2025 at 10:00 Sam wrote:",
+        "1 no",
+      ].join("\n"),
+      poll.options
+    );
+
+    expect(reply).toEqual({ attendee: "ana@example.com", answers: { a: "yes", b: "maybe", c: "maybe" } });
+  });
+
+  it("should pick the option most attendees can make", () => {
+    const answered: MeetingPoll = {
+      ...poll,
+      responses: [
+        { attendee: "ana@example.com", answers: { a: "yes", b: "yes", c: "no" } },
+        { attendee: "ben@example.com", answers: { a: "maybe", b: "yes" } },
+      ],
+    };
+
+    expect(tallyPoll(answered)[0]).toEqual({ optionId: "a", yes: 1, maybe: 1, no: 0 });
+    expect(getPollWinner(answered)).toBe("b");
+    expect(getPollWinner(poll)).toBeNull();
+  });
+
+  it("should write tentative holds and cancel them under the same uids", () => {
+    const holds = parseICalendar(buildPollICalendar(poll, { now: new Date("2025-10-30T00:00:00Z") }));
+    const cancelled = buildPollICalendar(poll, { cancel: true });
+
+    expect(holds.events.map((event) => event.summary)).toEqual(Array(3).fill("HOLD: Roadmap review"));
+    expect(holds.events.every((event) => event.status === "TENTATIVE")).toBe(true);
+    expect(cancelled).toContain("METHOD:CANCEL");
+    expect(parseICalendar(cancelled).events.map((event) => [event.uid, event.status])).toEqual(
+      holds.events.map((event) => [event.uid, "CANCELLED"])
+    );
+  });
+});
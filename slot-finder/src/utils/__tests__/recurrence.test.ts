@@ -0,0 +1,74 @@
+import moment from "moment-timezone";
+import {
+  planRecurringSeries,
+  getSeriesPainByZone,
+  groupOccurrencesIntoRRules,
+} from "../recurrence";
+import { TimeZone } from "../../types";
+
+const zones: TimeZone[] = [
+  { id: "zone_colombo", name: "Colombo", iana: "Asia/Colombo", label: "Sri Lanka", country: "Sri Lanka", isHome: true },
+  { id: "zone_london", name: "London", iana: "Europe/London", label: "United Kingdom", country: "United Kingdom" },
+  { id: "zone_new_york", name: "New York", iana: "America/New_York", label: "US Eastern", country: "United States" },
+];
+
+describe("recurrence", () => {
+  const firstStart = new Date("2025-06-02T09:00:00Z");
+
+  it("should keep a fixed start time when rotation is disabled", () => {
+    const plan = planRecurringSeries({
+      zones,
+      referenceTimezone: "Asia/Colombo",
+      firstStart,
+      occurrences: 3,
+      durationMinutes: 30,
+      rotate: false,
+    });
+
+    expect(plan.map(occurrence => moment(occurrence.start).tz("Asia/Colombo").format("YYYY-MM-DD HH:mm"))).toEqual([
+      "2025-06-02 14:30",
+      "2025-06-09 14:30",
+      "2025-06-16 14:30",
+    ]);
+  });
+
+  it("should rotate the worst-off zone across occurrences", () => {
+    const plan = planRecurringSeries({
+      zones,
+      referenceTimezone: "Asia/Colombo",
+      firstStart,
+      occurrences: 6,
+      durationMinutes: 30,
+    });
+
+    const rotationSlots = new Set(plan.map(occurrence => occurrence.rotationSlot));
+    expect(rotationSlots.size).toBeGreaterThan(1);
+
+    const worstZones = new Set(
+      plan.map(occurrence =>
+        occurrence.score.zones.reduce((worst, zone) => (zone.pain > worst.pain ? zone : worst)).zoneId
+      )
+    );
+    expect(worstZones.size).toBe(rotationSlots.size);
+
+    const painByZone = getSeriesPainByZone(plan);
+    expect(Object.keys(painByZone)).toEqual(["zone_colombo", "zone_london", "zone_new_york"]);
+  });
+
+  it("should express a rotating series as one RRULE per start time", () => {
+    const plan = planRecurringSeries({
+      zones,
+      referenceTimezone: "Asia/Colombo",
+      firstStart,
+      occurrences: 5,
+      durationMinutes: 30,
+      rotationSize: 2,
+    });
+
+    const groups = groupOccurrencesIntoRRules(plan, 1);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0].recurrence).toEqual(["RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=3"]);
+    expect(groups[1].recurrence).toEqual(["RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=2"]);
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  findAvailableSlots,
+  mergeBusyIntervals,
+  isRangeInWorkingHours,
+} from "../slotFinder";
+import { TimeZone } from "../../types";
+
+const colombo: TimeZone = {
+  id: "zone_colombo",
+  name: "Colombo",
+  iana: "Asia/Colombo",
+  label: "Sri Lanka",
+  country: "Sri Lanka",
+  isHome: true,
+};
+
+const london: TimeZone = {
+  id: "zone_london",
+  name: "London",
+  iana: "Europe/London",
+  label: "United Kingdom",
+  country: "United Kingdom",
+};
+
+const newYork: TimeZone = {
+  id: "zone_new_york",
+  name: "New York",
+  iana: "America/New_York",
+  label: "US Eastern",
+  country: "United States",
+};
+
+describe("slotFinder", () => {
+  describe("mergeBusyIntervals", () => {
+    it("should merge overlapping and touching intervals", () => {
+      const merged = mergeBusyIntervals([
+        { start: new Date("2025-03-10T10:00:00Z"), end: new Date("2025-03-10T11:00:00Z") },
+        { start: new Date("2025-03-10T08:00:00Z"), end: new Date("2025-03-10T09:00:00Z") },
+        { start: new Date("2025-03-10T10:30:00Z"), end: new Date("2025-03-10T12:00:00Z") },
+        { start: new Date("2025-03-10T12:00:00Z"), end: new Date("2025-03-10T12:30:00Z") },
+      ]);
+
+      expect(merged).toEqual([
+        { start: new Date("2025-03-10T08:00:00Z"), end: new Date("2025-03-10T09:00:00Z") },
+        { start: new Date("2025-03-10T10:00:00Z"), end: new Date("2025-03-10T12:30:00Z") },
+      ]);
+    });
+  });
+
+  describe("isRangeInWorkingHours", () => {
+    it("should evaluate working hours in the zone's local time", () => {
+      // 04:00 UTC is 09:30 in Colombo and 05:00 in London
+      const start = new Date("2025-03-10T04:00:00Z");
+      const end = new Date("2025-03-10T05:00:00Z");
+
+      expect(isRangeInWorkingHours(start, end, colombo)).toBe(true);
+      expect(isRangeInWorkingHours(start, end, london)).toBe(false);
+    });
+
+    it("should reject ranges that run past the end of the working day", () => {
+      // 11:00 UTC is 16:30 in Colombo, so a one hour meeting ends at 17:30
+      const start = new Date("2025-03-10T11:00:00Z");
+      const end = new Date("2025-03-10T12:00:00Z");
+
+      expect(isRangeInWorkingHours(start, end, colombo)).toBe(false);
+    });
+
+    it("should read wall-clock hours on a 23-hour DST day", () => {
+      // Clocks in New York jump from 02:00 to 03:00 on 9 March 2025
+      const everyDay = { ...newYork, workSchedule: { start: 9, end: 17, days: [0, 1, 2, 3, 4, 5, 6] } };
+
+      // 09:00-10:00 EDT, only eight elapsed hours after midnight
+      expect(isRangeInWorkingHours(new Date("2025-03-09T13:00:00Z"), new Date("2025-03-09T14:00:00Z"), everyDay)).toBe(
+        true
+      );
+      // 16:30-17:30 EDT runs past the end of the day
+      expect(isRangeInWorkingHours(new Date("2025-03-09T20:30:00Z"), new Date("2025-03-09T21:30:00Z"), everyDay)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("findAvailableSlots", () => {
+    const rangeStart = new Date("2025-03-10T00:00:00Z");
+    const rangeEnd = new Date("2025-03-11T00:00:00Z");
+
+    it("should only return slots inside every zone's working hours when required", () => {
+      const slots = findAvailableSlots({
+        zones: [colombo, london],
+        busy: [],
+        rangeStart,
+        rangeEnd,
+        durationMinutes: 60,
+        requireAllZones: true,
+        maxResults: 100,
+      });
+
+      // Colombo 09:00-17:00 is 03:30-11:30 UTC, London 09:00-17:00 is 09:00-17:00 UTC
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        "2025-03-10T09:00:00.000Z",
+        "2025-03-10T09:30:00.000Z",
+        "2025-03-10T10:00:00.000Z",
+        "2025-03-10T10:30:00.000Z",
+      ]);
+    });
+
+    it("should skip slots that overlap busy intervals", () => {
+      const slots = findAvailableSlots({
+        zones: [colombo, london],
+        busy: [
+          { start: new Date("2025-03-10T09:15:00Z"), end: new Date("2025-03-10T10:15:00Z") },
+        ],
+        rangeStart,
+        rangeEnd,
+        durationMinutes: 60,
+        requireAllZones: true,
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        "2025-03-10T10:30:00.000Z",
+      ]);
+    });
+
+    it("should rank partial overlaps by the number of zones in working hours", () => {
+      const slots = findAvailableSlots({
+        zones: [colombo, london, newYork],
+        busy: [],
+        rangeStart,
+        rangeEnd,
+        durationMinutes: 60,
+        maxResults: 5,
+      });
+
+      // Colombo, London and New York never share working hours
+      expect(slots.length).toBeGreaterThan(0);
+      expect(slots.every(slot => slot.zonesInWorkingHours.length === 2)).toBe(true);
+      expect(slots[0].score).toBeCloseTo(2 / 3);
+    });
+  });
+});
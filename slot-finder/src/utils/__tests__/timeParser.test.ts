@@ -0,0 +1,40 @@
+import { parseTimeExpression } from "../timeParser";
+import { TimeZone } from "../../types";
+
+// Monday 20 October 2025, 10:00 UTC
+const now = new Date("2025-10-20T10:00:00Z");
+const colombo: TimeZone = { id: "zone_colombo", name: "Colombo", iana: "Asia/Colombo", label: "Sri Lanka", country: "Sri Lanka", isHome: true };
+
+const parse = (text: string) => parseTimeExpression(text, { referenceTimezone: "Asia/Colombo", zones: [colombo], now });
+
+describe("timeParser", () => {
+  it("should read abbreviations and weekdays", () => {
+    const parsed = parse("3pm PST Thursday");
+    // PST is read as Pacific time, which is on PDT (UTC-7) in October
+    expect(parsed?.instant.toISOString()).toBe("2025-10-23T22:00:00.000Z");
+    expect(parsed).toMatchObject({ timezone: "America/Los_Angeles", zoneLabel: "PST", hasExplicitZone: true, hasExplicitDate: true });
+  });
+
+  it("should read relative days and city names", () => {
+    expect(parse("tomorrow 9:30 London time")?.instant.toISOString()).toBe("2025-10-21T08:30:00.000Z");
+    expect(parse("at noon in New York today")?.instant.toISOString()).toBe("2025-10-20T16:00:00.000Z");
+  });
+
+  it("should fall back to the home zone and today", () => {
+    const parsed = parse("15:00");
+    expect(parsed?.instant.toISOString()).toBe("2025-10-20T09:30:00.000Z");
+    expect(parsed).toMatchObject({ timezone: "Asia/Colombo", hasExplicitZone: false, hasExplicitDate: false });
+  });
+
+  it("should read 12h times and explicit dates", () => {
+    expect(parse("9.30 a.m. CET Oct 27")?.instant.toISOString()).toBe("2025-10-27T08:30:00.000Z");
+    expect(parse("12am UTC 2025-11-01")?.instant.toISOString()).toBe("2025-11-01T00:00:00.000Z");
+    expect(parse("next monday 8am JST")?.instant.toISOString()).toBe("2025-10-26T23:00:00.000Z");
+  });
+
+  it("should return null without a valid time", () => {
+    expect(parse("Thursday in London")).toBeNull();
+    expect(parse("25:00")).toBeNull();
+    expect(parse("")).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { buildWeekGrid, getWeekStart } from "../weekGrid";
+import { TimeZone } from "../../types";
+
+const london: TimeZone = { id: "zone_london", name: "London", iana: "Europe/London", label: "United Kingdom", country: "United Kingdom", isHome: true };
+const newYork: TimeZone = { id: "zone_ny", name: "New York", iana: "America/New_York", label: "US Eastern", country: "United States" };
+
+describe("weekGrid", () => {
+  it("should start weeks on Monday", () => {
+    expect(getWeekStart("2025-10-23")).toBe("2025-10-20");
+    expect(getWeekStart("2025-10-20")).toBe("2025-10-20");
+    expect(getWeekStart("2025-10-26")).toBe("2025-10-20");
+  });
+
+  it("should lay out seven days with clock changes", () => {
+    const week = buildWeekGrid([london], "Europe/London", "2025-10-20");
+    expect(week.map(day => day.date)).toEqual([
+      "2025-10-20", "2025-10-21", "2025-10-22", "2025-10-23", "2025-10-24", "2025-10-25", "2025-10-26",
+    ]);
+    // London falls back on Sunday 26 October
+    expect(week[6].hours).toHaveLength(25);
+    expect(week[0].hours).toHaveLength(24);
+  });
+
+  it("should count hours where every zone is working", () => {
+    const week = buildWeekGrid([london, newYork], "Europe/London", "2025-11-03");
+    // 14:00-17:00 London is 09:00-12:00 New York
+    expect(week[0].overlapHours).toBe(3);
+    expect(week[0].hours[14].workingZoneIds).toEqual(["zone_london", "zone_ny"]);
+    // Weekend
+    expect(week[5].overlapHours).toBe(0);
+  });
+
+  it("should attach overlapping events to hours", () => {
+    const week = buildWeekGrid([london], "Europe/London", "2025-11-03", [
+      { id: "m1", title: "Planning", start: new Date("2025-11-04T10:30:00Z"), end: new Date("2025-11-04T12:00:00Z"), source: "meeting" },
+    ]);
+    const eventHours = week[1].hours.filter(hour => hour.events.length > 0).map(hour => hour.homeHour);
+    expect(eventHours).toEqual([10, 11]);
+    expect(week[0].hours.every(hour => hour.events.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  getDefaultWorkingDays,
+  isZoneWorkingTime,
+  formatWorkingDays,
+  formatSchedule,
+} from "../workingHours";
+import { TimeZone } from "../../types";
+
+describe("workingHours", () => {
+  it("should follow a country's work week history", () => {
+    expect(getDefaultWorkingDays("United Arab Emirates", new Date("2021-06-01T12:00:00Z"))).toEqual([0, 1, 2, 3, 4]);
+    expect(getDefaultWorkingDays("United Arab Emirates", new Date("2023-06-01T12:00:00Z"))).toEqual([1, 2, 3, 4, 5]);
+    expect(getDefaultWorkingDays("Sri Lanka", new Date("2023-06-01T12:00:00Z"))).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should honor a zone's own schedule and lunch break", () => {
+    const zone: TimeZone = {
+      id: "zone_london",
+      name: "London",
+      iana: "Europe/London",
+      label: "United Kingdom",
+      country: "United Kingdom",
+      workSchedule: { start: 8, end: 16, days: [1, 2, 3, 4], lunchBreak: { start: 12, end: 13 } },
+    };
+
+    // Monday 2025-01-06, London is on UTC in winter
+    expect(isZoneWorkingTime(zone, new Date("2025-01-06T08:30:00Z"))).toBe(true);
+    expect(isZoneWorkingTime(zone, new Date("2025-01-06T12:30:00Z"))).toBe(false);
+    expect(isZoneWorkingTime(zone, new Date("2025-01-06T16:30:00Z"))).toBe(false);
+    // Friday is not a working day for this zone
+    expect(isZoneWorkingTime(zone, new Date("2025-01-10T10:00:00Z"))).toBe(false);
+  });
+
+  it("should describe schedules compactly", () => {
+    expect(formatWorkingDays([1, 2, 3, 4, 5])).toBe("Mon–Fri");
+    expect(formatWorkingDays([0, 1, 2, 3, 4])).toBe("Sun–Thu");
+    expect(formatWorkingDays([1, 3, 4])).toBe("Mon, Wed–Thu");
+    expect(formatSchedule({ start: 8.5, end: 17, days: [1, 2, 3, 4, 5] })).toBe("Mon–Fri 08:30–17:00");
+  });
+});
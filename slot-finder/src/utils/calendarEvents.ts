@@ -0,0 +1,68 @@
+import { GridEvent, Meeting } from '../types';
+import type { CalendarEvent } from '../hooks/useCalendar';
+
+/**
+ * Calendar event helpers
+ * Turns meetings and calendar events into absolute intervals and
+ * places them inside grid cells
+ */
+
+export interface EventBand {
+  event: GridEvent;
+  left: number; // Percent of the cell before the event starts
+  width: number; // Percent of the cell the event covers
+}
+
+/**
+ * Convert calendar events to grid events, colored by their calendar.
+ * All-day events have no dateTime and don't block any hour, so they are left out.
+ */
+export const calendarEventsToGridEvents = (
+  events: CalendarEvent[],
+  getCalendarColor?: (calendarId?: string) => string
+): GridEvent[] => {
+  return events
+    .filter(event => event.status !== 'cancelled' && event.start?.dateTime && event.end?.dateTime)
+    .map(event => ({
+      id: event.id,
+      title: event.summary,
+      start: new Date(event.start.dateTime),
+      end: new Date(event.end.dateTime),
+      source: 'calendar' as const,
+      calendarId: event.calendarId,
+      color: event.color || getCalendarColor?.(event.calendarId),
+    }));
+};
+
+/**
+ * Convert locally stored meetings to grid events
+ */
+export const meetingsToGridEvents = (meetings: Meeting[]): GridEvent[] => {
+  return meetings.map(meeting => ({
+    id: meeting.id,
+    title: meeting.title,
+    start: new Date(meeting.startTime),
+    end: new Date(meeting.endTime),
+    source: 'meeting' as const,
+  }));
+};
+
+/**
+ * Get the part of a cell each overlapping event covers, as percentages
+ */
+export const getEventBands = (events: GridEvent[], cellStart: Date, cellEnd: Date): EventBand[] => {
+  const cellMs = cellEnd.getTime() - cellStart.getTime();
+  if (cellMs <= 0) return [];
+
+  return events
+    .filter(event => event.start < cellEnd && event.end > cellStart)
+    .map(event => {
+      const start = Math.max(event.start.getTime(), cellStart.getTime());
+      const end = Math.min(event.end.getTime(), cellEnd.getTime());
+      return {
+        event,
+        left: ((start - cellStart.getTime()) / cellMs) * 100,
+        width: ((end - start) / cellMs) * 100,
+      };
+    });
+};
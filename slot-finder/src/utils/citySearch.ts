@@ -0,0 +1,203 @@
+import moment from 'moment-timezone';
+import { TimeZone } from '../types';
+import { cityData } from '../data/cities';
+
+/**
+ * City and timezone search
+ * Combines the curated city list with every zone in the tz database, and
+ * matches names, aliases, countries and abbreviations ("NYC", "PST", "CET")
+ */
+
+export interface CitySearchResult extends Omit<TimeZone, 'id'> {
+  population: number;
+  abbreviations: string[];
+  matchedAlias?: string; // Alias or abbreviation the query matched
+  score: number;
+}
+
+interface CityRecord {
+  name: string;
+  iana: string;
+  label: string;
+  country: string;
+  countryCode: string;
+  population: number;
+  aliases: string[];
+}
+
+// Country names that differ from Intl's English region names
+const COUNTRY_NAME_OVERRIDES: Record<string, string> = {
+  HK: 'Hong Kong',
+  MO: 'Macao',
+  CD: 'DR Congo',
+  PS: 'Palestine',
+};
+
+let cityIndex: CityRecord[] | null = null;
+const abbreviationCache = new Map<string, string[]>();
+
+/**
+ * Lowercase and strip accents and punctuation so "São Paulo" matches "sao paulo"
+ */
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[.,'’]/g, '')
+    .replace(/[_/-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Get the English name of an ISO 3166 country code
+ */
+export const getCountryName = (countryCode: string): string => {
+  if (COUNTRY_NAME_OVERRIDES[countryCode]) return COUNTRY_NAME_OVERRIDES[countryCode];
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(countryCode) || countryCode;
+  } catch {
+    return countryCode;
+  }
+};
+
+/**
+ * Build an emoji flag from an ISO 3166 country code
+ */
+export const getFlagEmoji = (countryCode: string): string => {
+  if (!/^[A-Za-z]{2}$/.test(countryCode)) return '🌍';
+  return String.fromCodePoint(
+    ...countryCode.toUpperCase().split('').map(char => 0x1f1e6 + char.charCodeAt(0) - 65)
+  );
+};
+
+/**
+ * Get the alphabetic abbreviations a zone uses this year, e.g. ["EST", "EDT"]
+ */
+export const getZoneAbbreviations = (iana: string): string[] => {
+  const cached = abbreviationCache.get(iana);
+  if (cached) return cached;
+
+  const year = new Date().getFullYear();
+  const abbreviations = [`${year}-01-01`, `${year}-07-01`]
+    .map(date => moment.tz(date, iana).zoneAbbr())
+    .filter(abbreviation => /^[A-Z]{2,5}$/.test(abbreviation));
+  const unique = [...new Set(abbreviations)];
+
+  abbreviationCache.set(iana, unique);
+  return unique;
+};
+
+/**
+ * Build the search index once: curated cities first, then any tz database
+ * zone no curated city covers, named after its IANA location
+ */
+const getCityIndex = (): CityRecord[] => {
+  if (cityIndex) return cityIndex;
+
+  const records: CityRecord[] = cityData.map(city => ({
+    name: city.name,
+    iana: city.iana,
+    label: city.label || city.country,
+    country: city.country,
+    countryCode: city.countryCode,
+    population: city.population,
+    aliases: city.aliases || [],
+  }));
+  const coveredZones = new Set(records.map(record => record.iana));
+
+  moment.tz.countries().forEach(countryCode => {
+    moment.tz.zonesForCountry(countryCode).forEach(iana => {
+      if (coveredZones.has(iana)) return;
+      coveredZones.add(iana);
+
+      const country = getCountryName(countryCode);
+      records.push({
+        name: iana.split('/').pop()!.replace(/_/g, ' '),
+        iana,
+        label: country,
+        country,
+        countryCode,
+        population: 0,
+        aliases: [],
+      });
+    });
+  });
+
+  cityIndex = records;
+  return records;
+};
+
+/**
+ * Score how well a normalized query matches a piece of text
+ */
+const scoreText = (query: string, text: string, exact: number, prefix: number, contains: number): number => {
+  const normalized = normalizeSearchText(text);
+  if (!normalized) return 0;
+  if (normalized === query) return exact;
+  if (normalized.startsWith(query)) return prefix;
+  if (normalized.split(' ').some(word => word.startsWith(query))) return prefix - 10;
+  if (query.length >= 3 && normalized.includes(query)) return contains;
+  return 0;
+};
+
+/**
+ * Search cities and zones, best match first. Ties are broken by population
+ * so the city most people mean comes first.
+ */
+export const searchCities = (query: string, limit: number = 10): CitySearchResult[] => {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return [];
+
+  const upperQuery = query.trim().toUpperCase();
+  const results: CitySearchResult[] = [];
+
+  getCityIndex().forEach(record => {
+    let best = scoreText(normalizedQuery, record.name, 100, 80, 50);
+    let matchedAlias: string | undefined;
+
+    record.aliases.forEach(alias => {
+      const aliasScore = scoreText(normalizedQuery, alias, 95, 75, 45);
+      if (aliasScore > best) {
+        best = aliasScore;
+        matchedAlias = alias;
+      }
+    });
+
+    const abbreviations = getZoneAbbreviations(record.iana);
+    if (upperQuery.length >= 2 && abbreviations.includes(upperQuery) && best < 85) {
+      best = 85;
+      matchedAlias = upperQuery;
+    }
+
+    best = Math.max(
+      best,
+      scoreText(normalizedQuery, record.country, 85, 55, 35),
+      scoreText(normalizedQuery, record.label, 40, 35, 30),
+      scoreText(normalizedQuery, record.iana, 40, 30, 30)
+    );
+
+    if (best === 0) return;
+
+    // Up to ~15 extra points for large cities
+    const popularity = record.population > 0 ? Math.log10(record.population) * 2 : 0;
+
+    results.push({
+      name: record.name,
+      iana: record.iana,
+      label: record.label,
+      country: record.country,
+      countryCode: record.countryCode,
+      flag: getFlagEmoji(record.countryCode),
+      population: record.population,
+      abbreviations,
+      matchedAlias,
+      score: best + popularity,
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || b.population - a.population || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
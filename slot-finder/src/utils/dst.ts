@@ -0,0 +1,153 @@
+import moment from 'moment-timezone';
+import { TimeZone, DstTransition } from '../types';
+
+/**
+ * Daylight saving and offset change helpers
+ * Reads transitions straight from the bundled tz database so every offset
+ * change (DST or otherwise) is reported at its exact instant
+ */
+
+export interface SeriesDstCrossing {
+  zoneId: string;
+  transition: DstTransition;
+  occurrenceIndex: number; // First occurrence after the change
+  localShiftMinutes: number; // How far the meeting moves on this zone's clock
+}
+
+/**
+ * Get every offset change of a zone in [from, to)
+ */
+export const getDstTransitions = (
+  iana: string,
+  from: moment.Moment | Date,
+  to: moment.Moment | Date
+): DstTransition[] => {
+  const zone = moment.tz.zone(iana);
+  if (!zone) return [];
+
+  const fromMs = moment(from).valueOf();
+  const toMs = moment(to).valueOf();
+
+  // untils[i] is the instant offsets[i] stops applying; offsets are minutes
+  // west of UTC, so they are negated (0 - x avoids -0 for UTC)
+  let low = 0;
+  let high = zone.untils.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (zone.untils[mid] < fromMs) low = mid + 1;
+    else high = mid;
+  }
+
+  const transitions: DstTransition[] = [];
+  for (let i = low; i < zone.untils.length - 1 && zone.untils[i] < toMs; i++) {
+    if (zone.offsets[i] === zone.offsets[i + 1]) continue;
+    transitions.push({
+      iana,
+      at: new Date(zone.untils[i]),
+      offsetBefore: 0 - zone.offsets[i],
+      offsetAfter: 0 - zone.offsets[i + 1],
+    });
+  }
+
+  return transitions;
+};
+
+/**
+ * Get the offset changes that happen on a zone's local calendar day
+ */
+export const getDayDstTransitions = (iana: string, date: moment.Moment | Date): DstTransition[] => {
+  const dayStart = moment(date).tz(iana).startOf('day');
+  return getDstTransitions(iana, dayStart, dayStart.clone().add(1, 'day'));
+};
+
+/**
+ * Get the next offset change of a zone within a number of days
+ */
+export const getNextDstTransition = (
+  iana: string,
+  withinDays: number = 14,
+  from: moment.Moment | Date = new Date()
+): DstTransition | undefined => {
+  return getDstTransitions(iana, from, moment(from).add(withinDays, 'days'))[0];
+};
+
+/**
+ * Check if a zone's offset at an instant is not a whole number of hours
+ */
+export const hasFractionalOffset = (iana: string, time: moment.Moment | Date = new Date()): boolean => {
+  return moment(time).tz(iana).utcOffset() % 60 !== 0;
+};
+
+/**
+ * Format a UTC offset in minutes, e.g. "UTC+05:45"
+ */
+export const formatUtcOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+  return `UTC${sign}${hours}:${minutes}`;
+};
+
+/**
+ * Format a duration in minutes as "1h", "30m" or "1h 30m"
+ */
+const formatShift = (minutes: number): string => {
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60);
+  const rest = absolute % 60;
+  return [hours && `${hours}h`, rest && `${rest}m`].filter(Boolean).join(' ');
+};
+
+/**
+ * Describe a transition, e.g. "Clocks go forward 1h (UTC+00:00 → UTC+01:00)"
+ */
+export const describeDstTransition = (transition: DstTransition): string => {
+  const delta = transition.offsetAfter - transition.offsetBefore;
+  const direction = delta > 0 ? 'forward' : 'back';
+  return `Clocks go ${direction} ${formatShift(delta)} (${formatUtcOffset(transition.offsetBefore)} → ${formatUtcOffset(transition.offsetAfter)})`;
+};
+
+/**
+ * Describe how far a meeting moves on a zone's clock, e.g. "1h later"
+ */
+export const describeLocalShift = (shiftMinutes: number): string => {
+  if (shiftMinutes === 0) return 'unchanged';
+  return `${formatShift(shiftMinutes)} ${shiftMinutes > 0 ? 'later' : 'earlier'}`;
+};
+
+/**
+ * Find the offset changes a series of occurrences crosses in each zone.
+ * The series keeps the wall-clock time of the reference zone, so the meeting
+ * moves on every other zone's clock when either side changes its offset.
+ */
+export const findSeriesDstCrossings = (
+  zones: TimeZone[],
+  starts: Date[],
+  referenceTimezone: string
+): SeriesDstCrossing[] => {
+  if (starts.length < 2) return [];
+
+  const sorted = [...starts].sort((a, b) => a.getTime() - b.getTime());
+  const offsetAt = (iana: string, time: Date) => moment(time).tz(iana).utcOffset();
+  const crossings: SeriesDstCrossing[] = [];
+
+  zones.forEach(zone => {
+    getDstTransitions(zone.iana, sorted[0], sorted[sorted.length - 1]).forEach(transition => {
+      const occurrenceIndex = sorted.findIndex(start => start > transition.at);
+      const previous = sorted[occurrenceIndex - 1];
+      const next = sorted[occurrenceIndex];
+      const zoneDelta = offsetAt(zone.iana, next) - offsetAt(zone.iana, previous);
+      const referenceDelta = offsetAt(referenceTimezone, next) - offsetAt(referenceTimezone, previous);
+
+      crossings.push({
+        zoneId: zone.id,
+        transition,
+        occurrenceIndex,
+        localShiftMinutes: zoneDelta - referenceDelta,
+      });
+    });
+  });
+
+  return crossings.sort((a, b) => a.transition.at.getTime() - b.transition.at.getTime());
+};
@@ -0,0 +1,55 @@
+import moment from 'moment-timezone';
+import { Holiday, TimeZone } from '../types';
+import { countryHolidays } from '../data/holidays';
+
+/**
+ * Public holiday lookups backed by the bundled offline dataset
+ * Dates are matched against each zone's local calendar day
+ */
+
+/**
+ * Get the holidays a country observes on a calendar date
+ */
+export const getHolidaysOnDate = (country: string, date: moment.Moment | string): Holiday[] => {
+  const entry = countryHolidays[country];
+  if (!entry) return [];
+
+  const day = typeof date === 'string' ? date : date.format('YYYY-MM-DD');
+  const names = [entry.dated[day], entry.fixed[day.slice(5)]].filter(
+    (name): name is string => !!name
+  );
+
+  return [...new Set(names)].map(name => ({ date: day, name, country }));
+};
+
+/**
+ * Get the holiday, if any, on the zone's local date at an instant
+ */
+export const getZoneHoliday = (zone: TimeZone, time: moment.Moment | Date): Holiday | undefined => {
+  return getHolidaysOnDate(zone.country, moment(time).tz(zone.iana))[0];
+};
+
+/**
+ * Check if an instant falls on a public holiday in a zone
+ */
+export const isZoneHoliday = (zone: TimeZone, time: moment.Moment | Date): boolean => {
+  return !!getZoneHoliday(zone, time);
+};
+
+/**
+ * List a zone's holidays within the next `days` local days, starting today
+ */
+export const getUpcomingHolidays = (
+  zone: TimeZone,
+  days: number = 14,
+  from: moment.Moment | Date = new Date()
+): Holiday[] => {
+  const start = moment(from).tz(zone.iana).startOf('day');
+  const holidays: Holiday[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    holidays.push(...getHolidaysOnDate(zone.country, start.clone().add(offset, 'days')));
+  }
+
+  return holidays;
+};
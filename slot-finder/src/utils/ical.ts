@@ -0,0 +1,676 @@
+import moment from 'moment-timezone';
+import { MeetingDetails, MeetingPoll } from '../types';
+import { getDstTransitions } from './dst';
+
+/**
+ * iCalendar (RFC 5545) reading and writing
+ * Parses VEVENTs and VTIMEZONEs from ICS feeds and CalDAV responses,
+ * expands recurring events into the occurrences inside a range, and writes
+ * meetings as .ics files other calendars can import
+ */
+
+export interface ICalDate {
+  value: string; // 20251104 or 20251104T090000, without the Z
+  isDate: boolean; // All-day value
+  isUtc: boolean;
+  tzid?: string;
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: ICalDate;
+  end?: ICalDate;
+  duration?: string; // ISO 8601 duration, used when there is no DTEND
+  rrule?: string;
+  rdates: ICalDate[];
+  exdates: ICalDate[];
+  recurrenceId?: ICalDate; // Set on an edited occurrence of a series
+  status?: string;
+  transparent: boolean; // Shown as free
+}
+
+interface TimezoneObservance {
+  start: string; // Local onset, e.g. 19700329T020000
+  offsetTo: number; // Minutes east of UTC once the observance starts
+  offsetFrom: number;
+  rrule?: string;
+  rdates: string[];
+}
+
+export interface ICalTimezone {
+  tzid: string;
+  observances: TimezoneObservance[];
+}
+
+export interface ICalendar {
+  events: ICalEvent[];
+  timezones: Record<string, ICalTimezone>;
+}
+
+export interface ICalOccurrence {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+  status: string;
+  transparent: boolean;
+}
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: string;
+  byDay: Array<{ weekday: number; ordinal?: number }>; // weekday 0 = Sunday
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DATE_FORMAT = 'YYYYMMDD';
+const DATE_TIME_FORMAT = 'YYYYMMDD[T]HHmmss';
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQ_UNITS = { DAILY: 'days', WEEKLY: 'weeks', MONTHLY: 'months', YEARLY: 'years' } as const;
+
+// Stop expanding runaway rules, e.g. a minutely rule written as daily since 1970
+const MAX_RECURRENCE_PERIODS = 20000;
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfoldLines = (text: string): string[] =>
+  text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+
+const parseProperty = (line: string): ICalProperty | null => {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const toICalDates = ({ params, value }: ICalProperty): ICalDate[] =>
+  value.split(',').map(part => ({
+    value: part.replace(/Z$/, ''),
+    isDate: params.VALUE === 'DATE' || /^\d{8}$/.test(part),
+    isUtc: part.endsWith('Z'),
+    tzid: params.TZID,
+  }));
+
+// UTC offsets are written +HHMM or -HHMM
+const parseOffset = (value: string): number => {
+  const match = value.match(/^([+-])(\d{2})(\d{2})/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+/**
+ * Read the events and time zone definitions of one or more VCALENDARs
+ */
+export const parseICalendar = (text: string): ICalendar => {
+  const calendar: ICalendar = { events: [], timezones: {} };
+  const stack: string[] = [];
+  let event: ICalEvent | null = null;
+  let timezone: ICalTimezone | null = null;
+  let observance: TimezoneObservance | null = null;
+
+  unfoldLines(text).forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+    const { name, value } = property;
+
+    if (name === 'BEGIN') {
+      stack.push(value.toUpperCase());
+      if (value === 'VEVENT') {
+        event = { uid: '', summary: '', start: { value: '', isDate: false, isUtc: false }, rdates: [], exdates: [], transparent: false };
+      } else if (value === 'VTIMEZONE') {
+        timezone = { tzid: '', observances: [] };
+      } else if ((value === 'STANDARD' || value === 'DAYLIGHT') && timezone) {
+        observance = { start: '', offsetTo: 0, offsetFrom: 0, rdates: [] };
+      }
+      return;
+    }
+
+    if (name === 'END') {
+      stack.pop();
+      if (value === 'VEVENT' && event) {
+        if (event.start.value) calendar.events.push(event);
+        event = null;
+      } else if (value === 'VTIMEZONE' && timezone) {
+        calendar.timezones[timezone.tzid] = timezone;
+        timezone = null;
+      } else if ((value === 'STANDARD' || value === 'DAYLIGHT') && timezone && observance) {
+        timezone.observances.push(observance);
+        observance = null;
+      }
+      return;
+    }
+
+    // Alarms and other nested components don't describe the event's time
+    const current = stack[stack.length - 1];
+
+    if (current === 'VEVENT' && event) {
+      const target: ICalEvent = event;
+      switch (name) {
+        case 'UID': target.uid = value; break;
+        case 'SUMMARY': target.summary = unescapeText(value); break;
+        case 'DESCRIPTION': target.description = unescapeText(value); break;
+        case 'DTSTART': target.start = toICalDates(property)[0]; break;
+        case 'DTEND': target.end = toICalDates(property)[0]; break;
+        case 'DURATION': target.duration = value; break;
+        case 'RRULE': target.rrule = value; break;
+        case 'RDATE': target.rdates.push(...toICalDates(property)); break;
+        case 'EXDATE': target.exdates.push(...toICalDates(property)); break;
+        case 'RECURRENCE-ID': target.recurrenceId = toICalDates(property)[0]; break;
+        case 'STATUS': target.status = value.toUpperCase(); break;
+        case 'TRANSP': target.transparent = value.toUpperCase() === 'TRANSPARENT'; break;
+      }
+    } else if (current === 'VTIMEZONE' && timezone && name === 'TZID') {
+      (timezone as ICalTimezone).tzid = value;
+    } else if ((current === 'STANDARD' || current === 'DAYLIGHT') && observance) {
+      const target: TimezoneObservance = observance;
+      switch (name) {
+        case 'DTSTART': target.start = value; break;
+        case 'TZOFFSETTO': target.offsetTo = parseOffset(value); break;
+        case 'TZOFFSETFROM': target.offsetFrom = parseOffset(value); break;
+        case 'RRULE': target.rrule = value; break;
+        case 'RDATE': target.rdates.push(...value.split(',')); break;
+      }
+    }
+  });
+
+  return calendar;
+};
+
+export const parseRRule = (value: string): RecurrenceRule => {
+  const parts = Object.fromEntries(
+    value.replace(/^RRULE:/, '').split(';').filter(Boolean).map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    })
+  ) as Record<string, string>;
+  const numbers = (list?: string) => (list ? list.split(',').map(Number).filter(n => !isNaN(n)) : []);
+
+  return {
+    freq: (['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts.FREQ) ? parts.FREQ : 'DAILY') as RecurrenceRule['freq'],
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : [])
+      .map(entry => entry.match(/^([+-]?\d+)?([A-Z]{2})$/))
+      .filter((match): match is RegExpMatchArray => !!match && WEEKDAYS.includes(match[2]))
+      .map(match => ({ weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : undefined })),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+  };
+};
+
+// Days between first and last (inclusive) on the rule's weekdays; an ordinal
+// picks the nth such weekday from the start, or from the end when negative
+const pickWeekdays = (first: moment.Moment, last: moment.Moment, byDay: RecurrenceRule['byDay']): moment.Moment[] =>
+  byDay.flatMap(({ weekday, ordinal }) => {
+    const matches: moment.Moment[] = [];
+    for (const day = first.clone(); !day.isAfter(last, 'day'); day.add(1, 'day')) {
+      if (day.day() === weekday) matches.push(day.clone());
+    }
+    if (!ordinal) return matches;
+    const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+    return picked ? [picked] : [];
+  });
+
+const pickMonthDays = (monthStart: moment.Moment, byMonthDay: number[]): moment.Moment[] => {
+  const daysInMonth = monthStart.daysInMonth();
+  return byMonthDay
+    .map(day => (day > 0 ? day : daysInMonth + day + 1))
+    .filter(day => day >= 1 && day <= daysInMonth)
+    .map(day => monthStart.clone().date(day));
+};
+
+// Candidate days of one month for MONTHLY and YEARLY rules
+const getMonthCandidates = (monthStart: moment.Moment, rule: RecurrenceRule, start: moment.Moment): moment.Moment[] => {
+  const monthEnd = monthStart.clone().endOf('month');
+  if (rule.byDay.length > 0) {
+    const days = pickWeekdays(monthStart, monthEnd, rule.byDay);
+    return rule.byMonthDay.length > 0
+      ? days.filter(day => pickMonthDays(monthStart, rule.byMonthDay).some(other => other.isSame(day, 'day')))
+      : days;
+  }
+  if (rule.byMonthDay.length > 0) return pickMonthDays(monthStart, rule.byMonthDay);
+  // Months without the start's day, e.g. the 31st, are skipped
+  return start.date() <= monthStart.daysInMonth() ? [monthStart.clone().date(start.date())] : [];
+};
+
+const getPeriodCandidates = (rule: RecurrenceRule, start: moment.Moment, period: number): moment.Moment[] => {
+  const step = period * rule.interval;
+  let days: moment.Moment[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      days = [start.clone().startOf('day').add(step, 'days')];
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday, the RFC default
+      const weekStart = start.clone().startOf('day').subtract((start.day() + 6) % 7, 'days').add(step, 'weeks');
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(entry => entry.weekday) : [start.day()];
+      days = weekdays.map(weekday => weekStart.clone().add((weekday + 6) % 7, 'days'));
+      break;
+    }
+    case 'MONTHLY':
+      days = getMonthCandidates(start.clone().startOf('month').add(step, 'months'), rule, start);
+      break;
+    case 'YEARLY': {
+      const yearStart = start.clone().startOf('year').add(step, 'years');
+      if (rule.byMonth.length === 0 && rule.byDay.some(entry => entry.ordinal) && rule.byMonthDay.length === 0) {
+        days = pickWeekdays(yearStart, yearStart.clone().endOf('year'), rule.byDay);
+      } else {
+        const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month() + 1];
+        days = months.flatMap(month =>
+          rule.byDay.length > 0 || rule.byMonthDay.length > 0
+            ? getMonthCandidates(yearStart.clone().month(month - 1), rule, start)
+            : getMonthCandidates(yearStart.clone().month(month - 1), { ...rule, byMonthDay: [start.date()] }, start)
+        );
+      }
+      break;
+    }
+  }
+
+  days = days
+    .filter(day => rule.byMonth.length === 0 || rule.byMonth.includes(day.month() + 1))
+    .filter(day => rule.freq !== 'DAILY' || rule.byDay.length === 0 || rule.byDay.some(entry => entry.weekday === day.day()))
+    .filter(day => rule.freq !== 'DAILY' || rule.byMonthDay.length === 0 || pickMonthDays(day.clone().startOf('month'), rule.byMonthDay).some(other => other.isSame(day, 'day')))
+    .sort((a, b) => a.valueOf() - b.valueOf());
+
+  if (rule.bySetPos.length > 0) {
+    days = rule.bySetPos
+      .map(position => (position > 0 ? days[position - 1] : days[days.length + position]))
+      .filter((day): day is moment.Moment => !!day);
+  }
+
+  return days.map(day => day.clone().set({ hour: start.hour(), minute: start.minute(), second: start.second() }));
+};
+
+/**
+ * Expand a rule from its first occurrence. Times are wall-clock times held
+ * in moment's UTC mode, so daylight saving never shifts them; the caller
+ * places them in the event's zone. Stops after rangeEnd or at UNTIL, which
+ * the caller may pass already converted to the same wall-clock frame.
+ * Without a COUNT, periods well before rangeStart are skipped.
+ */
+export const expandRRule = (
+  rule: RecurrenceRule,
+  start: moment.Moment,
+  rangeEnd: moment.Moment,
+  { rangeStart, until }: { rangeStart?: moment.Moment; until?: moment.Moment } = {}
+): moment.Moment[] => {
+  const last = until || (rule.until ? moment.utc(rule.until.replace(/Z$/, ''), [DATE_TIME_FORMAT, DATE_FORMAT]) : undefined);
+  const unit = FREQ_UNITS[rule.freq];
+  const occurrences: moment.Moment[] = [];
+  let emitted = 0;
+
+  const firstPeriod = rule.count === undefined && rangeStart?.isAfter(start)
+    ? Math.max(0, Math.floor(rangeStart.diff(start, unit) / rule.interval) - 1)
+    : 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_RECURRENCE_PERIODS; period++) {
+    // A monthly rule on the 31st has empty months, so the period itself
+    // decides when to stop
+    if (start.clone().startOf('day').add(period * rule.interval, unit).isAfter(rangeEnd)) break;
+
+    for (const candidate of getPeriodCandidates(rule, start, period)) {
+      if (candidate.isBefore(start)) continue;
+      if ((last && candidate.isAfter(last)) || candidate.isAfter(rangeEnd)) return occurrences;
+      if (rule.count !== undefined && emitted >= rule.count) return occurrences;
+      emitted++;
+      occurrences.push(candidate);
+    }
+  }
+
+  return occurrences;
+};
+
+const toWallTime = (value: string) => moment.utc(value, value.length === 8 ? DATE_FORMAT : DATE_TIME_FORMAT, true);
+
+// Zone names like /mozilla.org/20050126_1/Europe/Berlin end in an IANA name
+const toIanaZone = (tzid: string): string | null => {
+  if (moment.tz.zone(tzid)) return tzid;
+  const segments = tzid.split('/').filter(Boolean);
+  for (let i = 0; i < segments.length - 1; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (moment.tz.zone(candidate)) return candidate;
+  }
+  return null;
+};
+
+/**
+ * UTC offset, in minutes, a VTIMEZONE gives a wall-clock time: that of the
+ * last observance to start before it
+ */
+export const getTimezoneOffset = (timezone: ICalTimezone, wallTime: moment.Moment): number => {
+  let latestOnset: moment.Moment | null = null;
+  let offset: number | null = null;
+
+  for (const observance of timezone.observances) {
+    const start = toWallTime(observance.start);
+    if (!start.isValid()) continue;
+    const onsets = [
+      ...(observance.rrule
+        ? expandRRule(parseRRule(observance.rrule), start, wallTime, { rangeStart: wallTime.clone().subtract(2, 'years') })
+        : [start]),
+      ...observance.rdates.map(toWallTime).filter(onset => onset.isValid()),
+    ];
+
+    for (const onset of onsets) {
+      if (!onset.isAfter(wallTime) && (!latestOnset || onset.isAfter(latestOnset))) {
+        latestOnset = onset;
+        offset = observance.offsetTo;
+      }
+    }
+  }
+
+  if (offset !== null) return offset;
+  // Before every observance started
+  const earliest = [...timezone.observances].sort((a, b) => a.start.localeCompare(b.start))[0];
+  return earliest ? earliest.offsetFrom : 0;
+};
+
+/**
+ * Turn a wall-clock time into an instant: in UTC, a named zone, a VTIMEZONE
+ * defined by the feed, or else the fallback zone for floating times
+ */
+const toInstant = (
+  wallTime: moment.Moment,
+  date: Pick<ICalDate, 'isUtc' | 'tzid'>,
+  timezones: ICalendar['timezones'],
+  fallbackZone: string
+): moment.Moment => {
+  const local = wallTime.format(DATE_TIME_FORMAT);
+  if (date.isUtc) return moment.utc(local, DATE_TIME_FORMAT);
+
+  if (date.tzid) {
+    const iana = toIanaZone(date.tzid);
+    if (iana) return moment.tz(local, DATE_TIME_FORMAT, iana);
+    const timezone = timezones[date.tzid];
+    if (timezone) return wallTime.clone().subtract(getTimezoneOffset(timezone, wallTime), 'minutes');
+  }
+
+  return moment.tz(local, DATE_TIME_FORMAT, fallbackZone);
+};
+
+// Length of each occurrence, from DTEND or DURATION
+const getEventLength = (event: ICalEvent, start: moment.Moment, timezones: ICalendar['timezones'], fallbackZone: string) => {
+  if (event.end) {
+    if (event.start.isDate) return toWallTime(event.end.value).diff(toWallTime(event.start.value));
+    return toInstant(toWallTime(event.end.value), event.end, timezones, fallbackZone).diff(start);
+  }
+  if (event.duration) return moment.duration(event.duration).asMilliseconds();
+  return event.start.isDate ? 24 * 60 * 60 * 1000 : 0;
+};
+
+/**
+ * Expand a calendar's events into the occurrences that overlap a range.
+ * Edited occurrences replace the ones they override and excluded dates are
+ * dropped. Floating and all-day times are read in the fallback zone.
+ */
+export const expandICalendar = (
+  calendar: ICalendar,
+  rangeStart: Date,
+  rangeEnd: Date,
+  fallbackZone: string = moment.tz.guess()
+): ICalOccurrence[] => {
+  const { timezones } = calendar;
+  const overrides = calendar.events.filter(event => event.recurrenceId);
+  const occurrences: ICalOccurrence[] = [];
+
+  const instantOf = (date: ICalDate) =>
+    date.isDate
+      ? moment.tz(date.value, DATE_FORMAT, fallbackZone)
+      : toInstant(toWallTime(date.value), date, timezones, fallbackZone);
+
+  const push = (event: ICalEvent, start: moment.Moment, length: number) => {
+    const end = start.clone().add(length, 'milliseconds');
+    if (!(start.isBefore(rangeEnd) && end.isAfter(rangeStart))) return;
+    occurrences.push({
+      uid: event.uid,
+      summary: event.summary || 'Busy',
+      description: event.description,
+      start: start.toDate(),
+      end: end.toDate(),
+      isAllDay: event.start.isDate,
+      status: event.status === 'CANCELLED' ? 'cancelled' : event.status === 'TENTATIVE' ? 'tentative' : 'confirmed',
+      transparent: event.transparent,
+    });
+  };
+
+  calendar.events
+    .filter(event => !event.recurrenceId)
+    .forEach(event => {
+      const firstStart = instantOf(event.start);
+      if (!firstStart.isValid()) return;
+      const length = getEventLength(event, firstStart, timezones, fallbackZone);
+
+      const starts: moment.Moment[] = [firstStart];
+      if (event.rrule) {
+        const rule = parseRRule(event.rrule);
+        // Compare in the event's own wall-clock frame, with a day to spare
+        // for zones on either side of UTC
+        const rangeStartWall = moment.utc(rangeStart).subtract(length, 'milliseconds').subtract(1, 'day');
+        const rangeEndWall = moment.utc(rangeEnd).add(1, 'day');
+        const until = rule.until?.endsWith('Z') && !event.start.isDate
+          ? moment.utc(rule.until, `${DATE_TIME_FORMAT}[Z]`).tz(toIanaZone(event.start.tzid || '') || fallbackZone)
+          : undefined;
+        const wallStarts = expandRRule(
+          rule,
+          toWallTime(event.start.value),
+          rangeEndWall,
+          { rangeStart: rangeStartWall, until: until && moment.utc(until.format(DATE_TIME_FORMAT), DATE_TIME_FORMAT) }
+        );
+        starts.splice(0, 1, ...wallStarts.map(wall => (event.start.isDate
+          ? moment.tz(wall.format(DATE_FORMAT), DATE_FORMAT, fallbackZone)
+          : toInstant(wall, event.start, timezones, fallbackZone))));
+      }
+      starts.push(...event.rdates.map(instantOf));
+
+      const excluded = new Set(event.exdates.map(date => instantOf(date).valueOf()));
+      const overridden = new Set(
+        overrides.filter(override => override.uid === event.uid).map(override => instantOf(override.recurrenceId!).valueOf())
+      );
+
+      starts
+        .filter(start => start.isValid() && !excluded.has(start.valueOf()) && !overridden.has(start.valueOf()))
+        .forEach(start => push(event, start, length));
+    });
+
+  overrides.forEach(override => {
+    const start = instantOf(override.start);
+    if (start.isValid()) push(override, start, getEventLength(override, start, timezones, fallbackZone));
+  });
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const PRODUCT_ID = '-//World Clock Meet Helper//EN';
+// Lines longer than this many bytes are folded
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const toICalOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+};
+
+// Continuation lines start with a space; never split a multi-byte character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one byte to the leading space
+    if (octets + size > (parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Describe a zone's offsets from a year before `from` to a year after `to`,
+ * one observance per clock change, so readers without the tz database place
+ * the event correctly
+ */
+export const buildVTimezone = (iana: string, from: Date, to: Date): string[] => {
+  const rangeStart = moment(from).subtract(1, 'year');
+  const transitions = getDstTransitions(iana, rangeStart, moment(to).add(1, 'year'));
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${iana}`];
+
+  if (transitions.length === 0) {
+    const offset = moment.tz(from, iana).utcOffset();
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${toICalOffset(offset)}`,
+      `TZOFFSETTO:${toICalOffset(offset)}`,
+      `TZNAME:${moment.tz(from, iana).format('z')}`,
+      'END:STANDARD'
+    );
+  }
+
+  transitions.forEach(transition => {
+    const after = moment.tz(transition.at, iana);
+    const kind = after.isDST() ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      // Onsets are written in the wall time before the change
+      `DTSTART:${moment.utc(transition.at).add(transition.offsetBefore, 'minutes').format(DATE_TIME_FORMAT)}`,
+      `TZOFFSETFROM:${toICalOffset(transition.offsetBefore)}`,
+      `TZOFFSETTO:${toICalOffset(transition.offsetAfter)}`,
+      `TZNAME:${after.format('z')}`,
+      `END:${kind}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+// Wrap events written in one zone into a VCALENDAR with that zone's VTIMEZONE
+const toCalendarText = (method: 'PUBLISH' | 'REQUEST' | 'CANCEL', timezone: string, from: Date, to: Date, events: string[][]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...buildVTimezone(timezone, from, to),
+    ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Write a meeting as a VCALENDAR holding one event in its own time zone.
+ * Reusing the uid lets calendars update an earlier import instead of
+ * adding a second copy. With an organizer the file is an invitation
+ * (RFC 5546 REQUEST) attendees can answer; without one it is published
+ * for import only and lists no attendees, since nobody could receive
+ * their replies.
+ */
+export const buildICalendar = (
+  meeting: MeetingDetails,
+  { uid, url, organizer, now = new Date() }: { uid: string; url?: string; organizer?: string; now?: Date }
+): string => {
+  const start = moment.tz(meeting.startTime, meeting.timezone);
+  const end = moment.tz(meeting.endTime, meeting.timezone);
+  const isInvitation = !!organizer && meeting.attendees.length > 0;
+
+  return toCalendarText(isInvitation ? 'REQUEST' : 'PUBLISH', meeting.timezone, start.toDate(), end.toDate(), [
+    [
+      `UID:${uid}`,
+      `DTSTAMP:${moment.utc(now).format(DATE_TIME_FORMAT)}Z`,
+      `DTSTART;TZID=${meeting.timezone}:${start.format(DATE_TIME_FORMAT)}`,
+      `DTEND;TZID=${meeting.timezone}:${end.format(DATE_TIME_FORMAT)}`,
+      ...(meeting.recurrence || []),
+      `SUMMARY:${escapeText(meeting.title)}`,
+      ...(meeting.description ? [`DESCRIPTION:${escapeText(meeting.description)}`] : []),
+      ...(url ? [`URL:${url}`, `LOCATION:${escapeText(url)}`] : []),
+      ...(isInvitation
+        ? [
+            `ORGANIZER:mailto:${organizer}`,
+            ...meeting.attendees.map(email => `ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${email}`),
+          ]
+        : []),
+    ],
+  ]);
+};
+
+/**
+ * Write every option of a poll as a tentative hold, or, with `cancel`, the
+ * cancellation of those holds. Each option keeps the same uid in both files
+ * so importing the cancellation removes the holds imported earlier.
+ */
+export const buildPollICalendar = (
+  poll: MeetingPoll,
+  { cancel = false, now = new Date() }: { cancel?: boolean; now?: Date } = {}
+): string => {
+  const starts = poll.options.map(option => option.start.getTime());
+  const ends = poll.options.map(option => option.end.getTime());
+
+  return toCalendarText(
+    cancel ? 'CANCEL' : 'PUBLISH',
+    poll.timezone,
+    new Date(Math.min(...starts)),
+    new Date(Math.max(...ends)),
+    poll.options.map(option => [
+      `UID:${poll.id}-${option.id}@world-clock-meet-helper`,
+      `DTSTAMP:${moment.utc(now).format(DATE_TIME_FORMAT)}Z`,
+      `SEQUENCE:${cancel ? 1 : 0}`,
+      `DTSTART;TZID=${poll.timezone}:${moment.tz(option.start, poll.timezone).format(DATE_TIME_FORMAT)}`,
+      `DTEND;TZID=${poll.timezone}:${moment.tz(option.end, poll.timezone).format(DATE_TIME_FORMAT)}`,
+      `SUMMARY:${escapeText(`HOLD: ${poll.title}`)}`,
+      ...(poll.description ? [`DESCRIPTION:${escapeText(poll.description)}`] : []),
+      `STATUS:${cancel ? 'CANCELLED' : 'TENTATIVE'}`,
+      'TRANSP:OPAQUE',
+    ])
+  );
+};
@@ -0,0 +1,129 @@
+import moment from 'moment-timezone';
+import { TimeZone, HourComfort, ZonePainScore, ScoredMeetingTime } from '../types';
+import { ensureUniqueTimezones } from './timezoneUtilsV2';
+import { getZoneSchedule, isLunchBreak } from './workingHours';
+import { isZoneHoliday } from './holidays';
+
+/**
+ * Fairness-aware meeting time scoring
+ * Grades every candidate time per participant so the least-bad time can be
+ * picked when no perfect overlap exists
+ */
+
+// Hours on either side of the working day that are still acceptable
+export const SHOULDER_HOURS = 2;
+
+// Local hours during which participants are assumed to be asleep
+export const SLEEP_START_HOUR = 23;
+export const SLEEP_END_HOUR = 6;
+
+export const COMFORT_PAIN: Record<HourComfort, number> = {
+  core: 0,
+  shoulder: 1,
+  late: 3,
+  sleep: 6,
+};
+
+/**
+ * Classify a local hour (fractional hours allowed) for a participant
+ */
+export const getHourComfort = (
+  hour: number,
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): HourComfort => {
+  if (hour >= workingHoursStart && hour < workingHoursEnd) return 'core';
+  if (hour >= workingHoursStart - SHOULDER_HOURS && hour < workingHoursEnd + SHOULDER_HOURS) return 'shoulder';
+  if (hour >= SLEEP_START_HOUR || hour < SLEEP_END_HOUR) return 'sleep';
+  return 'late';
+};
+
+/**
+ * Classify an instant for a zone using its own working schedule.
+ * Lunch breaks count as shoulder time; non-working days and public holidays
+ * as late at best.
+ */
+export const getZoneComfort = (
+  zone: TimeZone,
+  time: moment.Moment | Date,
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): HourComfort => {
+  const localTime = moment(time).tz(zone.iana);
+  const schedule = getZoneSchedule(zone, workingHoursStart, workingHoursEnd, localTime);
+  const hour = localTime.hour() + localTime.minute() / 60;
+  const comfort = getHourComfort(hour, schedule.start, schedule.end);
+
+  const isDayOff = !schedule.days.includes(localTime.day()) || isZoneHoliday(zone, localTime);
+  if (isDayOff && (comfort === 'core' || comfort === 'shoulder')) {
+    return 'late';
+  }
+  if (comfort === 'core' && isLunchBreak(hour, schedule)) {
+    return 'shoulder';
+  }
+  return comfort;
+};
+
+/**
+ * Get heat overlay color for a comfort tier
+ */
+export const getComfortColor = (comfort: HourComfort): string => {
+  switch (comfort) {
+    case 'core':
+      return 'bg-green-100 dark:bg-green-900/30';
+    case 'shoulder':
+      return 'bg-yellow-100 dark:bg-yellow-900/30';
+    case 'late':
+      return 'bg-orange-100 dark:bg-orange-900/30';
+    case 'sleep':
+      return 'bg-red-100 dark:bg-red-900/30';
+    default:
+      return 'bg-white dark:bg-gray-900';
+  }
+};
+
+/**
+ * Grade a single meeting time for every zone
+ */
+export const scoreMeetingTime = (
+  time: Date,
+  timezones: TimeZone[],
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): ScoredMeetingTime => {
+  const zones: ZonePainScore[] = ensureUniqueTimezones(timezones).map(zone => {
+    const comfort = getZoneComfort(zone, time, workingHoursStart, workingHoursEnd);
+
+    return {
+      zoneId: zone.id,
+      localTime: moment(time).tz(zone.iana).toDate(),
+      comfort,
+      pain: COMFORT_PAIN[comfort],
+    };
+  });
+
+  return {
+    time,
+    totalPain: zones.reduce((sum, zone) => sum + zone.pain, 0),
+    maxPain: zones.reduce((max, zone) => Math.max(max, zone.pain), 0),
+    zones,
+  };
+};
+
+/**
+ * Rank candidate times, least painful for the worst-off zone first
+ */
+export const rankMeetingTimes = (
+  candidateTimes: Date[],
+  timezones: TimeZone[],
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): ScoredMeetingTime[] => {
+  return candidateTimes
+    .map(time => scoreMeetingTime(time, timezones, workingHoursStart, workingHoursEnd))
+    .sort((a, b) =>
+      a.maxPain - b.maxPain ||
+      a.totalPain - b.totalPain ||
+      a.time.getTime() - b.time.getTime()
+    );
+};
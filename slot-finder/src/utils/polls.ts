@@ -0,0 +1,124 @@
+import moment from 'moment-timezone';
+import { TimeZone, MeetingPoll, PollOption, PollAnswer } from '../types';
+
+/**
+ * Meeting polls
+ * Summarizes candidate times for attendees, reads their answers back from
+ * email replies and picks the option most of them can make
+ */
+
+export interface PollOptionTally {
+  optionId: string;
+  yes: number;
+  maybe: number;
+  no: number;
+}
+
+export interface ParsedPollReply {
+  attendee: string | null; // Sender read from a From: line, when the reply includes one
+  answers: Record<string, PollAnswer>;
+}
+
+const ANSWER_WORDS: Record<string, PollAnswer> = {
+  yes: 'yes',
+  y: 'yes',
+  maybe: 'maybe',
+  m: 'maybe',
+  no: 'no',
+  n: 'no',
+};
+
+// "1 yes", "2: maybe", "#3 - n", "1, 3 yes"
+const ANSWER_LINE = /^\s*(?:option\s*)?#?(\d+(?:\s*,\s*#?\d+)*)\s*[:.)=-]?\s*(yes|maybe|no|y|m|n)\b/i;
+const FROM_LINE = /^\s*from:\s*(.+)$/i;
+const EMAIL = /[^\s<>"]+@[^\s<>"]+/;
+// Mail clients put the quoted original under a line like this
+const QUOTE_HEADER = /^\s*on\s.+\swrote:\s*$/i;
+
+/**
+ * One line per option with its time in every zone, in the option's order
+ */
+export const formatPollOptions = (poll: MeetingPoll, zones: TimeZone[]): string[] => {
+  const shownZones: Pick<TimeZone, 'name' | 'iana'>[] = zones.length > 0 ? zones : [{ name: poll.timezone, iana: poll.timezone }];
+
+  return poll.options.map((option, index) => {
+    const times = shownZones.map(zone => {
+      const start = moment(option.start).tz(zone.iana);
+      const end = moment(option.end).tz(zone.iana);
+      const endFormat = end.isSame(start, 'day') ? 'HH:mm' : 'ddd HH:mm';
+      return `${start.format('ddd, MMM D HH:mm')}–${end.format(endFormat)} ${zone.name}`;
+    });
+    return `${index + 1}. ${times.join(' · ')}`;
+  });
+};
+
+/**
+ * Markdown summary of a poll to paste into an email or chat, ending with
+ * the reply format parsePollReply understands
+ */
+export const formatPollText = (poll: MeetingPoll, zones: TimeZone[]): string => {
+  const exampleAnswers: PollAnswer[] = ['yes', 'maybe', 'no'];
+
+  return [
+    `**${poll.title}** — which of these times work for you?`,
+    ...(poll.description.trim() ? ['', poll.description.trim()] : []),
+    '',
+    ...formatPollOptions(poll, zones),
+    '',
+    'Reply with one line per option, for example:',
+    ...poll.options.map((_, index) => `${index + 1} ${exampleAnswers[index % exampleAnswers.length]}`),
+  ].join('\n');
+};
+
+/**
+ * Read the answers from a reply. Quoted text is skipped so answering inline
+ * above the original summary doesn't pick up its example lines; a later line
+ * for the same option wins.
+ */
+export const parsePollReply = (text: string, options: PollOption[]): ParsedPollReply => {
+  const answers: Record<string, PollAnswer> = {};
+  let attendee: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (QUOTE_HEADER.test(line)) break;
+    if (line.trim().startsWith('>')) continue;
+
+    const from = line.match(FROM_LINE);
+    if (from) {
+      attendee = from[1].match(EMAIL)?.[0] || from[1].trim();
+      continue;
+    }
+
+    const match = line.match(ANSWER_LINE);
+    if (!match) continue;
+
+    const answer = ANSWER_WORDS[match[2].toLowerCase()];
+    match[1].split(',').forEach(number => {
+      const option = options[parseInt(number.replace('#', ''), 10) - 1];
+      if (option) answers[option.id] = answer;
+    });
+  }
+
+  return { attendee, answers };
+};
+
+export const tallyPoll = (poll: MeetingPoll): PollOptionTally[] =>
+  poll.options.map(option => {
+    const tally: PollOptionTally = { optionId: option.id, yes: 0, maybe: 0, no: 0 };
+    poll.responses.forEach(response => {
+      const answer = response.answers[option.id];
+      if (answer) tally[answer] += 1;
+    });
+    return tally;
+  });
+
+/**
+ * Option with the most yes answers, then the most maybes, then the fewest
+ * noes; the earlier option wins a tie. Null until anyone has answered.
+ */
+export const getPollWinner = (poll: MeetingPoll): string | null => {
+  if (poll.responses.length === 0) return null;
+
+  const [best] = [...tallyPoll(poll)].sort((a, b) => b.yes - a.yes || b.maybe - a.maybe || a.no - b.no);
+  return best && best.yes + best.maybe > 0 ? best.optionId : null;
+};
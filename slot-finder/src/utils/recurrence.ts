@@ -0,0 +1,155 @@
+import moment from 'moment-timezone';
+import { TimeZone, ScoredMeetingTime } from '../types';
+import { rankMeetingTimes, scoreMeetingTime } from './meetingScoring';
+
+/**
+ * Recurring meeting planning
+ * Rotates the start time of a series so the inconvenient slot is shared
+ * between zones instead of always landing on the same people
+ */
+
+// Occurrences offered by default when planning a series
+export const DEFAULT_SERIES_OCCURRENCES = 8;
+
+export interface PlannedOccurrence {
+  index: number;
+  rotationSlot: number; // Which rotating start time this occurrence uses
+  start: Date;
+  end: Date;
+  score: ScoredMeetingTime;
+}
+
+export interface SeriesPlanOptions {
+  zones: TimeZone[];
+  referenceTimezone: string; // Zone whose wall-clock time the series follows
+  firstStart: Date;
+  occurrences: number;
+  durationMinutes: number;
+  intervalWeeks?: number;
+  rotate?: boolean;
+  rotationSize?: number; // Maximum number of distinct start times to rotate through
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+}
+
+/**
+ * Pick start times on the first day whose worst-off zones differ
+ */
+export const pickRotationTimes = (
+  anchor: Date,
+  referenceTimezone: string,
+  zones: TimeZone[],
+  rotationSize: number,
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): Date[] => {
+  const dayStart = moment(anchor).tz(referenceTimezone).startOf('day');
+  const candidates: Date[] = [];
+  for (let minutes = 0; minutes < 24 * 60; minutes += 30) {
+    candidates.push(dayStart.clone().add(minutes, 'minutes').toDate());
+  }
+
+  const ranked = rankMeetingTimes(candidates, zones, workingHoursStart, workingHoursEnd);
+  if (ranked.length === 0) return [anchor];
+
+  // A time that suits everyone needs no rotation
+  if (ranked[0].maxPain === 0) return [ranked[0].time];
+
+  const picked: Date[] = [];
+  const burdenedZones = new Set<string>();
+
+  for (const candidate of ranked) {
+    if (picked.length >= rotationSize) break;
+
+    const worstZone = candidate.zones.reduce((worst, zone) => (zone.pain > worst.pain ? zone : worst));
+    if (!burdenedZones.has(worstZone.zoneId)) {
+      burdenedZones.add(worstZone.zoneId);
+      picked.push(candidate.time);
+    }
+  }
+
+  return picked;
+};
+
+/**
+ * Plan every occurrence of a weekly series
+ */
+export const planRecurringSeries = ({
+  zones,
+  referenceTimezone,
+  firstStart,
+  occurrences,
+  durationMinutes,
+  intervalWeeks = 1,
+  rotate = true,
+  rotationSize = 3,
+  workingHoursStart = 9,
+  workingHoursEnd = 17,
+}: SeriesPlanOptions): PlannedOccurrence[] => {
+  const rotationTimes = rotate
+    ? pickRotationTimes(firstStart, referenceTimezone, zones, rotationSize, workingHoursStart, workingHoursEnd)
+    : [firstStart];
+  const planned: PlannedOccurrence[] = [];
+
+  for (let index = 0; index < occurrences; index++) {
+    const rotationSlot = index % rotationTimes.length;
+    // Adding weeks in the reference zone keeps its wall-clock time across DST changes
+    const start = moment(rotationTimes[rotationSlot])
+      .tz(referenceTimezone)
+      .add(index * intervalWeeks, 'weeks');
+    const end = start.clone().add(durationMinutes, 'minutes');
+
+    planned.push({
+      index,
+      rotationSlot,
+      start: start.toDate(),
+      end: end.toDate(),
+      score: scoreMeetingTime(start.toDate(), zones, workingHoursStart, workingHoursEnd),
+    });
+  }
+
+  return planned;
+};
+
+/**
+ * Total pain carried by each zone over the whole series
+ */
+export const getSeriesPainByZone = (occurrences: PlannedOccurrence[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  occurrences.forEach(occurrence => {
+    occurrence.score.zones.forEach(zone => {
+      totals[zone.zoneId] = (totals[zone.zoneId] || 0) + zone.pain;
+    });
+  });
+  return totals;
+};
+
+/**
+ * Build an RFC 5545 weekly recurrence rule
+ */
+export const buildWeeklyRRule = (intervalWeeks: number, count: number): string => {
+  return `RRULE:FREQ=WEEKLY;INTERVAL=${intervalWeeks};COUNT=${count}`;
+};
+
+/**
+ * Express a rotating series as one recurring event per rotation slot
+ */
+export const groupOccurrencesIntoRRules = (
+  occurrences: PlannedOccurrence[],
+  intervalWeeks: number = 1
+): { first: PlannedOccurrence; recurrence: string[] }[] => {
+  const rotationCount = occurrences.reduce((max, occurrence) => Math.max(max, occurrence.rotationSlot + 1), 0);
+  const groups: { first: PlannedOccurrence; recurrence: string[] }[] = [];
+
+  for (let slot = 0; slot < rotationCount; slot++) {
+    const slotOccurrences = occurrences.filter(occurrence => occurrence.rotationSlot === slot);
+    if (slotOccurrences.length === 0) continue;
+
+    groups.push({
+      first: slotOccurrences[0],
+      recurrence: [buildWeeklyRRule(intervalWeeks * rotationCount, slotOccurrences.length)],
+    });
+  }
+
+  return groups;
+};
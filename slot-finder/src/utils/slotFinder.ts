@@ -0,0 +1,144 @@
+import moment from 'moment-timezone';
+import { TimeZone, BusyInterval, CandidateSlot } from '../types';
+import { ensureUniqueTimezones } from './timezoneUtilsV2';
+import { scoreMeetingTime } from './meetingScoring';
+import { getZoneSchedule } from './workingHours';
+import { isZoneHoliday } from './holidays';
+
+/**
+ * Multi-participant slot search
+ * Intersects free/busy data with the working hours of every zone
+ */
+
+export interface SlotSearchOptions {
+  zones: TimeZone[];
+  busy: BusyInterval[]; // Busy intervals of all attendees
+  rangeStart: Date;
+  rangeEnd: Date;
+  durationMinutes: number;
+  stepMinutes?: number;
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+  requireAllZones?: boolean; // Only keep slots inside working hours everywhere
+  maxResults?: number;
+}
+
+/**
+ * Merge overlapping busy intervals into a sorted, non-overlapping list
+ */
+export const mergeBusyIntervals = (intervals: BusyInterval[]): BusyInterval[] => {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BusyInterval[] = [];
+
+  sorted.forEach(interval => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Check whether a time range overlaps any busy interval
+ */
+export const isRangeBusy = (start: Date, end: Date, busy: BusyInterval[]): boolean => {
+  return busy.some(interval => start < interval.end && end > interval.start);
+};
+
+/**
+ * Check whether a time range falls inside working hours in a zone,
+ * honoring the zone's working days, public holidays and lunch break
+ */
+export const isRangeInWorkingHours = (
+  start: Date,
+  end: Date,
+  zone: TimeZone,
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): boolean => {
+  const localStart = moment(start).tz(zone.iana);
+  const localEnd = moment(end).tz(zone.iana);
+  const schedule = getZoneSchedule(zone, workingHoursStart, workingHoursEnd, localStart);
+  // Wall-clock minutes, so 23- and 25-hour DST days read like any other;
+  // an end on a later local day counts past 24:00
+  const daysLater = moment.utc(localEnd.format('YYYY-MM-DD')).diff(moment.utc(localStart.format('YYYY-MM-DD')), 'days');
+  const startMinutes = localStart.hours() * 60 + localStart.minutes();
+  const endMinutes = daysLater * 24 * 60 + localEnd.hours() * 60 + localEnd.minutes();
+
+  if (!schedule.days.includes(localStart.day()) || isZoneHoliday(zone, localStart)) return false;
+  if (startMinutes < schedule.start * 60 || endMinutes > schedule.end * 60) return false;
+
+  const lunchBreak = schedule.lunchBreak;
+  return !lunchBreak || endMinutes <= lunchBreak.start * 60 || startMinutes >= lunchBreak.end * 60;
+};
+
+/**
+ * Find free slots for all attendees, ranked by how many zones are in working
+ * hours and then by total inconvenience across zones
+ */
+export const findAvailableSlots = ({
+  zones,
+  busy,
+  rangeStart,
+  rangeEnd,
+  durationMinutes,
+  stepMinutes = 30,
+  workingHoursStart = 9,
+  workingHoursEnd = 17,
+  requireAllZones = false,
+  maxResults = 20,
+}: SlotSearchOptions): CandidateSlot[] => {
+  const uniqueZones = ensureUniqueTimezones(zones);
+  const mergedBusy = mergeBusyIntervals(busy);
+  const stepMs = stepMinutes * 60 * 1000;
+  const durationMs = durationMinutes * 60 * 1000;
+  const candidates: CandidateSlot[] = [];
+
+  if (uniqueZones.length === 0 || durationMs <= 0 || stepMs <= 0) {
+    return candidates;
+  }
+
+  // Align the first candidate to a step boundary
+  let cursor = Math.ceil(rangeStart.getTime() / stepMs) * stepMs;
+
+  while (cursor + durationMs <= rangeEnd.getTime()) {
+    const start = new Date(cursor);
+    const end = new Date(cursor + durationMs);
+
+    if (!isRangeBusy(start, end, mergedBusy)) {
+      const zonesInWorkingHours = uniqueZones
+        .filter(zone => isRangeInWorkingHours(start, end, zone, workingHoursStart, workingHoursEnd))
+        .map(zone => zone.id);
+
+      const fits = requireAllZones
+        ? zonesInWorkingHours.length === uniqueZones.length
+        : zonesInWorkingHours.length > 0;
+
+      if (fits) {
+        candidates.push({
+          start,
+          end,
+          score: zonesInWorkingHours.length / uniqueZones.length,
+          pain: scoreMeetingTime(start, uniqueZones, workingHoursStart, workingHoursEnd).totalPain,
+          zonesInWorkingHours,
+        });
+      }
+    }
+
+    cursor += stepMs;
+  }
+
+  return candidates
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.pain - b.pain ||
+      a.start.getTime() - b.start.getTime()
+    )
+    .slice(0, maxResults);
+};
@@ -0,0 +1,231 @@
+import moment from 'moment-timezone';
+import { TimeZone } from '../types';
+import { timezoneData } from '../data/timezones';
+
+/**
+ * Natural-language time parsing
+ * Reads phrases like "3pm PST Thursday" or "tomorrow 9:30 London time" and
+ * resolves them to an absolute instant
+ */
+
+export interface ParsedTime {
+  instant: Date;
+  timezone: string; // IANA zone the phrase was written in
+  zoneLabel: string; // What the phrase called that zone, e.g. "PST" or "London"
+  hasExplicitZone: boolean;
+  hasExplicitDate: boolean;
+}
+
+interface ParseOptions {
+  referenceTimezone: string; // Used when the phrase names no zone
+  zones?: TimeZone[]; // User's zones, matched by name before the built-in cities
+  now?: Date;
+}
+
+// Abbreviations map to the zone people usually mean, so "PST" in July is
+// read as Pacific time rather than a fixed UTC-8
+const ZONE_ABBREVIATIONS: Record<string, string> = {
+  UTC: 'UTC',
+  GMT: 'UTC',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles',
+  PT: 'America/Los_Angeles',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  MT: 'America/Denver',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  CT: 'America/Chicago',
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+  ET: 'America/New_York',
+  AKST: 'America/Anchorage',
+  AKDT: 'America/Anchorage',
+  HST: 'Pacific/Honolulu',
+  BRT: 'America/Sao_Paulo',
+  BST: 'Europe/London',
+  WET: 'Europe/Lisbon',
+  CET: 'Europe/Paris',
+  CEST: 'Europe/Paris',
+  EET: 'Europe/Athens',
+  EEST: 'Europe/Athens',
+  MSK: 'Europe/Moscow',
+  GST: 'Asia/Dubai',
+  PKT: 'Asia/Karachi',
+  IST: 'Asia/Kolkata',
+  SLST: 'Asia/Colombo',
+  ICT: 'Asia/Bangkok',
+  WIB: 'Asia/Jakarta',
+  SGT: 'Asia/Singapore',
+  HKT: 'Asia/Hong_Kong',
+  CCT: 'Asia/Shanghai',
+  JST: 'Asia/Tokyo',
+  KST: 'Asia/Seoul',
+  AWST: 'Australia/Perth',
+  ACST: 'Australia/Adelaide',
+  AEST: 'Australia/Sydney',
+  AEDT: 'Australia/Sydney',
+  NZST: 'Pacific/Auckland',
+  NZDT: 'Pacific/Auckland',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find and remove the zone a phrase names: a city, a zone name or an abbreviation
+ */
+const extractZone = (
+  text: string,
+  zones: TimeZone[]
+): { timezone: string; label: string; rest: string } | null => {
+  // Longest names first so "New York" wins over "York"
+  const cities = [
+    ...zones.map(zone => ({ name: zone.name, iana: zone.iana })),
+    ...timezoneData.map(city => ({ name: city.name, iana: city.iana })),
+  ].sort((a, b) => b.name.length - a.name.length);
+
+  for (const city of cities) {
+    const pattern = new RegExp(`\\b(?:in\\s+)?${escapeRegExp(city.name)}(?:\\s+time)?\\b`, 'i');
+    const match = text.match(pattern);
+    if (match) {
+      return { timezone: city.iana, label: city.name, rest: text.replace(match[0], ' ') };
+    }
+  }
+
+  const abbreviationMatch = text.match(/\b[A-Za-z]{2,5}\b(?:\s+time)?/g);
+  for (const candidate of abbreviationMatch || []) {
+    const abbreviation = candidate.replace(/\s+time$/i, '').toUpperCase();
+    if (ZONE_ABBREVIATIONS[abbreviation]) {
+      return {
+        timezone: ZONE_ABBREVIATIONS[abbreviation],
+        label: abbreviation,
+        rest: text.replace(new RegExp(`\\b${escapeRegExp(candidate)}\\b`, 'i'), ' '),
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Find and remove the time of day: "3pm", "9:30", "15:00", "noon"
+ */
+const extractTime = (text: string): { hour: number; minute: number; rest: string } | null => {
+  if (/\bnoon\b|\bmidday\b/i.test(text)) {
+    return { hour: 12, minute: 0, rest: text.replace(/\b(?:at\s+)?(?:noon|midday)\b/i, ' ') };
+  }
+  if (/\bmidnight\b/i.test(text)) {
+    return { hour: 0, minute: 0, rest: text.replace(/\b(?:at\s+)?midnight\b/i, ' ') };
+  }
+
+  // 12h: "3pm", "3 pm", "3:30pm", "9.30 a.m."
+  const twelveHour = text.match(/\b(?:at\s+)?(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m\.?(?=\W|$)/i);
+  if (twelveHour) {
+    const hour = parseInt(twelveHour[1], 10);
+    const minute = twelveHour[2] ? parseInt(twelveHour[2], 10) : 0;
+    if (hour < 1 || hour > 12 || minute > 59) return null;
+    const isPm = twelveHour[3].toLowerCase() === 'p';
+    return {
+      hour: (hour % 12) + (isPm ? 12 : 0),
+      minute,
+      rest: text.replace(twelveHour[0], ' '),
+    };
+  }
+
+  // 24h: "15:00", "9:30", "0930h"
+  const twentyFourHour = text.match(/\b(?:at\s+)?(\d{1,2})[:.](\d{2})(?!\d)|\b(\d{2})(\d{2})h\b/i);
+  if (twentyFourHour) {
+    const hour = parseInt(twentyFourHour[1] ?? twentyFourHour[3], 10);
+    const minute = parseInt(twentyFourHour[2] ?? twentyFourHour[4], 10);
+    if (hour > 23 || minute > 59) return null;
+    return { hour, minute, rest: text.replace(twentyFourHour[0], ' ') };
+  }
+
+  return null;
+};
+
+/**
+ * Find the calendar day in the phrase, relative to today in the given zone
+ */
+const extractDate = (text: string, today: moment.Moment): moment.Moment | null => {
+  const lower = text.toLowerCase();
+
+  if (/\btoday\b|\btonight\b/.test(lower)) return today.clone();
+  if (/\btomorrow\b|\btmrw\b/.test(lower)) return today.clone().add(1, 'day');
+  if (/\byesterday\b/.test(lower)) return today.clone().subtract(1, 'day');
+
+  const inDays = lower.match(/\bin\s+(\d+)\s+days?\b/);
+  if (inDays) return today.clone().add(parseInt(inDays[1], 10), 'days');
+
+  const iso = lower.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    const date = moment.tz(iso[0], 'YYYY-MM-DD', true, today.tz() || 'UTC');
+    return date.isValid() ? date : null;
+  }
+
+  // "Oct 21", "21 October", "October 21st"
+  const monthFirst = lower.match(/\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b/);
+  const dayFirst = lower.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\b/);
+  const monthDay = monthFirst && MONTHS.includes(monthFirst[1])
+    ? { month: MONTHS.indexOf(monthFirst[1]), day: parseInt(monthFirst[2], 10) }
+    : dayFirst && MONTHS.includes(dayFirst[2])
+      ? { month: MONTHS.indexOf(dayFirst[2]), day: parseInt(dayFirst[1], 10) }
+      : null;
+  if (monthDay) {
+    const date = today.clone().month(monthDay.month).date(monthDay.day);
+    if (date.month() !== monthDay.month) return null;
+    // A date that has already passed this year means next year
+    return date.isBefore(today, 'day') ? date.add(1, 'year') : date;
+  }
+
+  const weekdayIndex = WEEKDAYS.findIndex(day => new RegExp(`\\b${day.slice(0, 3)}(?:${day.slice(3)})?\\b`).test(lower));
+  if (weekdayIndex >= 0) {
+    let daysAhead = (weekdayIndex - today.day() + 7) % 7;
+    // "next Thursday" on a Thursday means a week from today
+    if (daysAhead === 0 && /\bnext\b/.test(lower)) daysAhead = 7;
+    return today.clone().add(daysAhead, 'days');
+  }
+
+  return null;
+};
+
+/**
+ * Parse a phrase like "3pm PST Thursday" into an instant.
+ * Returns null when no time of day can be found.
+ */
+export const parseTimeExpression = (text: string, options: ParseOptions): ParsedTime | null => {
+  const { referenceTimezone, zones = [], now = new Date() } = options;
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  // Read the time first so "9.30" is not mistaken for anything else
+  const time = extractTime(trimmed);
+  if (!time) return null;
+
+  const zone = extractZone(time.rest, zones);
+  const timezone = zone?.timezone || referenceTimezone;
+  const today = moment(now).tz(timezone).startOf('day');
+  const date = extractDate(zone?.rest ?? time.rest, today);
+
+  const local = moment.tz(
+    {
+      year: (date || today).year(),
+      month: (date || today).month(),
+      date: (date || today).date(),
+      hour: time.hour,
+      minute: time.minute,
+    },
+    timezone
+  );
+
+  return {
+    instant: local.toDate(),
+    timezone,
+    zoneLabel: zone?.label || timezone,
+    hasExplicitZone: Boolean(zone),
+    hasExplicitDate: Boolean(date),
+  };
+};
@@ -1,5 +1,6 @@
 import { DateTime } from 'luxon';
 import { TimeZone, TimePeriod, Meeting, TimeSlotData } from '../types';
+import { isZoneHoliday } from './holidays';
 
 /**
  * Generate 24-hour time slots for a given date
@@ -121,7 +122,9 @@ export const generateTimeGrid = (
       return {
         originalTime: slot,
         localTime,
-        isWorkingHour: isWorkingHours(localTime.hour, workingHoursStart, workingHoursEnd),
+        isWorkingHour:
+          isWorkingHours(localTime.hour, workingHoursStart, workingHoursEnd) &&
+          !isZoneHoliday(timezone, localTime.toJSDate()),
         isDifferentDay: !localTime.hasSame(slot, 'day'),
       };
     })
@@ -1,5 +1,6 @@
 import moment from 'moment-timezone';
 import { TimeZone, TimePeriod, Meeting, TimeSlotData } from '../types';
+import { isZoneWorkingTime } from './workingHours';
 
 /**
  * Enhanced timezone utilities using Moment.js
@@ -201,7 +202,7 @@ export const generateEnhancedTimeGrid = (
         localTime: localTime.toDate(),
         timezone,
         period,
-        isWorkingHour: localTime.hour() >= workingHoursStart && localTime.hour() < workingHoursEnd,
+        isWorkingHour: isZoneWorkingTime(timezone, localTime, workingHoursStart, workingHoursEnd),
         meetings: slotMeetings,
         isDifferentDay: !localTime.isSame(slot, 'day'),
       });
@@ -297,6 +298,7 @@ export const getCurrentTimePosition = (currentTime: Date | moment.Moment): numbe
 
 /**
  * Find optimal meeting times across all timezones
+ * Each zone's own working hours, working days and lunch break are honored
  */
 export const findOptimalMeetingTimes = (
   timezones: TimeZone[],
@@ -309,11 +311,9 @@ export const findOptimalMeetingTimes = (
   const optimalTimes: moment.Moment[] = [];
   
   baseSlots.forEach(slot => {
-    const isOptimalForAll = uniqueTimezones.every(timezone => {
-      const localTime = convertTimeToTimezone(slot, timezone);
-      const hour = localTime.hour();
-      return hour >= workingHoursStart && hour < workingHoursEnd;
-    });
+    const isOptimalForAll = uniqueTimezones.every(timezone =>
+      isZoneWorkingTime(timezone, slot, workingHoursStart, workingHoursEnd)
+    );
     
     if (isOptimalForAll) {
       optimalTimes.push(slot);
@@ -0,0 +1,75 @@
+import moment from 'moment-timezone';
+import { TimeZone, GridEvent } from '../types';
+import { isZoneWorkingTime } from './workingHours';
+import { getZoneHoliday } from './holidays';
+
+/**
+ * Week grid
+ * Lays out several days of home-zone hours with who is working in each
+ * hour and which meetings or calendar events overlap it
+ */
+
+export interface WeekGridHour {
+  start: Date;
+  homeHour: number;
+  workingZoneIds: string[];
+  holidayZoneIds: string[];
+  events: GridEvent[];
+}
+
+export interface WeekGridDay {
+  date: string; // YYYY-MM-DD in the reference zone
+  hours: WeekGridHour[];
+  overlapHours: number; // Hours in which every zone is working
+}
+
+/**
+ * Get the first day (Monday) of the week containing a date
+ */
+export const getWeekStart = (date: string): string => {
+  return moment(date, 'YYYY-MM-DD').startOf('isoWeek').format('YYYY-MM-DD');
+};
+
+/**
+ * Build the hours of each day from weekStart in the reference zone.
+ * Days with a clock change have 23 or 25 hours.
+ */
+export const buildWeekGrid = (
+  zones: TimeZone[],
+  referenceTimezone: string,
+  weekStart: string,
+  events: GridEvent[] = [],
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17,
+  days: number = 7
+): WeekGridDay[] => {
+  const firstDay = moment.tz(weekStart, 'YYYY-MM-DD', referenceTimezone);
+
+  return Array.from({ length: days }, (_, dayIndex) => {
+    const dayStart = firstDay.clone().add(dayIndex, 'days').startOf('day');
+    const dayEnd = dayStart.clone().add(1, 'day');
+    const hoursInDay = dayEnd.diff(dayStart, 'hours');
+    const dayEvents = events.filter(event => event.start < dayEnd.toDate() && event.end > dayStart.toDate());
+
+    const hours: WeekGridHour[] = Array.from({ length: hoursInDay }, (_, hourIndex) => {
+      const start = dayStart.clone().add(hourIndex, 'hours');
+      const end = start.clone().add(1, 'hour');
+
+      return {
+        start: start.toDate(),
+        homeHour: start.hour(),
+        workingZoneIds: zones
+          .filter(zone => isZoneWorkingTime(zone, start, workingHoursStart, workingHoursEnd))
+          .map(zone => zone.id),
+        holidayZoneIds: zones.filter(zone => getZoneHoliday(zone, start)).map(zone => zone.id),
+        events: dayEvents.filter(event => event.start < end.toDate() && event.end > start.toDate()),
+      };
+    });
+
+    return {
+      date: dayStart.format('YYYY-MM-DD'),
+      hours,
+      overlapHours: zones.length > 0 ? hours.filter(hour => hour.workingZoneIds.length === zones.length).length : 0,
+    };
+  });
+};
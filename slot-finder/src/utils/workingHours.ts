@@ -0,0 +1,123 @@
+import moment from 'moment-timezone';
+import { TimeZone, WorkingSchedule } from '../types';
+import { countryWorkWeeks, DEFAULT_WORKING_DAYS } from '../data/workWeeks';
+import { isZoneHoliday } from './holidays';
+
+/**
+ * Per-zone working schedules
+ * Zones fall back to the global working hours and their country's work week
+ */
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the working days of a country on a given date
+ */
+export const getDefaultWorkingDays = (country: string, date: moment.Moment | Date = new Date()): number[] => {
+  const history = countryWorkWeeks[country];
+  if (!history) return DEFAULT_WORKING_DAYS;
+
+  const day = moment(date).format('YYYY-MM-DD');
+  const entry = history.find(week => !week.until || day < week.until);
+  return entry ? entry.days : DEFAULT_WORKING_DAYS;
+};
+
+/**
+ * Resolve the working schedule of a zone
+ */
+export const getZoneSchedule = (
+  zone: TimeZone,
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17,
+  date: moment.Moment | Date = new Date()
+): WorkingSchedule => {
+  if (zone.workSchedule) return zone.workSchedule;
+
+  return {
+    start: workingHoursStart,
+    end: workingHoursEnd,
+    days: getDefaultWorkingDays(zone.country, moment(date).tz(zone.iana)),
+  };
+};
+
+/**
+ * Check if a local hour falls inside a schedule's lunch break
+ */
+export const isLunchBreak = (hour: number, schedule: WorkingSchedule): boolean => {
+  return !!schedule.lunchBreak && hour >= schedule.lunchBreak.start && hour < schedule.lunchBreak.end;
+};
+
+/**
+ * Check if an instant is working time in a zone (public holidays are not)
+ */
+export const isZoneWorkingTime = (
+  zone: TimeZone,
+  time: moment.Moment | Date,
+  workingHoursStart: number = 9,
+  workingHoursEnd: number = 17
+): boolean => {
+  const localTime = moment(time).tz(zone.iana);
+  const schedule = getZoneSchedule(zone, workingHoursStart, workingHoursEnd, localTime);
+  const hour = localTime.hour() + localTime.minute() / 60;
+
+  return (
+    schedule.days.includes(localTime.day()) &&
+    !isZoneHoliday(zone, localTime) &&
+    hour >= schedule.start &&
+    hour < schedule.end &&
+    !isLunchBreak(hour, schedule)
+  );
+};
+
+/**
+ * Convert fractional hours to an "HH:mm" string
+ */
+export const hourToTimeString = (hour: number): string => {
+  const totalMinutes = Math.round(hour * 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * Convert an "HH:mm" string to fractional hours
+ */
+export const timeStringToHour = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + (minutes || 0) / 60;
+};
+
+/**
+ * Describe working days, collapsing consecutive days into ranges ("Mon–Fri")
+ */
+export const formatWorkingDays = (days: number[]): string => {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 0) return 'No working days';
+
+  const ranges: string[] = [];
+  let rangeStart = sorted[0];
+  let previous = sorted[0];
+
+  sorted.slice(1).concat(-1).forEach(day => {
+    if (day === previous + 1) {
+      previous = day;
+      return;
+    }
+    ranges.push(
+      rangeStart === previous
+        ? DAY_LABELS[rangeStart]
+        : `${DAY_LABELS[rangeStart]}–${DAY_LABELS[previous]}`
+    );
+    rangeStart = day;
+    previous = day;
+  });
+
+  return ranges.join(', ');
+};
+
+/**
+ * Describe a schedule, e.g. "Mon–Fri 09:00–17:00"
+ */
+export const formatSchedule = (schedule: WorkingSchedule): string => {
+  return `${formatWorkingDays(schedule.days)} ${hourToTimeString(schedule.start)}–${hourToTimeString(schedule.end)}`;
+};